@@ -4,6 +4,8 @@ import 'dotenv/config';
 import { createServer } from 'http';
 import next from 'next';
 import { initSocketServer } from './src/lib/SocketServer';
+import { strokeStorage } from './src/lib/StrokeStorage';
+import { roomRegistry } from './src/lib/RoomRegistry';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = 'localhost';
@@ -12,7 +14,10 @@ const port = parseInt(process.env.PORT || '3000', 10);
 const app = next({ dev, hostname, port });
 const handler = app.getRequestHandler();
 
-app.prepare().then(() => {
+app.prepare().then(async () => {
+    // Restore the live canvas (elements + start time) before any client connects
+    await strokeStorage.restore();
+
     const httpServer = createServer(handler);
 
     // Initialize Socket.io AFTER creating the server
@@ -24,4 +29,14 @@ app.prepare().then(() => {
         console.log(`> Ready on http://${hostname}:${port}`);
         console.log(`> Mode: ${dev ? 'development' : 'production'}`);
     });
+
+    // Flush the live canvases on shutdown (Render sends SIGTERM on deploy)
+    const shutdown = (signal: string) => {
+        console.log(`[Server] ${signal} received, saving canvas...`);
+        roomRegistry.flushAll()
+            .catch(err => console.error('[Server] Failed to save canvas on shutdown:', err))
+            .finally(() => process.exit(0));
+    };
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+    process.once('SIGINT', () => shutdown('SIGINT'));
 });
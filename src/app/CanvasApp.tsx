@@ -0,0 +1,408 @@
+'use client';
+
+import React, { useCallback, useState, useEffect, useRef } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import { useSocket } from '@/hooks/useSocket';
+import { useInkManager } from '@/hooks/useInkManager';
+import { useStreak } from '@/hooks/useStreak';
+import { COLORS, BrushSize, ToolType, SceneInitData, ServerErrorData, HostNotice } from '@/types';
+import type { ViewportCoordinates } from '@/lib/deepLinkUtils';
+import { MAIN_ROOM, getRoomGalleryPath } from '@/lib/roomUtils';
+import { intersectAllowed } from '@/lib/paletteRules';
+import Toolbar from '@/components/Toolbar';
+import CountdownTimer from '@/components/CountdownTimer';
+import ConnectionStatus from '@/components/ConnectionStatus';
+import OnboardingFlow from '@/components/OnboardingFlow';
+import InkBar from '@/components/InkBar';
+import StreakBadge from '@/components/StreakBadge';
+import ShareButton from '@/components/ShareButton';
+import ShareNudge from '@/components/ShareNudge';
+import ModerationOverlay from '@/components/ModerationOverlay';
+import HostPanel from '@/components/HostPanel';
+import ReactionLayer from '@/components/ReactionLayer';
+import PresenceLayer from '@/components/PresenceLayer';
+import ProfilePanel from '@/components/ProfilePanel';
+import styles from './page.module.css';
+
+// Dynamic import for ExcalidrawCanvas
+const ExcalidrawCanvas = dynamic(() => import('@/components/ExcalidrawCanvas'), {
+  ssr: false,
+  loading: () => (
+    <div className={styles.loading}>
+      <div className={styles.loadingSpinner}></div>
+      <span>Loading canvas...</span>
+    </div>
+  ),
+});
+
+// Import types for dynamic component refs
+import type { CaptureSnapshotFn, HistoryActions, ToScenePointFn, ToScreenPointFn } from '@/components/ExcalidrawCanvas';
+
+interface CanvasAppProps {
+  room: string;
+}
+
+/**
+ * The live canvas UI for one room — the main canvas at / or a named one at /c/[room].
+ */
+export default function CanvasApp({ room }: CanvasAppProps) {
+  const [selectedColor, setSelectedColor] = useState<string>(COLORS[0]);
+  const [selectedSize, setSelectedSize] = useState<BrushSize>('small');
+  // Initialize with a supported tool path
+  const [selectedTool, setSelectedTool] = useState<ToolType>('brush');
+  const [startTime, setStartTime] = useState<number | null>(null);
+  const [nextResetAt, setNextResetAt] = useState<number | null>(null);
+  // Today's theme (null when no prompts are configured)
+  const [prompt, setPrompt] = useState<string | null>(null);
+  // Track current viewport for share feature
+  const [viewport, setViewport] = useState<ViewportCoordinates | null>(null);
+  // Overflow menu for mobile (gallery + timer)
+  const [overflowOpen, setOverflowOpen] = useState(false);
+  // Last reason the server gave for dropping our update (auto-hides)
+  const [serverNotice, setServerNotice] = useState<string | null>(null);
+  // Device whose view we follow (set by clicking their cursor)
+  const [followingId, setFollowingId] = useState<string | null>(null);
+
+  // Snapshot ref — ExcalidrawCanvas populates this with a capture function
+  const snapshotRef = useRef<CaptureSnapshotFn | null>(null);
+
+  // History ref — ExcalidrawCanvas populates this with undo/redo functions
+  const historyRef = useRef<HistoryActions | null>(null);
+
+  // Screen ↔ scene conversion refs — used by the moderation overlay and reactions
+  const scenePointRef = useRef<ToScenePointFn | null>(null);
+  const screenPointRef = useRef<ToScreenPointFn | null>(null);
+
+  // Share modal open ref — lets ShareNudge trigger the share modal
+  const openShareRef = useRef<(() => void) | null>(null);
+
+  const handleViewportChange = useCallback((vp: ViewportCoordinates) => {
+    setViewport(vp);
+  }, []);
+
+  const handleCaptureSnapshot = useCallback(async (): Promise<string | null> => {
+    if (snapshotRef.current) {
+      return snapshotRef.current();
+    }
+    console.warn('[Page] Snapshot ref not available');
+    return null;
+  }, []);
+
+  // Initialize streak manager
+  const { streakState, streakManager } = useStreak();
+
+  // Handle users count update from socket
+  const handleUsersCountChange = useCallback((count: number) => {
+    // console.log('Users count:', count);
+  }, []);
+
+  // Handle scene init to sync timer
+  const handleSceneInit = useCallback((data: SceneInitData) => {
+    // console.log('Scene init received, start time:', data.startTime);
+    if (data.startTime) {
+      setStartTime(data.startTime);
+    }
+    if (data.nextResetAt) {
+      setNextResetAt(data.nextResetAt);
+    }
+    setPrompt(data.prompt ?? null);
+  }, []);
+
+  // Surface why the server dropped an update (rate limit, invalid data, no ink)
+  const handleServerError = useCallback((error: ServerErrorData) => {
+    setServerNotice(error.message);
+  }, []);
+
+  // Host actions (pause, clear, limits, extra ink) are announced to everyone in the room
+  const handleHostNotice = useCallback((notice: HostNotice) => {
+    setServerNotice(notice.message);
+  }, []);
+
+  useEffect(() => {
+    if (!serverNotice) return;
+    const timer = setTimeout(() => setServerNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [serverNotice]);
+
+  const {
+    socket,
+    isConnected,
+    isOfflineMode,
+    isConnecting,
+    usersCount,
+    artistCount,
+    isModerator,
+    hostState,
+    isHost,
+    paletteRule,
+    pins,
+    profile,
+    updateProfile,
+    followerCount,
+    reconnect,
+  } = useSocket({
+    room,
+    onUsersCountChange: handleUsersCountChange,
+    onSceneInit: handleSceneInit,
+    onServerError: handleServerError,
+    onHostNotice: handleHostNotice
+  });
+
+  // Host limits apply to everyone but the host, the scheduled palette to
+  // everyone. A color, size or tool that gets turned off falls back to the
+  // first allowed one, or the hand
+  const allowedColors = intersectAllowed(isHost ? null : hostState?.allowedColors ?? null, paletteRule?.allowedColors ?? null);
+  const allowedTools = intersectAllowed(isHost ? null : hostState?.allowedTools ?? null, paletteRule?.allowedTools ?? null);
+  const allowedSizes = paletteRule?.allowedSizes ?? null;
+  const activeColor = allowedColors && !allowedColors.includes(selectedColor) ? allowedColors[0] : selectedColor;
+  const activeSize = allowedSizes && !allowedSizes.includes(selectedSize) ? allowedSizes[0] : selectedSize;
+  const activeTool: ToolType = allowedTools && selectedTool !== 'hand' && !(allowedTools as readonly ToolType[]).includes(selectedTool)
+    ? 'hand'
+    : selectedTool;
+  const isFrozen = Boolean(hostState?.frozen) && !isHost;
+
+  // Initialize ink manager (reconciled against the server's ink ledger)
+  const { inkState, inkManager } = useInkManager(socket);
+
+  // Tool change handlers
+  const handleColorChange = useCallback((color: string) => {
+    setSelectedColor(color);
+  }, []);
+
+  const handleSizeChange = useCallback((size: BrushSize) => {
+    setSelectedSize(size);
+  }, []);
+
+  const handleToolChange = useCallback((tool: ToolType) => {
+    setSelectedTool(tool);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    if (historyRef.current) {
+      historyRef.current.undo();
+    } else {
+      console.warn('[Page] History ref not available for undo');
+    }
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    if (historyRef.current) {
+      historyRef.current.redo();
+    } else {
+      console.warn('[Page] History ref not available for redo');
+    }
+  }, []);
+
+  // Panning or zooming ourselves ends follow mode
+  const handleFollowEnd = useCallback(() => {
+    setFollowingId(null);
+  }, []);
+
+  // Keyboard shortcuts (some handled by Excalidraw, but tool switching is ours)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Don't trigger shortcuts when typing in inputs
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+
+      switch (e.key.toLowerCase()) {
+        case 'b':
+          handleToolChange('brush');
+          break;
+        case 'e':
+          handleToolChange('eraser');
+          break;
+        case '1':
+          handleSizeChange('small');
+          break;
+        case '2':
+          handleSizeChange('medium');
+          break;
+        case '3':
+          handleSizeChange('large');
+          break;
+        case 'h':
+          handleToolChange('hand');
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleToolChange, handleSizeChange]);
+
+  return (
+    <main className={styles.main}>
+      {/* Connection status banner - only show when actively trying to connect */}
+      {!isOfflineMode && !isConnected && !isConnecting && (
+        <ConnectionStatus
+          isConnected={isConnected}
+          usersCount={usersCount}
+          onRetry={reconnect}
+        />
+      )}
+
+      {serverNotice && (
+        <div className={styles.serverNotice} role="status">
+          {serverNotice}
+        </div>
+      )}
+
+      {isFrozen && (
+        <div className={styles.frozenBanner} role="status">
+          ⏸️ The host has paused drawing
+        </div>
+      )}
+
+      {/* Logo */}
+      <div className={styles.logo}>
+        <span className={styles.logoText}>drawny</span>
+        <span className={styles.logoTag}>Draw with strangers.</span>
+        {room !== MAIN_ROOM && (
+          <span className={styles.roomBadge} title="You are on a named canvas">#{room}</span>
+        )}
+        {artistCount > 0 && (
+          <span className={styles.artistBadge}>
+            {artistCount < 10
+              ? '✨ Many people are drawing today'
+              : `🎨 ${artistCount} artists drew today`}
+          </span>
+        )}
+      </div>
+
+      {/* Sleek Top Bar - Live Artists, Gallery, Timer, Ink, and Share */}
+      <div className={styles.topBar}>
+        {/* Inline branding + live artists — visible on mobile only */}
+        <div className={styles.topBarLeft}>
+          <span className={styles.inlineLogo}>drawny</span>
+          <span className={styles.topBarDivider} />
+          <span className={`${styles.liveDot} ${isConnected ? styles.liveDotConnected : ''}`} />
+          <span className={styles.liveCount}>{usersCount} Artists Live</span>
+        </div>
+
+        {/* Prompt + Gallery + Timer: inline on desktop, overflow dropdown on mobile */}
+        <div className={`${styles.overflowGroup} ${overflowOpen ? styles.overflowOpen : ''}`}>
+          {prompt && (
+            <div className={styles.promptChip} title={`Today's theme: ${prompt}`}>
+              <span className={styles.promptLabel}>🎯 Today:</span>
+              <span className={styles.promptText}>{prompt}</span>
+            </div>
+          )}
+          {paletteRule?.name && (
+            <div className={styles.promptChip} title={`Palette rule: ${paletteRule.name}`}>
+              <span className={styles.promptLabel}>🎨 Now:</span>
+              <span className={styles.promptText}>{paletteRule.name}</span>
+            </div>
+          )}
+          <Link href={getRoomGalleryPath(room)} className={styles.galleryButton}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <rect x="3" y="3" width="18" height="18" rx="2" ry="2" />
+              <circle cx="8.5" cy="8.5" r="1.5" />
+              <polyline points="21 15 16 10 5 21" />
+            </svg>
+            Gallery
+          </Link>
+          <CountdownTimer serverStartTime={startTime} nextResetAt={nextResetAt} />
+        </div>
+
+        {/* Overflow toggle — mobile only */}
+        <button
+          className={`${styles.overflowToggle} ${overflowOpen ? styles.overflowToggleActive : ''}`}
+          onClick={() => setOverflowOpen(v => !v)}
+          aria-label="More options"
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <circle cx="12" cy="5" r="1.5" />
+            <circle cx="12" cy="12" r="1.5" />
+            <circle cx="12" cy="19" r="1.5" />
+          </svg>
+        </button>
+
+        {/* Ink Bar - Shows ink stamina */}
+        <InkBar inkState={inkState} />
+
+        {/* Streak Badge - Daily drawing streak */}
+        <StreakBadge streakState={streakState} />
+
+        {/* Share Button - Mobile-friendly sharing with snapshot */}
+        <ShareButton viewport={viewport} onCaptureSnapshot={handleCaptureSnapshot} openRef={openShareRef} />
+      </div>
+
+      <ExcalidrawCanvas
+        activeTool={activeTool}
+        activeColor={activeColor}
+        activeSize={activeSize}
+        socket={socket}
+        inkManager={inkManager}
+        streakManager={streakManager}
+        onViewportChange={handleViewportChange}
+        snapshotRef={snapshotRef}
+        historyRef={historyRef}
+        scenePointRef={scenePointRef}
+        screenPointRef={screenPointRef}
+        isFrozen={isFrozen}
+        followUserId={followingId}
+        onFollowEnd={handleFollowEnd}
+        followerCount={followerCount}
+      />
+
+      {/* Other people's cursors, in their presence colors */}
+      <PresenceLayer
+        socket={socket}
+        screenPointRef={screenPointRef}
+        followingId={followingId}
+        onFollow={setFollowingId}
+        followerCount={followerCount}
+      />
+
+      {/* Emoji reactions and pinned notes, anchored to the canvas */}
+      <ReactionLayer
+        socket={socket}
+        pins={pins}
+        scenePointRef={scenePointRef}
+        screenPointRef={screenPointRef}
+        canRemoveAnyPin={isHost || isModerator}
+      />
+
+      {/* Name and color on your cursor */}
+      <ProfilePanel profile={profile} onSave={updateProfile} />
+
+      {/* Region delete/rollback — only for admins signed in at /test */}
+      {isModerator && (
+        <ModerationOverlay socket={socket} scenePointRef={scenePointRef} canvasStartTime={startTime} />
+      )}
+
+      {/* Host tools, or a claim button on an unhosted named canvas */}
+      <HostPanel socket={socket} room={room} hostState={hostState} isHost={isHost} canClaim={room !== MAIN_ROOM} />
+
+      <Toolbar
+        selectedColor={activeColor}
+        selectedSize={activeSize}
+        selectedTool={activeTool}
+        usersCount={usersCount}
+        isConnected={isConnected}
+        onColorChange={handleColorChange}
+        onSizeChange={handleSizeChange}
+        onToolChange={handleToolChange}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={true}
+        canRedo={true}
+        allowedColors={allowedColors}
+        allowedTools={allowedTools}
+        allowedSizes={allowedSizes}
+      />
+
+      <OnboardingFlow streakState={streakState} nextResetAt={nextResetAt} prompt={prompt} />
+
+      {/* Contextual share nudges — encourages sharing on zoom-in, drawing, multi-user */}
+      <ShareNudge
+        viewport={viewport}
+        usersCount={usersCount}
+        onOpenShare={() => openShareRef.current?.()}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * POST /api/admin/archive — save an archive of the live canvas without clearing it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/adminAuth';
+import { strokeStorage } from '@/lib/StrokeStorage';
+
+export async function POST(request: NextRequest) {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    try {
+        console.log('[Admin API] Archiving live canvas');
+        const result = await strokeStorage.archiveNow();
+
+        return NextResponse.json({
+            ...result,
+            timestamp: new Date().toISOString()
+        }, { status: result.success ? 200 : 409 });
+    } catch (error) {
+        console.error('[Admin API] ❌ Failed to archive canvas:', error);
+        return NextResponse.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * DELETE /api/admin/archives/[id] — remove an archive from the gallery.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/adminAuth';
+import { deleteArchive, isValidArchiveId } from '@/lib/archiveStore';
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    if (!isValidArchiveId(id)) {
+        return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+    }
+
+    try {
+        const deleted = await deleteArchive(id);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Archive not found' }, { status: 404 });
+        }
+        console.log('[Admin API] Deleted archive:', id);
+        return NextResponse.json({ success: true, id });
+    } catch (error) {
+        console.error('[Admin API] ❌ Failed to delete archive:', error);
+        return NextResponse.json({ error: 'Failed to delete archive' }, { status: 500 });
+    }
+}
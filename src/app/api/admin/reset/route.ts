@@ -0,0 +1,29 @@
+/**
+ * POST /api/admin/reset — archive the live canvas and start a fresh one now.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/adminAuth';
+import { resetCanvas } from '@/lib/SocketServer';
+
+export async function POST(request: NextRequest) {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    try {
+        console.log('[Admin API] Forced canvas reset');
+        const result = await resetCanvas();
+
+        return NextResponse.json({
+            success: result?.success ?? true,
+            result,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        console.error('[Admin API] ❌ Failed to reset canvas:', error);
+        return NextResponse.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
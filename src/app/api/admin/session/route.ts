@@ -0,0 +1,50 @@
+/**
+ * POST /api/admin/session   { token }  — sign in to the admin dashboard
+ * DELETE /api/admin/session            — sign out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    ADMIN_COOKIE,
+    ADMIN_SESSION_MAX_AGE,
+    adminLoginLimiter,
+    createAdminSession,
+    getRequestIp,
+    isAdminConfigured,
+    verifyAdminToken,
+} from '@/lib/adminAuth';
+
+export async function POST(request: NextRequest) {
+    if (!isAdminConfigured()) {
+        return NextResponse.json({ error: 'Admin API is disabled (ADMIN_TOKEN not set)' }, { status: 503 });
+    }
+
+    const ip = getRequestIp(request);
+    if (!adminLoginLimiter.consume(ip)) {
+        console.warn('[Admin API] Too many sign-in attempts from', ip);
+        return NextResponse.json({ error: 'Too many attempts, try again later' }, { status: 429 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!verifyAdminToken(body?.token)) {
+        console.warn('[Admin API] Rejected sign-in from', ip);
+        return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    console.log('[Admin API] Admin signed in from', ip);
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(ADMIN_COOKIE, createAdminSession(), {
+        httpOnly: true,
+        sameSite: 'strict',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: ADMIN_SESSION_MAX_AGE,
+    });
+    return response;
+}
+
+export async function DELETE() {
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(ADMIN_COOKIE);
+    return response;
+}
@@ -0,0 +1,50 @@
+/**
+ * GET /api/admin/status — live canvas, socket server and database state.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/adminAuth';
+import { databaseService } from '@/lib/DatabaseService';
+import { getSocketServer } from '@/lib/SocketServer';
+import { strokeStorage } from '@/lib/StrokeStorage';
+import { listArchives } from '@/lib/archiveStore';
+import { MAIN_ROOM } from '@/lib/roomUtils';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    const io = getSocketServer();
+    const canvasInfo = strokeStorage.getCanvasInfo();
+    const dbAvailable = databaseService.isAvailable();
+    const [recentArchives, archiveCount] = await Promise.all([
+        listArchives({ room: MAIN_ROOM, sort: 'date', order: 'desc', limit: 5 }).then(page => page.archives),
+        dbAvailable ? databaseService.countArchives() : Promise.resolve(null)
+    ]);
+
+    return NextResponse.json({
+        server: {
+            socketServer: io !== null ? 'initialized' : 'not initialized',
+            connectedClients: io ? io.engine.clientsCount : 0,
+        },
+        canvas: {
+            strokeCount: canvasInfo.strokeCount,
+            artistCount: canvasInfo.artistCount,
+            prompt: canvasInfo.prompt,
+            startTime: new Date(canvasInfo.startTime).toISOString(),
+            timeUntilReset: Math.floor(canvasInfo.timeUntilReset / 1000 / 60), // minutes
+            age: Math.floor((Date.now() - canvasInfo.startTime) / 1000 / 60) // minutes
+        },
+        database: {
+            available: dbAvailable,
+            status: dbAvailable ? 'Connected' : 'Not configured or connection failed'
+        },
+        archives: {
+            count: archiveCount, // null when listing from the filesystem
+            recent: recentArchives
+        },
+        timestamp: new Date().toISOString()
+    });
+}
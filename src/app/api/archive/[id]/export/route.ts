@@ -0,0 +1,103 @@
+/**
+ * GET /api/archive/[id]/export?format=excalidraw|svg|png|json&scale=2
+ *
+ * Downloads an archived canvas as a `.excalidraw` scene, a vector SVG, a PNG
+ * at `scale` pixels per canvas unit, or the raw archive JSON.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIp } from '@/lib/adminAuth';
+import { isValidArchiveId, loadArchive } from '@/lib/archiveStore';
+import { renderElementsToSvg } from '@/lib/archiveRenderer';
+import {
+    DEFAULT_EXPORT_SCALE,
+    MAX_EXPORT_SCALE,
+    MIN_EXPORT_SCALE,
+    archiveExportLimiter,
+    buildExcalidrawFile,
+    getArchiveElements,
+    getExportFilename,
+    hasCachedArchivePng,
+    isExportFormat,
+    renderArchivePng,
+} from '@/lib/archiveExport';
+
+const CACHE_CONTROL = 'public, max-age=86400, s-maxage=86400, immutable';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        if (!isValidArchiveId(id)) {
+            return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+        }
+
+        const format = request.nextUrl.searchParams.get('format') || 'excalidraw';
+        if (!isExportFormat(format)) {
+            return NextResponse.json({ error: 'Unsupported format' }, { status: 400 });
+        }
+
+        const scaleParam = request.nextUrl.searchParams.get('scale');
+        const scale = scaleParam === null ? DEFAULT_EXPORT_SCALE : Number(scaleParam);
+        if (!Number.isFinite(scale) || scale < MIN_EXPORT_SCALE || scale > MAX_EXPORT_SCALE) {
+            return NextResponse.json(
+                { error: `Scale must be between ${MIN_EXPORT_SCALE} and ${MAX_EXPORT_SCALE}` },
+                { status: 400 }
+            );
+        }
+
+        // Only renders cost anything; a PNG that's already cached is served freely
+        if (format === 'png' && !hasCachedArchivePng(id, scale) && !archiveExportLimiter.consume(getRequestIp(request))) {
+            return NextResponse.json({ error: 'Too many exports, try again later' }, { status: 429 });
+        }
+
+        const archive = await loadArchive(id);
+        if (!archive) {
+            return NextResponse.json({ error: 'Archive not found' }, { status: 404 });
+        }
+
+        const elements = getArchiveElements(archive);
+        const filename = getExportFilename(archive, format);
+        const headers = {
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'Cache-Control': CACHE_CONTROL,
+        };
+
+        switch (format) {
+            case 'excalidraw':
+                return new NextResponse(buildExcalidrawFile(elements), {
+                    headers: { ...headers, 'Content-Type': 'application/vnd.excalidraw+json' },
+                });
+            case 'json':
+                return new NextResponse(JSON.stringify(archive), {
+                    headers: { ...headers, 'Content-Type': 'application/json' },
+                });
+            case 'svg':
+                return new NextResponse(renderElementsToSvg(elements, { scale: 1 }), {
+                    headers: {
+                        ...headers,
+                        'Content-Type': 'image/svg+xml',
+                        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+                    },
+                });
+            case 'png': {
+                const png = await renderArchivePng(id, elements, scale);
+                if (!png) {
+                    return NextResponse.json({ error: 'PNG export is not available on this server' }, { status: 501 });
+                }
+                return new NextResponse(new Uint8Array(png), {
+                    headers: {
+                        ...headers,
+                        'Content-Type': 'image/png',
+                        'Content-Length': png.length.toString(),
+                    },
+                });
+            }
+        }
+    } catch (error) {
+        console.error('[Export API] ❌ Failed to export archive:', error);
+        return NextResponse.json({ error: 'Failed to export archive' }, { status: 500 });
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * GET /api/archive/[id]/thumbnail?format=png|svg
+ *
+ * Serves the rendered image of an archived canvas for gallery cards and
+ * OG previews. Defaults to PNG, falling back to SVG when no PNG renderer
+ * is installed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidArchiveId, loadArchiveThumbnail } from '@/lib/archiveStore';
+
+// Archives never change once written
+const CACHE_CONTROL = 'public, max-age=86400, s-maxage=86400, immutable';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        if (!isValidArchiveId(id)) {
+            return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+        }
+
+        const format = request.nextUrl.searchParams.get('format');
+        if (format && format !== 'png' && format !== 'svg') {
+            return NextResponse.json({ error: 'Unsupported format' }, { status: 400 });
+        }
+
+        const thumbnail = await loadArchiveThumbnail(id);
+        if (!thumbnail) {
+            return NextResponse.json({ error: 'Archive not found' }, { status: 404 });
+        }
+
+        if (format !== 'svg' && thumbnail.png) {
+            return new NextResponse(new Uint8Array(thumbnail.png), {
+                status: 200,
+                headers: {
+                    'Content-Type': 'image/png',
+                    'Content-Length': thumbnail.png.length.toString(),
+                    'Cache-Control': CACHE_CONTROL,
+                },
+            });
+        }
+
+        return new NextResponse(thumbnail.svg, {
+            status: 200,
+            headers: {
+                'Content-Type': 'image/svg+xml',
+                // Opened directly, the SVG must not be able to run anything
+                'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+                'Cache-Control': CACHE_CONTROL,
+            },
+        });
+    } catch (error) {
+        console.error('[Thumbnail API] ❌ Failed to serve thumbnail:', error);
+        return NextResponse.json({ error: 'Failed to serve thumbnail' }, { status: 500 });
+    }
+}
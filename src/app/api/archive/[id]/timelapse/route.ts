@@ -0,0 +1,48 @@
+/**
+ * GET /api/archive/[id]/timelapse
+ *
+ * Returns the archive's timelapse (time-ordered change frames) for replay.
+ * Archives saved before timelapses were recorded get an approximation built
+ * from each element's last-updated time; `recorded` tells the two apart.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidArchiveId, loadArchive } from '@/lib/archiveStore';
+import { framesFromElements } from '@/lib/timelapseUtils';
+import type { ExcalidrawElement } from '@/types';
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        if (!isValidArchiveId(id)) {
+            return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+        }
+
+        const archive = await loadArchive(id);
+        if (!archive) {
+            return NextResponse.json({ error: 'Archive not found' }, { status: 404 });
+        }
+
+        if (archive.timelapse) {
+            return NextResponse.json({ ...archive.timelapse, recorded: true }, {
+                headers: { 'Cache-Control': 'public, max-age=86400, immutable' },
+            });
+        }
+
+        const elements = (Array.isArray(archive.strokes) ? archive.strokes : []) as unknown as ExcalidrawElement[];
+        return NextResponse.json({
+            startTime: archive.start_time,
+            endTime: archive.end_time,
+            frames: framesFromElements(elements, archive.start_time, archive.end_time),
+            recorded: false,
+        }, {
+            headers: { 'Cache-Control': 'public, max-age=86400, immutable' },
+        });
+    } catch (error) {
+        console.error('[Timelapse API] ❌ Failed to load timelapse:', error);
+        return NextResponse.json({ error: 'Failed to load timelapse' }, { status: 500 });
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * GET /api/archives?sort=date|stroke_count|artist_count&order=asc|desc&from=&to=&cursor=&limit=
+ *
+ * Paginated archive listing for the gallery. `from` is inclusive and `to`
+ * exclusive (YYYY-MM-DD or ISO 8601); pass `nextCursor` back as `cursor` to
+ * get the following page.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listArchives, parseArchiveListQuery } from '@/lib/archiveStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    const { query, reason } = parseArchiveListQuery(request.nextUrl.searchParams);
+    if (!query) {
+        return NextResponse.json({ error: reason }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json(await listArchives(query));
+    } catch (error) {
+        console.error('[Archives API] ❌ Failed to list archives:', error);
+        return NextResponse.json({ error: 'Failed to list archives' }, { status: 500 });
+    }
+}
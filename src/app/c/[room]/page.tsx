@@ -0,0 +1,38 @@
+/**
+ * Named canvas — /c/[room]
+ *
+ * Same UI as the main canvas, but with its own elements, artists, reset
+ * cycle and gallery. Rooms are created on first visit; /c/main goes to /.
+ */
+
+import type { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import CanvasApp from '../../CanvasApp';
+import { MAIN_ROOM, getRoomPath, isValidRoomId, normalizeRoomId } from '@/lib/roomUtils';
+
+interface RoomPageProps {
+    params: Promise<{ room: string }>;
+}
+
+export async function generateMetadata({ params }: RoomPageProps): Promise<Metadata> {
+    const room = normalizeRoomId((await params).room);
+    return {
+        title: `#${room} — drawny`,
+        description: `Draw with strangers on the #${room} canvas. No login needed.`,
+    };
+}
+
+export default async function RoomPage({ params }: RoomPageProps) {
+    const { room: rawRoom } = await params;
+    const room = normalizeRoomId(rawRoom);
+
+    if (!isValidRoomId(room)) {
+        notFound();
+    }
+    // One canvas, one URL: send aliases (/c/main, /c/MyRoom) to the canonical path
+    if (room === MAIN_ROOM || room !== rawRoom) {
+        redirect(getRoomPath(room));
+    }
+
+    return <CanvasApp room={room} />;
+}
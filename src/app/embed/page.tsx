@@ -0,0 +1,55 @@
+/**
+ * Embeddable live view — /embed
+ *
+ * A read-only canvas for OBS browser sources and blog iframes. It never
+ * draws or sends a cursor. Query params:
+ *   room=<id>        canvas to show (main by default)
+ *   x, y, z          fixed viewport, same values as share links
+ *   bg=transparent   no background, for stream overlays
+ *   cursors=0        hide other people's cursors
+ *   follow=1         pan to wherever people are drawing
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import EmbedCanvas from '@/components/EmbedCanvas';
+import { parseViewport } from '@/lib/deepLinkUtils';
+import { MAIN_ROOM, isValidRoomId, normalizeRoomId } from '@/lib/roomUtils';
+
+interface EmbedPageProps {
+    searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export const metadata: Metadata = {
+    title: 'drawny — live',
+    robots: { index: false },
+};
+
+export default async function EmbedPage({ searchParams }: EmbedPageProps) {
+    const query = await searchParams;
+    const param = (name: string) => {
+        const value = query[name];
+        return typeof value === 'string' ? value : '';
+    };
+
+    const room = param('room') ? normalizeRoomId(param('room')) : MAIN_ROOM;
+    if (!isValidRoomId(room)) {
+        notFound();
+    }
+
+    // Same x/y/z format (and clamping) as the share link hash
+    const coordinates = new URLSearchParams();
+    ['x', 'y', 'z'].forEach(name => {
+        if (param(name)) coordinates.set(name, param(name));
+    });
+
+    return (
+        <EmbedCanvas
+            room={room}
+            viewport={parseViewport(coordinates.toString())}
+            transparent={param('bg') === 'transparent'}
+            showCursors={param('cursors') !== '0'}
+            follow={param('follow') === '1'}
+        />
+    );
+}
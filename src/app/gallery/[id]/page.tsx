@@ -1,8 +1,8 @@
-import fs from 'fs';
-import path from 'path';
+import { cache } from 'react';
+import type { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import ArchiveCanvasViewer from '@/components/ArchiveCanvasViewer';
-import { databaseService } from '@/lib/DatabaseService';
+import { isValidArchiveId, loadArchive } from '@/lib/archiveStore';
 
 interface PageProps {
     params: Promise<{
@@ -29,46 +29,72 @@ function parseStrokes(raw: unknown): any[] {
     return [];
 }
 
-export default async function ArchivePage({ params }: PageProps) {
-    const { id } = await params;
-    // Sanitize ID to prevent traversal
-    if (!id || id.includes('..') || id.includes('/')) {
-        notFound();
-    }
-
-    let data;
+// Shared by generateMetadata and the page within one request
+const getArchive = cache(loadArchive);
 
-    // Try to get archive from database first
-    if (databaseService.isAvailable()) {
-        console.log('[Archive] Fetching archive from database:', id);
-        data = await databaseService.getArchive(id);
+/**
+ * OG metadata with the archive's rendered thumbnail as the preview image.
+ */
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+    const { id } = await params;
+    const data = isValidArchiveId(id) ? await getArchive(id) : null;
+    if (!data) return {};
 
-        if (data) {
-            console.log('[Archive] Found archive in database');
-            const strokes = parseStrokes(data.strokes);
-            return <ArchiveCanvasViewer strokes={strokes} />;
-        } else {
-            console.log('[Archive] Archive not found in database, trying filesystem');
-        }
-    }
+    const day = new Date(data.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    const title = data.prompt ? `Drawny — ${data.prompt} (${day})` : `Drawny — ${day}`;
+    const description = `${data.stroke_count} strokes by ${data.artist_count} ${data.artist_count === 1 ? 'stranger' : 'strangers'} on a shared canvas.`;
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://drawny.com';
+    const imageUrl = `${baseUrl}/api/archive/${encodeURIComponent(id)}/thumbnail`;
 
-    // Fallback to filesystem
-    const filePath = path.join(process.cwd(), 'public', 'archives', `${id}.json`);
+    return {
+        title,
+        description,
+        openGraph: {
+            title,
+            description,
+            type: 'website',
+            url: `${baseUrl}/gallery/${encodeURIComponent(id)}`,
+            siteName: 'Drawny',
+            images: [
+                {
+                    url: imageUrl,
+                    width: 1200,
+                    height: 630,
+                    alt: `The Drawny canvas from ${day}`,
+                },
+            ],
+        },
+        twitter: {
+            card: 'summary_large_image',
+            title,
+            description,
+            images: [imageUrl],
+        },
+    };
+}
 
-    if (!fs.existsSync(filePath)) {
-        console.log('[Archive] Archive not found in filesystem either');
+export default async function ArchivePage({ params }: PageProps) {
+    const { id } = await params;
+    // Sanitize ID to prevent traversal
+    if (!isValidArchiveId(id)) {
         notFound();
     }
 
-    try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        data = JSON.parse(content);
-        console.log('[Archive] Found archive in filesystem');
-    } catch (e) {
-        console.error('[Archive] Failed to read archive:', e);
+    const data = await getArchive(id);
+    if (!data) {
+        console.log('[Archive] Archive not found:', id);
         notFound();
     }
 
     const strokes = parseStrokes(data.strokes);
-    return <ArchiveCanvasViewer strokes={strokes} />;
+    return (
+        <ArchiveCanvasViewer
+            archiveId={id}
+            strokes={strokes}
+            prompt={data.prompt}
+            endTime={data.end_time}
+            reactionCounts={data.reaction_counts}
+            pinCount={data.pin_count}
+        />
+    );
 }
@@ -1,65 +1,59 @@
-import fs from 'fs';
-import path from 'path';
 import Link from 'next/link';
-import { databaseService } from '@/lib/DatabaseService';
+import { notFound } from 'next/navigation';
+import GalleryFilters from '@/components/GalleryFilters';
+import GalleryGrid from '@/components/GalleryGrid';
+import { listArchives, parseArchiveListQuery } from '@/lib/archiveStore';
+import { MAIN_ROOM, getRoomPath, isValidRoomId, normalizeRoomId } from '@/lib/roomUtils';
 
-interface ArchiveStart {
-    id: string;
-    date: string;
-    strokeCount: number;
-    artistCount: number;
+interface GalleryPageProps {
+    searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-export default async function GalleryPage() {
-    let archives: ArchiveStart[] = [];
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
 
-    // Try to get archives from database first
-    if (databaseService.isAvailable()) {
-        console.log('[Gallery] Fetching archives from database...');
-        const dbArchives = await databaseService.getAllArchives();
+// Listing filters from the page URL: ?room=...&month=YYYY-MM&sort=...&order=...
+function getListingParams(searchParams: Record<string, string | string[] | undefined>): { params: URLSearchParams; month: string } {
+    const param = (name: string) => {
+        const value = searchParams[name];
+        return typeof value === 'string' ? value : '';
+    };
 
-        archives = dbArchives.map(archive => ({
-            id: archive.id,
-            date: archive.date,
-            strokeCount: archive.stroke_count,
-            artistCount: archive.artist_count ?? 0
-        }));
+    const params = new URLSearchParams();
+    if (param('room')) params.set('room', normalizeRoomId(param('room')));
+    if (param('sort')) params.set('sort', param('sort'));
+    if (param('order')) params.set('order', param('order'));
 
-        console.log('[Gallery] Found', archives.length, 'archives in database');
-    } else {
-        console.log('[Gallery] Database not available, falling back to filesystem');
-
-        // Fallback to filesystem
-        const archivesDir = path.join(process.cwd(), 'public', 'archives');
-
-        if (fs.existsSync(archivesDir)) {
-            const files = fs.readdirSync(archivesDir).filter(f => f.endsWith('.json'));
+    const month = MONTH_PATTERN.test(param('month')) ? param('month') : '';
+    if (month) {
+        const [year, monthIndex] = month.split('-').map(Number);
+        params.set('from', new Date(Date.UTC(year, monthIndex - 1, 1)).toISOString());
+        params.set('to', new Date(Date.UTC(year, monthIndex, 1)).toISOString());
+    }
+    return { params, month };
+}
 
-            archives = files.map(file => {
-                try {
-                    const content = fs.readFileSync(path.join(archivesDir, file), 'utf-8');
-                    const data = JSON.parse(content);
-                    return {
-                        id: file.replace('.json', ''),
-                        date: data.date,
-                        strokeCount: data.strokeCount ?? data.stroke_count ?? 0,
-                        artistCount: data.artist_count ?? 0
-                    };
-                } catch (e) {
-                    console.error('Error parsing archive:', file, e);
-                    return null;
-                }
-            }).filter(Boolean) as ArchiveStart[];
+export default async function GalleryPage({ searchParams }: GalleryPageProps) {
+    const { params, month } = getListingParams(await searchParams);
+    const room = params.get('room') || MAIN_ROOM;
+    if (!isValidRoomId(room)) {
+        notFound();
+    }
+    if (!parseArchiveListQuery(params).query) {
+        // Unknown sort/order values fall back to newest first
+        params.delete('sort');
+        params.delete('order');
+    }
+    const query = parseArchiveListQuery(params).query!;
 
-            // Sort by date descending
-            archives.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const { archives, nextCursor } = await listArchives(query);
+    console.log('[Gallery] Loaded', archives.length, 'archives', nextCursor ? '(more available)' : '');
 
-            console.log('[Gallery] Found', archives.length, 'archives in filesystem');
-        }
-    }
+    const filters = new URLSearchParams({ room: query.room, sort: query.sort, order: query.order });
+    if (query.from) filters.set('from', query.from);
+    if (query.to) filters.set('to', query.to);
 
     return (
         <main style={{
@@ -71,10 +65,14 @@ export default async function GalleryPage() {
             <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
                 <header style={{ marginBottom: '40px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                     <div>
-                        <h1 style={{ fontSize: '32px', fontWeight: 'bold', color: '#1a1a2e', marginBottom: '8px' }}>Archive Gallery</h1>
-                        <p style={{ color: '#666' }}>Past creations from the strangers</p>
+                        <h1 style={{ fontSize: '32px', fontWeight: 'bold', color: '#1a1a2e', marginBottom: '8px' }}>
+                            {room === MAIN_ROOM ? 'Archive Gallery' : `Archive Gallery — ${room}`}
+                        </h1>
+                        <p style={{ color: '#666' }}>
+                            {room === MAIN_ROOM ? 'Past creations from the strangers' : `Past canvases of the ${room} room`}
+                        </p>
                     </div>
-                    <Link href="/" style={{
+                    <Link href={getRoomPath(room)} style={{
                         padding: '10px 20px',
                         background: '#1a1a2e',
                         color: 'white',
@@ -86,75 +84,19 @@ export default async function GalleryPage() {
                     </Link>
                 </header>
 
+                <GalleryFilters room={room} month={month} sort={query.sort} order={query.order} />
+
                 {archives.length === 0 ? (
                     <div style={{ textAlign: 'center', padding: '60px', color: '#666' }}>
-                        No archives found yet. Check back tomorrow!
+                        {month ? 'No canvases from this month.' : 'No archives found yet. Check back tomorrow!'}
                     </div>
                 ) : (
-                    <div style={{
-                        display: 'grid',
-                        gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
-                        gap: '24px'
-                    }}>
-                        {archives.map(archive => (
-                            <Link key={archive.id} href={`/gallery/${archive.id}`} style={{ textDecoration: 'none' }}>
-                                <div style={{
-                                    background: 'white',
-                                    borderRadius: '16px',
-                                    overflow: 'hidden',
-                                    boxShadow: '0 4px 6px rgba(0,0,0,0.05)',
-                                    transition: 'transform 0.2s',
-                                    cursor: 'pointer',
-                                    border: '1px solid rgba(0,0,0,0.05)'
-                                }}>
-                                    <div style={{
-                                        height: '200px',
-                                        background: 'linear-gradient(135deg, #f5f7fa 0%, #e4e8f0 100%)',
-                                        display: 'flex',
-                                        flexDirection: 'column',
-                                        alignItems: 'center',
-                                        justifyContent: 'center',
-                                        gap: '12px',
-                                        color: '#888'
-                                    }}>
-                                        <div style={{
-                                            fontSize: '36px',
-                                            lineHeight: 1,
-                                            opacity: Math.min(0.3 + (archive.strokeCount / 200), 1)
-                                        }}>
-                                            {archive.strokeCount > 100 ? '🎨' : archive.strokeCount > 20 ? '✏️' : '🖊️'}
-                                        </div>
-                                        <div style={{
-                                            fontSize: '13px',
-                                            fontWeight: 500,
-                                            color: '#aaa'
-                                        }}>
-                                            {archive.strokeCount} {archive.strokeCount === 1 ? 'element' : 'elements'}
-                                        </div>
-                                    </div>
-                                    <div style={{ padding: '20px' }}>
-                                        <h3 style={{ margin: '0 0 8px', color: '#1a1a2e', fontSize: '18px' }}>
-                                            {new Date(archive.date).toLocaleDateString(undefined, {
-                                                weekday: 'long',
-                                                year: 'numeric',
-                                                month: 'long',
-                                                day: 'numeric'
-                                            })}
-                                        </h3>
-                                        <div style={{ display: 'flex', gap: '12px', color: '#666', fontSize: '14px' }}>
-                                            <span>🖌️ {archive.strokeCount} strokes</span>
-                                            <span>🕒 {new Date(archive.date).toLocaleTimeString()}</span>
-                                        </div>
-                                        {archive.artistCount > 0 && (
-                                            <div style={{ marginTop: '8px', fontSize: '13px', color: '#888', fontStyle: 'italic' }}>
-                                                This canvas was drawn by {archive.artistCount} {archive.artistCount === 1 ? 'person' : 'people'}.
-                                            </div>
-                                        )}
-                                    </div>
-                                </div>
-                            </Link>
-                        ))}
-                    </div>
+                    <GalleryGrid
+                        key={filters.toString()}
+                        initialArchives={archives}
+                        initialCursor={nextCursor}
+                        filters={filters.toString()}
+                    />
                 )}
             </div>
         </main>
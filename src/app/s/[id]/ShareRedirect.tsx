@@ -1,7 +1,7 @@
 /**
  * Client-side redirect component for the share page.
  * Social media crawlers only read the server-rendered HTML (OG tags),
- * while real users get redirected to the main canvas.
+ * while real users get redirected to the shared canvas.
  */
 
 'use client';
@@ -9,14 +9,15 @@
 import { useEffect } from 'react';
 
 interface ShareRedirectProps {
+    path: string; // Canvas page: / or /c/[room]
     hash: string;
 }
 
-export default function ShareRedirect({ hash }: ShareRedirectProps) {
+export default function ShareRedirect({ path, hash }: ShareRedirectProps) {
     useEffect(() => {
-        // Redirect to the main canvas with coordinates
-        window.location.replace(`/${hash}`);
-    }, [hash]);
+        // Redirect to the canvas with coordinates
+        window.location.replace(`${path}${hash}`);
+    }, [path, hash]);
 
     return (
         <div
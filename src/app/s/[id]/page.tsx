@@ -8,14 +8,23 @@
  * URL format: /s/[id]?x=100&y=-200&z=1.5
  * -> OG image: /api/snapshot/[id]
  * -> Redirect: /#x=100&y=-200&z=1.5
+ *
+ * Shares of a named canvas add &room=[room] and redirect to /c/[room].
  */
 
 import type { Metadata } from 'next';
 import ShareRedirect from './ShareRedirect';
+import { MAIN_ROOM, getRoomPath, isValidRoomId, normalizeRoomId } from '@/lib/roomUtils';
 
 interface SharePageProps {
     params: Promise<{ id: string }>;
-    searchParams: Promise<{ x?: string; y?: string; z?: string }>;
+    searchParams: Promise<{ x?: string; y?: string; z?: string; room?: string }>;
+}
+
+// Unknown or malformed rooms fall back to the main canvas
+function getShareRoom(room: string | undefined): string {
+    const normalized = room ? normalizeRoomId(room) : MAIN_ROOM;
+    return isValidRoomId(normalized) ? normalized : MAIN_ROOM;
 }
 
 /**
@@ -28,6 +37,8 @@ export async function generateMetadata({ params, searchParams }: SharePageProps)
     const x = sp.x || '0';
     const y = sp.y || '0';
     const z = sp.z || '1';
+    const room = getShareRoom(sp.room);
+    const roomQuery = room === MAIN_ROOM ? '' : `&room=${room}`;
 
     const coordLabel = `(${x}, ${y}) · ${z}x zoom`;
     const title = `Drawny — Come draw here!`;
@@ -44,7 +55,7 @@ export async function generateMetadata({ params, searchParams }: SharePageProps)
             title,
             description,
             type: 'website',
-            url: `${baseUrl}/s/${id}?x=${x}&y=${y}&z=${z}`,
+            url: `${baseUrl}/s/${id}?x=${x}&y=${y}&z=${z}${roomQuery}`,
             siteName: 'Drawny',
             images: [
                 {
@@ -74,5 +85,5 @@ export default async function SharePage({ searchParams }: SharePageProps) {
     // Build the hash for client-side redirect
     const hash = `#x=${x}&y=${y}&z=${z}`;
 
-    return <ShareRedirect hash={hash} />;
+    return <ShareRedirect path={getRoomPath(getShareRoom(sp.room))} hash={hash} />;
 }
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { ArchiveSummary } from '@/lib/DatabaseService';
+
+// Response of /api/admin/status; shown raw apart from the recent archives list
+interface AdminStatus {
+    archives?: { recent: ArchiveSummary[] };
+    [key: string]: unknown;
+}
+
+interface ActionResult {
+    action: string;
+    ok: boolean;
+    data: unknown;
+}
+
+const buttonStyle = (background: string, disabled: boolean) => ({
+    padding: '12px 24px',
+    background,
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    fontSize: '16px'
+});
+
+async function fetchStatus(): Promise<AdminStatus> {
+    const response = await fetch('/api/admin/status', { cache: 'no-store' });
+    return response.json();
+}
+
+export default function AdminDashboard() {
+    const router = useRouter();
+    const [status, setStatus] = useState<AdminStatus | null>(null);
+    const [result, setResult] = useState<ActionResult | null>(null);
+    const [archiveId, setArchiveId] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const refreshStatus = useCallback(async () => {
+        try {
+            setStatus(await fetchStatus());
+        } catch {
+            setStatus({ error: 'Failed to fetch status' });
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchStatus()
+            .then(setStatus)
+            .catch(() => setStatus({ error: 'Failed to fetch status' }));
+    }, []);
+
+    const runAction = async (action: string, url: string, method: 'POST' | 'DELETE') => {
+        setLoading(true);
+        try {
+            const response = await fetch(url, { method });
+            if (response.status === 401) {
+                router.refresh(); // Session expired — back to sign-in
+                return;
+            }
+            setResult({ action, ok: response.ok, data: await response.json() });
+            await refreshStatus();
+        } catch (error) {
+            setResult({ action, ok: false, data: { error: error instanceof Error ? error.message : String(error) } });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const forceReset = () => {
+        if (!confirm('This will archive and clear the live canvas for everyone. Continue?')) return;
+        runAction('Force reset', '/api/admin/reset', 'POST');
+    };
+
+    const deleteArchive = (id: string) => {
+        if (!id || !confirm(`Permanently delete archive ${id}?`)) return;
+        runAction(`Delete ${id}`, `/api/admin/archives/${encodeURIComponent(id)}`, 'DELETE');
+        setArchiveId('');
+    };
+
+    const signOut = async () => {
+        await fetch('/api/admin/session', { method: 'DELETE' });
+        router.refresh();
+    };
+
+    return (
+        <div style={{ padding: '40px', fontFamily: 'monospace', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1 style={{ marginBottom: '20px' }}>🛠️ Drawny Admin</h1>
+
+            <div style={{ marginBottom: '30px' }}>
+                <Link href="/" style={{ color: '#0070f3', textDecoration: 'none' }}>
+                    ← Back to Canvas
+                </Link>
+                {' | '}
+                <Link href="/gallery" style={{ color: '#0070f3', textDecoration: 'none' }}>
+                    View Gallery
+                </Link>
+                {' | '}
+                <button onClick={signOut} style={{ background: 'none', border: 'none', color: '#0070f3', cursor: 'pointer', fontFamily: 'monospace', fontSize: 'inherit', padding: 0 }}>
+                    Sign out
+                </button>
+            </div>
+
+            <div style={{ display: 'flex', gap: '20px', marginBottom: '30px', flexWrap: 'wrap' }}>
+                <button onClick={refreshStatus} disabled={loading} style={buttonStyle('#0070f3', loading)}>
+                    🔍 Refresh Status
+                </button>
+                <button
+                    onClick={() => runAction('Archive now', '/api/admin/archive', 'POST')}
+                    disabled={loading}
+                    style={buttonStyle('#2e7d32', loading)}
+                >
+                    🗄️ Archive Now
+                </button>
+                <button onClick={forceReset} disabled={loading} style={buttonStyle('#ff4444', loading)}>
+                    {loading ? 'Working...' : '♻️ Force Reset'}
+                </button>
+            </div>
+
+            <form
+                onSubmit={(e) => { e.preventDefault(); deleteArchive(archiveId.trim()); }}
+                style={{ display: 'flex', gap: '12px', marginBottom: '30px' }}
+            >
+                <input
+                    value={archiveId}
+                    onChange={(e) => setArchiveId(e.target.value)}
+                    placeholder="Archive id"
+                    style={{ flex: 1, padding: '12px', fontFamily: 'monospace', fontSize: '16px', border: '1px solid #ccc', borderRadius: '6px' }}
+                />
+                <button type="submit" disabled={loading || !archiveId.trim()} style={buttonStyle('#8b0000', loading)}>
+                    🗑️ Delete Archive
+                </button>
+            </form>
+
+            {result && (
+                <div style={{ marginBottom: '30px', padding: '20px', background: result.ok ? '#d4edda' : '#f8d7da', borderRadius: '8px' }}>
+                    <h2 style={{ marginTop: 0 }}>{result.action}</h2>
+                    <pre style={{ overflow: 'auto', background: 'white', padding: '15px', borderRadius: '4px' }}>
+                        {JSON.stringify(result.data, null, 2)}
+                    </pre>
+                </div>
+            )}
+
+            {status?.archives && status.archives.recent.length > 0 && (
+                <div style={{ marginBottom: '30px', padding: '20px', background: '#f5f5f5', borderRadius: '8px' }}>
+                    <h2 style={{ marginTop: 0 }}>Recent Archives</h2>
+                    {status.archives.recent.map(archive => (
+                        <div key={archive.id} style={{ display: 'flex', gap: '16px', alignItems: 'center', padding: '6px 0' }}>
+                            <Link href={`/gallery/${archive.id}`} style={{ color: '#0070f3', textDecoration: 'none', flex: 1 }}>
+                                {archive.id}
+                            </Link>
+                            <span>{archive.stroke_count} strokes</span>
+                            <button
+                                onClick={() => deleteArchive(archive.id)}
+                                disabled={loading}
+                                style={{ background: 'none', border: 'none', color: '#c00', cursor: 'pointer', fontFamily: 'monospace' }}
+                            >
+                                delete
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {status && (
+                <div style={{ marginBottom: '30px', padding: '20px', background: '#f5f5f5', borderRadius: '8px' }}>
+                    <h2 style={{ marginTop: 0 }}>Status</h2>
+                    <pre style={{ overflow: 'auto', background: 'white', padding: '15px', borderRadius: '4px' }}>
+                        {JSON.stringify(status, null, 2)}
+                    </pre>
+                </div>
+            )}
+        </div>
+    );
+}
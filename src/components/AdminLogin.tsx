@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+export default function AdminLogin() {
+    const router = useRouter();
+    const [token, setToken] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const signIn = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/admin/session', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token })
+            });
+            if (response.ok) {
+                router.refresh();
+                return;
+            }
+            const data = await response.json().catch(() => ({}));
+            setError(data.error || `Sign-in failed (${response.status})`);
+        } catch {
+            setError('Sign-in failed');
+        }
+        setLoading(false);
+    };
+
+    return (
+        <div style={{ padding: '40px', fontFamily: 'monospace', maxWidth: '480px', margin: '0 auto' }}>
+            <h1 style={{ marginBottom: '20px' }}>🔒 Admin sign-in</h1>
+            <form onSubmit={signIn} style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                <input
+                    type="password"
+                    value={token}
+                    onChange={(e) => setToken(e.target.value)}
+                    placeholder="ADMIN_TOKEN"
+                    autoComplete="current-password"
+                    autoFocus
+                    style={{ padding: '12px', fontFamily: 'monospace', fontSize: '16px', border: '1px solid #ccc', borderRadius: '6px' }}
+                />
+                <button
+                    type="submit"
+                    disabled={loading || !token}
+                    style={{
+                        padding: '12px 24px',
+                        background: '#0070f3',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '6px',
+                        cursor: loading ? 'not-allowed' : 'pointer',
+                        fontSize: '16px'
+                    }}
+                >
+                    {loading ? 'Signing in...' : 'Sign in'}
+                </button>
+                {error && <div style={{ color: '#c00' }}>{error}</div>}
+            </form>
+        </div>
+    );
+}
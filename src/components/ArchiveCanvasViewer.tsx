@@ -1,9 +1,13 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
 import type { ExcalidrawElement } from '@excalidraw/excalidraw/element/types';
+import type { ReactionCounts, TimelapseData } from '@/types';
+import { applyFramesUntil } from '@/lib/timelapseUtils';
+import { fadeElements } from '@/lib/strokeDecay';
+import { getTopReactions } from '@/lib/reactions';
 import '@excalidraw/excalidraw/index.css';
 
 // Dynamically import Excalidraw as it's client-side only
@@ -22,12 +26,58 @@ const Excalidraw = dynamic(
 );
 
 interface ArchiveCanvasViewerProps {
+    archiveId: string;
     strokes: any[]; // Using any to bypass legacy Stroke type conflict, these are ExcalidrawElement[]
+    prompt?: string | null; // Theme of that day
+    endTime: number; // When it was archived — fading strokes show as they were then
+    reactionCounts?: ReactionCounts | null;
+    pinCount?: number;
 }
 
-export default function ArchiveCanvasViewer({ strokes }: ArchiveCanvasViewerProps) {
+// At 1× a whole canvas cycle replays in one minute
+const REPLAY_BASE_DURATION_MS = 60 * 1000;
+const REPLAY_TICK_MS = 100;
+const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+const replayButtonStyle = {
+    padding: '6px 12px',
+    background: '#1a1a2e',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontFamily: 'Inter, sans-serif',
+    fontSize: '14px',
+    fontWeight: 500
+} as const;
+
+const downloadLinkStyle = {
+    color: '#1a1a2e',
+    fontWeight: 500,
+    textDecoration: 'none'
+} as const;
+
+const DOWNLOADS = [
+    { format: 'excalidraw', label: '.excalidraw', title: 'Open in excalidraw.com' },
+    { format: 'svg', label: 'SVG', title: 'Vector image, for printing' },
+    { format: 'png', label: 'PNG', title: 'Image at 2× resolution' },
+];
+
+export default function ArchiveCanvasViewer({ archiveId, strokes, prompt, endTime, reactionCounts, pinCount = 0 }: ArchiveCanvasViewerProps) {
     const [excalidrawAPI, setExcalidrawAPI] = useState<any>(null);
 
+    // Timelapse replay — loaded on demand, the viewer shows the final state until then
+    const [timelapse, setTimelapse] = useState<TimelapseData | null>(null);
+    const [replayStatus, setReplayStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+    const [position, setPosition] = useState(0); // ms since the cycle started
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+    const positionRef = useRef(0);
+    // Scene rebuilt so far, so playing forward only applies new frames
+    const replaySceneRef = useRef({ scene: new Map<string, ExcalidrawElement>(), nextIndex: 0, t: -1 });
+
+    const duration = timelapse ? Math.max(1, timelapse.endTime - timelapse.startTime) : 0;
+
     // Safely parse and validate elements from props
     const elements = useMemo<ExcalidrawElement[]>(() => {
         let raw = strokes;
@@ -40,10 +90,12 @@ export default function ArchiveCanvasViewer({ strokes }: ArchiveCanvasViewerProp
             }
         }
         if (raw && Array.isArray(raw)) {
-            return raw.filter((el: any) => !el.isDeleted) as ExcalidrawElement[];
+            return fadeElements(raw.filter((el: any) => !el.isDeleted) as ExcalidrawElement[], endTime);
         }
         return [];
-    }, [strokes]);
+    }, [strokes, endTime]);
+
+    const reactions = getTopReactions(reactionCounts);
 
     // Once both the API and elements are ready, push elements via updateScene.
     // This avoids the blank-on-first-load bug where initialData is consumed
@@ -61,6 +113,64 @@ export default function ArchiveCanvasViewer({ strokes }: ArchiveCanvasViewerProp
         setExcalidrawAPI(api);
     }, []);
 
+    const seek = useCallback((t: number) => {
+        positionRef.current = t;
+        setPosition(t);
+    }, []);
+
+    const startReplay = useCallback(async () => {
+        setReplayStatus('loading');
+        try {
+            const res = await fetch(`/api/archive/${encodeURIComponent(archiveId)}/timelapse`);
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            const data: TimelapseData = await res.json();
+            replaySceneRef.current = { scene: new Map(), nextIndex: 0, t: -1 };
+            setTimelapse(data);
+            seek(0);
+            setIsPlaying(true);
+            setReplayStatus('ready');
+        } catch (err) {
+            console.error('[ArchiveViewer] Failed to load timelapse:', err);
+            setReplayStatus('error');
+        }
+    }, [archiveId, seek]);
+
+    const togglePlay = useCallback(() => {
+        if (!isPlaying && positionRef.current >= duration) {
+            seek(0); // Replay from the start
+        }
+        setIsPlaying(!isPlaying);
+    }, [isPlaying, duration, seek]);
+
+    // Rebuild the scene at the current replay position
+    useEffect(() => {
+        if (!excalidrawAPI || !timelapse) return;
+        const replay = replaySceneRef.current;
+        if (position < replay.t) {
+            replay.scene = new Map();
+            replay.nextIndex = 0;
+        }
+        replay.nextIndex = applyFramesUntil(replay.scene, timelapse.frames, replay.nextIndex, position);
+        replay.t = position;
+        excalidrawAPI.updateScene({
+            elements: fadeElements(Array.from(replay.scene.values()).filter(el => !el.isDeleted), timelapse.startTime + position)
+        });
+    }, [excalidrawAPI, timelapse, position]);
+
+    // Advance while playing
+    useEffect(() => {
+        if (!isPlaying || duration === 0) return;
+        const step = (duration / (REPLAY_BASE_DURATION_MS / REPLAY_TICK_MS)) * speed;
+        const timer = setInterval(() => {
+            const next = Math.min(duration, positionRef.current + step);
+            seek(next);
+            if (next >= duration) {
+                setIsPlaying(false);
+            }
+        }, REPLAY_TICK_MS);
+        return () => clearInterval(timer);
+    }, [isPlaying, duration, speed, seek]);
+
     if (elements.length === 0) {
         return (
             <div style={{
@@ -164,9 +274,103 @@ export default function ArchiveCanvasViewer({ strokes }: ArchiveCanvasViewerProp
                 alignItems: 'center',
                 gap: '8px'
             }}>
+                {prompt && (
+                    <>
+                        <span style={{ color: '#1a1a2e', fontWeight: 600 }}>🎯 {prompt}</span>
+                        <span style={{ width: '4px', height: '4px', background: '#ccc', borderRadius: '50%' }}></span>
+                    </>
+                )}
                 <span>{elements.length} strokes</span>
+                {(reactions.length > 0 || pinCount > 0) && (
+                    <>
+                        <span style={{ width: '4px', height: '4px', background: '#ccc', borderRadius: '50%' }}></span>
+                        <span title="Reactions and pinned notes while this canvas was live" style={{ display: 'inline-flex', gap: '8px' }}>
+                            {reactions.map(({ emoji, count }) => <span key={emoji}>{emoji} {count}</span>)}
+                            {pinCount > 0 && <span>📌 {pinCount}</span>}
+                        </span>
+                    </>
+                )}
                 <span style={{ width: '4px', height: '4px', background: '#ccc', borderRadius: '50%' }}></span>
                 <span>Read-only</span>
+                <span style={{ width: '4px', height: '4px', background: '#ccc', borderRadius: '50%' }}></span>
+                <span>Download</span>
+                {DOWNLOADS.map(({ format, label, title }) => (
+                    <a
+                        key={format}
+                        href={`/api/archive/${encodeURIComponent(archiveId)}/export?format=${format}`}
+                        download
+                        title={title}
+                        style={downloadLinkStyle}
+                    >
+                        {label}
+                    </a>
+                ))}
+            </div>
+
+            <div style={{
+                position: 'fixed',
+                bottom: '24px',
+                left: '50%',
+                transform: 'translateX(-50%)',
+                background: 'rgba(255, 255, 255, 0.9)',
+                padding: '10px 16px',
+                borderRadius: '8px',
+                zIndex: 1000,
+                boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                backdropFilter: 'blur(10px)',
+                fontFamily: 'Inter, sans-serif',
+                fontSize: '14px',
+                color: '#666',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+                width: timelapse ? 'min(640px, calc(100vw - 40px))' : 'auto'
+            }}>
+                {!timelapse ? (
+                    <>
+                        <button
+                            onClick={startReplay}
+                            disabled={replayStatus === 'loading'}
+                            style={replayButtonStyle}
+                        >
+                            {replayStatus === 'loading' ? 'Loading…' : '▶ Replay timelapse'}
+                        </button>
+                        {replayStatus === 'error' && <span>Couldn&apos;t load the timelapse</span>}
+                    </>
+                ) : (
+                    <>
+                        <button
+                            onClick={togglePlay}
+                            aria-label={isPlaying ? 'Pause' : 'Play'}
+                            style={{ ...replayButtonStyle, width: '36px' }}
+                        >
+                            {isPlaying ? '❚❚' : '▶'}
+                        </button>
+                        <input
+                            type="range"
+                            min={0}
+                            max={duration}
+                            step={1000}
+                            value={position}
+                            onChange={(e) => seek(Number(e.target.value))}
+                            aria-label="Timelapse position"
+                            style={{ flex: 1 }}
+                        />
+                        <span style={{ fontVariantNumeric: 'tabular-nums', minWidth: '48px' }}>
+                            {new Date(timelapse.startTime + position).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                        <select
+                            value={speed}
+                            onChange={(e) => setSpeed(Number(e.target.value))}
+                            aria-label="Playback speed"
+                            style={{ fontFamily: 'Inter, sans-serif', fontSize: '14px', border: 'none', background: 'transparent', color: '#1a1a2e' }}
+                        >
+                            {REPLAY_SPEEDS.map(s => (
+                                <option key={s} value={s}>{s}×</option>
+                            ))}
+                        </select>
+                    </>
+                )}
             </div>
         </div>
     );
@@ -4,8 +4,8 @@ import React, { useState, useEffect, useCallback } from 'react';
 import styles from './CountdownTimer.module.css';
 
 interface CountdownTimerProps {
-    resetIntervalHours?: number;
     serverStartTime?: number | null;
+    nextResetAt?: number | null; // From the server's reset schedule
 }
 
 interface TimeLeft {
@@ -14,7 +14,7 @@ interface TimeLeft {
     seconds: number;
 }
 
-export default function CountdownTimer({ resetIntervalHours = 24, serverStartTime }: CountdownTimerProps) {
+export default function CountdownTimer({ serverStartTime, nextResetAt }: CountdownTimerProps) {
     const [timeLeft, setTimeLeft] = useState<TimeLeft>({ hours: 0, minutes: 0, seconds: 0 });
     const [canvasStartTime, setCanvasStartTime] = useState<number | null>(null);
 
@@ -28,18 +28,16 @@ export default function CountdownTimer({ resetIntervalHours = 24, serverStartTim
 
     // Calculate time left
     const calculateTimeLeft = useCallback((): TimeLeft => {
-        if (!canvasStartTime) return { hours: 0, minutes: 0, seconds: 0 };
+        if (!canvasStartTime || !nextResetAt) return { hours: 0, minutes: 0, seconds: 0 };
 
-        const resetIntervalMs = resetIntervalHours * 60 * 60 * 1000;
-        const elapsed = Date.now() - canvasStartTime;
-        const remaining = Math.max(0, resetIntervalMs - elapsed);
+        const remaining = Math.max(0, nextResetAt - Date.now());
 
         const hours = Math.floor(remaining / (1000 * 60 * 60));
         const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60));
         const seconds = Math.floor((remaining % (1000 * 60)) / 1000);
 
         return { hours, minutes, seconds };
-    }, [canvasStartTime, resetIntervalHours]);
+    }, [canvasStartTime, nextResetAt]);
 
     // Update countdown every second
     useEffect(() => {
@@ -66,10 +64,10 @@ export default function CountdownTimer({ resetIntervalHours = 24, serverStartTim
 
     // Calculate progress percentage
     const getProgress = (): number => {
-        if (!canvasStartTime) return 0;
-        const resetIntervalMs = resetIntervalHours * 60 * 60 * 1000;
+        if (!canvasStartTime || !nextResetAt) return 0;
+        const cycleMs = Math.max(1, nextResetAt - canvasStartTime);
         const elapsed = Date.now() - canvasStartTime;
-        return Math.min(100, (elapsed / resetIntervalMs) * 100);
+        return Math.min(100, (elapsed / cycleMs) * 100);
     };
 
     const progress = getProgress();
@@ -0,0 +1,244 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import dynamic from 'next/dynamic';
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/element/types';
+import type { Collaborator, ExcalidrawImperativeAPI, NormalizedZoomValue, SocketId } from '@excalidraw/excalidraw/types';
+import { CursorData, WireElements } from '@/types';
+import { useSocket } from '@/hooks/useSocket';
+import { getViewportBounds, type ViewportCoordinates } from '@/lib/deepLinkUtils';
+import { decodeElements } from '@/lib/sceneCodec';
+import { fadeElements } from '@/lib/strokeDecay';
+import '@excalidraw/excalidraw/index.css';
+
+import styles from './EmbedCanvas.module.css';
+
+// Dynamically import Excalidraw as it's client-side only
+const Excalidraw = dynamic(
+    () => import('@excalidraw/excalidraw').then((mod) => mod.Excalidraw),
+    { ssr: false }
+);
+
+interface EmbedCanvasProps {
+    room: string;
+    viewport: ViewportCoordinates | null; // Fixed view, or fit the drawing when null
+    transparent: boolean;
+    showCursors: boolean;
+    follow: boolean; // Pan to wherever people are drawing
+}
+
+// How often auto-follow may move the view, so bursts of strokes don't make it jitter
+const FOLLOW_INTERVAL_MS = 2000;
+// How often aging strokes are re-faded, as on the main canvas
+const FADE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Read-only live view for /embed. Listens to the room like the main canvas
+ * but only ever sends scene:request-sync and viewport:update — never
+ * scene:update or cursor:move — so it can sit in a stream overlay or iframe.
+ */
+export default function EmbedCanvas({ room, viewport, transparent, showCursors, follow }: EmbedCanvasProps) {
+    // A fixed view only needs what's in it; fitting or following needs the whole canvas
+    const streamedViewport = viewport && !follow ? viewport : null;
+    const { socket } = useSocket({ room, viewport: streamedViewport });
+
+    const [excalidrawAPI, setExcalidrawAPI] = useState<ExcalidrawImperativeAPI | null>(null);
+    const excalidrawAPIRef = useRef<ExcalidrawImperativeAPI | null>(null);
+    useEffect(() => {
+        excalidrawAPIRef.current = excalidrawAPI;
+    }, [excalidrawAPI]);
+
+    // Latest copy of every element we've been sent, by id
+    const sceneRef = useRef(new Map<string, ExcalidrawElement>());
+    const collaboratorsRef = useRef(new Map<SocketId, Collaborator>());
+    // Elements drawn since auto-follow last moved the view
+    const followTargetsRef = useRef<ExcalidrawElement[]>([]);
+    // Without a fixed viewport, frame the drawing once it first arrives
+    const needsFitRef = useRef(viewport === null);
+
+    // Push elements and cursors to Excalidraw at most once per frame
+    const renderRafIdRef = useRef(0);
+    const scheduleRender = useCallback(() => {
+        if (renderRafIdRef.current) return;
+        renderRafIdRef.current = requestAnimationFrame(() => {
+            renderRafIdRef.current = 0;
+            const api = excalidrawAPIRef.current;
+            if (!api) return;
+
+            const elements = fadeElements(Array.from(sceneRef.current.values()), Date.now());
+            api.updateScene({ elements, collaborators: new Map(collaboratorsRef.current) });
+
+            const visible = elements.filter(el => !el.isDeleted);
+            if (needsFitRef.current && visible.length > 0) {
+                needsFitRef.current = false;
+                api.scrollToContent(visible, { fitToContent: true });
+            }
+        });
+    }, []);
+
+    // Render whatever arrived before the API was ready
+    useEffect(() => {
+        if (excalidrawAPI) scheduleRender();
+    }, [excalidrawAPI, scheduleRender]);
+
+    useEffect(() => {
+        return () => cancelAnimationFrame(renderRafIdRef.current);
+    }, []);
+
+    useEffect(() => {
+        const timer = setInterval(scheduleRender, FADE_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [scheduleRender]);
+
+    useEffect(() => {
+        if (!socket) return;
+
+        const onSceneInit = (data: { elements: WireElements }) => {
+            const elements = decodeElements(data.elements);
+            console.log('[Embed] Scene init/sync received:', elements.length, 'elements');
+            sceneRef.current = new Map(elements.map(el => [el.id, el]));
+            followTargetsRef.current = [];
+            scheduleRender();
+        };
+
+        // Keep only elements newer than our copy; returns the ones that changed
+        const mergeElements = (elements: readonly ExcalidrawElement[]): ExcalidrawElement[] => {
+            const newer = elements.filter(el => el.version > (sceneRef.current.get(el.id)?.version ?? 0));
+            if (newer.length === 0) return newer;
+            newer.forEach(el => sceneRef.current.set(el.id, el));
+            scheduleRender();
+            return newer;
+        };
+
+        const onSceneUpdate = (data: { elements: WireElements }) => {
+            const changed = mergeElements(decodeElements(data.elements));
+            if (follow) {
+                followTargetsRef.current.push(...changed.filter(el => !el.isDeleted));
+            }
+        };
+
+        // Missed deltas and elements scrolled into view — not new activity
+        const onSceneBackfill = (data: { elements: WireElements }) => {
+            mergeElements(decodeElements(data.elements));
+        };
+
+        const onCursorUpdate = (cursor: CursorData) => {
+            collaboratorsRef.current.set(cursor.userId as SocketId, {
+                pointer: { x: cursor.x, y: cursor.y, tool: 'pointer' },
+                username: cursor.userName || 'User',
+                color: { background: cursor.color, stroke: cursor.color },
+            });
+            scheduleRender();
+        };
+
+        const onCursorRemove = (userId: string) => {
+            collaboratorsRef.current.delete(userId as SocketId);
+            scheduleRender();
+        };
+
+        socket.on('scene:init', onSceneInit);
+        socket.on('scene:sync', onSceneInit);
+        socket.on('scene:update', onSceneUpdate);
+        socket.on('scene:catchup', onSceneBackfill);
+        socket.on('scene:region', onSceneBackfill);
+        if (showCursors) {
+            socket.on('cursor:update', onCursorUpdate);
+            socket.on('cursor:remove', onCursorRemove);
+        }
+
+        // Request initial state AFTER listeners are registered to avoid race condition
+        socket.emit('scene:request-sync');
+
+        return () => {
+            socket.off('scene:init', onSceneInit);
+            socket.off('scene:sync', onSceneInit);
+            socket.off('scene:update', onSceneUpdate);
+            socket.off('scene:catchup', onSceneBackfill);
+            socket.off('scene:region', onSceneBackfill);
+            socket.off('cursor:update', onCursorUpdate);
+            socket.off('cursor:remove', onCursorRemove);
+        };
+    }, [socket, showCursors, follow, scheduleRender]);
+
+    // Auto-follow: glide to the latest strokes every few seconds
+    useEffect(() => {
+        if (!follow) return;
+        const timer = setInterval(() => {
+            const api = excalidrawAPIRef.current;
+            const targets = followTargetsRef.current;
+            if (!api || targets.length === 0) return;
+            followTargetsRef.current = [];
+            api.scrollToContent(targets, { animate: true, duration: 600 });
+        }, FOLLOW_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [follow]);
+
+    // Overlays need the page itself to be see-through, not just the canvas
+    useEffect(() => {
+        if (!transparent) return;
+        const previous = document.body.style.background;
+        document.body.style.background = 'transparent';
+        return () => {
+            document.body.style.background = previous;
+        };
+    }, [transparent]);
+
+    // A fixed view that gets panned reports where it is, so the server streams what's there (throttled)
+    const viewportReportTimerRef = useRef<NodeJS.Timeout | null>(null);
+    const pendingViewportRef = useRef<ViewportCoordinates | null>(null);
+    const onScrollChange = useCallback((scrollX: number, scrollY: number, zoom: { value: number }) => {
+        if (!streamedViewport) return;
+        pendingViewportRef.current = { scrollX, scrollY, zoom: zoom.value };
+        if (viewportReportTimerRef.current) return;
+
+        viewportReportTimerRef.current = setTimeout(() => {
+            viewportReportTimerRef.current = null;
+            const latest = pendingViewportRef.current;
+            if (latest && socket?.connected) {
+                socket.emit('viewport:update', getViewportBounds(latest, window.innerWidth, window.innerHeight));
+            }
+        }, 200);
+    }, [socket, streamedViewport]);
+
+    useEffect(() => {
+        return () => {
+            if (viewportReportTimerRef.current) clearTimeout(viewportReportTimerRef.current);
+        };
+    }, []);
+
+    return (
+        <div className={`${styles.embedWrapper} ${transparent ? styles.transparent : ''}`}>
+            <Excalidraw
+                excalidrawAPI={(api) => setExcalidrawAPI(api)}
+                initialData={{
+                    elements: [],
+                    appState: {
+                        viewBackgroundColor: transparent ? 'transparent' : '#ffffff',
+                        ...(viewport ? {
+                            scrollX: viewport.scrollX,
+                            scrollY: viewport.scrollY,
+                            zoom: { value: viewport.zoom as NormalizedZoomValue },
+                        } : {}),
+                    }
+                }}
+                onScrollChange={onScrollChange}
+                viewModeEnabled={true}
+                zenModeEnabled={true}
+                gridModeEnabled={false}
+                theme="light"
+                name="Drawny Live"
+                UIOptions={{
+                    canvasActions: {
+                        changeViewBackgroundColor: false,
+                        clearCanvas: false,
+                        export: false,
+                        loadScene: false,
+                        saveToActiveFile: false,
+                        toggleTheme: false,
+                        saveAsImage: false,
+                    },
+                }}
+            />
+        </div>
+    );
+}
@@ -5,10 +5,12 @@ import dynamic from 'next/dynamic';
 import { Socket } from 'socket.io-client';
 import type { ExcalidrawElement } from '@excalidraw/excalidraw/element/types';
 import type { AppState, BinaryFiles } from '@excalidraw/excalidraw/types';
-import { ToolType, BrushSize, SimpleColor, ServerToClientEvents, ClientToServerEvents } from '@/types';
-import { InkManager } from '@/lib/InkManager';
+import { ToolType, BrushSize, SimpleColor, ServerToClientEvents, ClientToServerEvents, FollowView, FollowViewData, SceneRejectedData, WireElements } from '@/types';
+import { InkManager, calculateElementLength } from '@/lib/InkManager';
 import { StreakManager } from '@/lib/StreakManager';
-import { parseViewport, buildHash, type ViewportCoordinates } from '@/lib/deepLinkUtils';
+import { parseViewport, buildHash, getViewportAround, getViewportBounds, getViewportCenter, type ViewportCoordinates } from '@/lib/deepLinkUtils';
+import { decodeElements, encodeElements } from '@/lib/sceneCodec';
+import { fadeElements, getStrokeTimes, type StrokeTimes } from '@/lib/strokeDecay';
 import '@excalidraw/excalidraw/index.css';
 
 import styles from './ExcalidrawCanvas.module.css';
@@ -19,35 +21,29 @@ const Excalidraw = dynamic(
     { ssr: false }
 );
 
+// How often aging strokes are re-faded
+const FADE_INTERVAL_MS = 30 * 1000;
+
+// Share of the remaining distance to a followed view covered each frame
+const FOLLOW_EASING = 0.2;
+// How often our own view goes out while someone follows us
+const FOLLOW_VIEW_INTERVAL_MS = 100;
+
 /** Function type for snapshot capture, returns blob URL */
 export type CaptureSnapshotFn = () => Promise<string | null>;
 
+/** Converts a screen point to scene coordinates, null before the canvas is ready */
+export type ToScenePointFn = (clientX: number, clientY: number) => { x: number; y: number } | null;
+
+/** Converts a scene point to screen coordinates, null before the canvas is ready */
+export type ToScreenPointFn = (x: number, y: number) => { x: number; y: number } | null;
+
 /** Undo/redo actions exposed via ref */
 export interface HistoryActions {
     undo: () => void;
     redo: () => void;
 }
 
-// Pure function — no component state/props needed, so defined outside to avoid
-// re-creation on every render and to keep it out of useCallback dependency lists.
-function calculateElementLength(element: ExcalidrawElement): number {
-    if (element.type === 'freedraw' || element.type === 'line' || element.type === 'arrow') {
-        const points = (element as any).points || [];
-        let length = 0;
-        for (let i = 1; i < points.length; i++) {
-            const dx = points[i][0] - points[i - 1][0];
-            const dy = points[i][1] - points[i - 1][1];
-            length += Math.sqrt(dx * dx + dy * dy);
-        }
-        return length;
-    } else if (element.type === 'rectangle' || element.type === 'diamond' || element.type === 'ellipse') {
-        const width = element.width || 0;
-        const height = element.height || 0;
-        return 2 * (width + height);
-    }
-    return 0;
-}
-
 interface ExcalidrawCanvasProps {
     activeTool: ToolType;
     activeColor: string;
@@ -58,6 +54,12 @@ interface ExcalidrawCanvasProps {
     onViewportChange?: (viewport: ViewportCoordinates) => void;
     snapshotRef?: MutableRefObject<CaptureSnapshotFn | null>;
     historyRef?: MutableRefObject<HistoryActions | null>;
+    scenePointRef?: MutableRefObject<ToScenePointFn | null>;
+    screenPointRef?: MutableRefObject<ToScreenPointFn | null>;
+    isFrozen?: boolean; // A host paused drawing — view only until unfrozen
+    followUserId?: string | null; // Device whose view we follow
+    onFollowEnd?: () => void; // We panned or zoomed ourselves while following
+    followerCount?: number; // People following our view; we send it while above 0
 }
 
 export default function ExcalidrawCanvas({
@@ -69,7 +71,13 @@ export default function ExcalidrawCanvas({
     streakManager,
     onViewportChange,
     snapshotRef,
-    historyRef
+    historyRef,
+    scenePointRef,
+    screenPointRef,
+    isFrozen = false,
+    followUserId = null,
+    onFollowEnd,
+    followerCount = 0
 }: ExcalidrawCanvasProps) {
     const [excalidrawAPI, setExcalidrawAPI] = useState<any>(null);
     // Ref to access API in socket handlers without stale closures
@@ -185,49 +193,64 @@ export default function ExcalidrawCanvas({
             if (historyRef) historyRef.current = null;
         };
     }, [historyRef, excalidrawAPI]);
-    // Track versions of elements to avoid sending unchanged data
-    const latestVersionMap = useRef<Map<string, number>>(new Map());
-
-    // Pending sync data for race conditions
-    const pendingSync = useRef<readonly ExcalidrawElement[] | null>(null);
 
-    // Flag to prevent other effects from interfering with initial load
-    const hasInitialized = useRef(false);
+    // Expose screen → scene conversion via ref (moderation region selection)
+    useEffect(() => {
+        if (!scenePointRef) return;
 
-    // Collaborators managed via ref + rAF to avoid re-rendering the entire component
-    // on every cursor:update event (which fires 30+ times/sec per remote user).
-    const collaboratorsRef = useRef<Map<string, { pointer: { x: number; y: number }; username?: string; color?: string }>>(new Map());
-    const collaboratorsDirtyRef = useRef(false);
-    const collaboratorRafIdRef = useRef(0);
-
-    // Flush collaborators to Excalidraw via requestAnimationFrame (batched)
-    const flushCollaborators = useCallback(() => {
-        if (collaboratorsDirtyRef.current) return; // already scheduled
-        collaboratorsDirtyRef.current = true;
-        collaboratorRafIdRef.current = requestAnimationFrame(() => {
-            collaboratorsDirtyRef.current = false;
+        scenePointRef.current = (clientX: number, clientY: number) => {
             const api = excalidrawAPIRef.current;
-            if (api) {
-                api.updateScene({ collaborators: new Map(collaboratorsRef.current) as any });
-            }
-        });
-    }, []);
+            if (!api) return null;
+            const { scrollX, scrollY, zoom, offsetLeft, offsetTop } = api.getAppState();
+            return {
+                x: (clientX - offsetLeft) / zoom.value - scrollX,
+                y: (clientY - offsetTop) / zoom.value - scrollY,
+            };
+        };
 
-    // Sync collaborators when API first becomes available
-    useEffect(() => {
-        if (!excalidrawAPI) return;
-        if (collaboratorsRef.current.size > 0) {
-            excalidrawAPI.updateScene({ collaborators: new Map(collaboratorsRef.current) as any });
-        }
-    }, [excalidrawAPI]);
+        return () => {
+            if (scenePointRef) scenePointRef.current = null;
+        };
+    }, [scenePointRef]);
 
-    // Clean up rAF on unmount
+    // And back (reactions and pins anchored to the scene)
     useEffect(() => {
+        if (!screenPointRef) return;
+
+        screenPointRef.current = (x: number, y: number) => {
+            const api = excalidrawAPIRef.current;
+            if (!api) return null;
+            const { scrollX, scrollY, zoom, offsetLeft, offsetTop } = api.getAppState();
+            return {
+                x: (x + scrollX) * zoom.value + offsetLeft,
+                y: (y + scrollY) * zoom.value + offsetTop,
+            };
+        };
+
         return () => {
-            cancelAnimationFrame(collaboratorRafIdRef.current);
+            if (screenPointRef) screenPointRef.current = null;
         };
+    }, [screenPointRef]);
+    // Track versions of elements to avoid sending unchanged data
+    const latestVersionMap = useRef<Map<string, number>>(new Map());
+
+    // Fading strokes: the server never echoes our own strokes back, so time
+    // those from when we drew them (see strokeDecay)
+    const strokeLifetimeRef = useRef<number | null>(null);
+    const localStrokeTimesRef = useRef<Map<string, StrokeTimes>>(new Map());
+    const getTimes = useCallback((el: ExcalidrawElement): StrokeTimes | null => {
+        const stamped = getStrokeTimes(el);
+        const local = localStrokeTimesRef.current.get(el.id);
+        if (!local) return stamped;
+        return stamped && stamped.drawnAt > local.drawnAt ? stamped : local;
     }, []);
 
+    // Pending sync data for race conditions
+    const pendingSync = useRef<readonly ExcalidrawElement[] | null>(null);
+
+    // Flag to prevent other effects from interfering with initial load
+    const hasInitialized = useRef(false);
+
     // Viewport coordinates for deep linking
     const updateURLDebounceRef = useRef<NodeJS.Timeout | null>(null);
     const onViewportChangeRef = useRef(onViewportChange);
@@ -335,7 +358,7 @@ export default function ExcalidrawCanvas({
         }, 100);
 
         return () => clearTimeout(timeoutId);
-    }, [excalidrawAPI, activeTool]);
+    }, [excalidrawAPI, activeTool, isFrozen]); // Re-applied when a freeze lifts
 
     // Set initial viewport from URL hash - must be done after API is ready
     const hasSetInitialViewport = useRef(false);
@@ -371,13 +394,16 @@ export default function ExcalidrawCanvas({
         console.log('[Socket] Setting up socket listeners. Socket ID:', socket.id);
 
         // Initial sync handler - Use state to trigger remount with correct data
-        const onSceneInit = (data: { elements: readonly ExcalidrawElement[] } | readonly ExcalidrawElement[]) => {
+        const onSceneInit = (data: { elements: WireElements; strokeLifetimeMs?: number | null } | readonly ExcalidrawElement[]) => {
             let elements: readonly ExcalidrawElement[];
 
             if (Array.isArray(data)) {
                 elements = data;
             } else if ('elements' in data) {
-                elements = data.elements;
+                elements = decodeElements(data.elements);
+                if (data.strokeLifetimeMs !== undefined) {
+                    strokeLifetimeRef.current = data.strokeLifetimeMs; // Only scene:init carries it
+                }
             } else {
                 console.error('[Excalidraw] Invalid scene data received');
                 return;
@@ -395,11 +421,12 @@ export default function ExcalidrawCanvas({
             });
 
             // Set initial elements and force Excalidraw remount
-            setInitialElements([...elements] as ExcalidrawElement[]);
+            localStrokeTimesRef.current.clear();
+            setInitialElements(fadeElements(elements, Date.now(), getTimes));
             setExcalidrawKey(prev => prev + 1);
         };
 
-        const onSceneUpdate = (data: { userId: string, elements: readonly ExcalidrawElement[] }) => {
+        const mergeRemoteElements = (data: { userId: string, elements: readonly ExcalidrawElement[] }) => {
             // Ignore updates from self
             if (data.userId === socket.id) return;
 
@@ -431,7 +458,7 @@ export default function ExcalidrawCanvas({
                     currentSceneElements.forEach((el: ExcalidrawElement) => mergedElementsMap.set(el.id, el));
                     newerElements.forEach((el: ExcalidrawElement) => mergedElementsMap.set(el.id, el));
 
-                    api.updateScene({ elements: Array.from(mergedElementsMap.values()) });
+                    api.updateScene({ elements: fadeElements(Array.from(mergedElementsMap.values()), Date.now(), getTimes) });
 
                     // Reset flag after a very short delay
                     setTimeout(() => {
@@ -441,29 +468,70 @@ export default function ExcalidrawCanvas({
             }
         };
 
-        socket.on('scene:init', onSceneInit);
-        socket.on('scene:sync', onSceneInit);
-        socket.on('scene:update', onSceneUpdate);
+        const onSceneUpdate = (data: { userId: string, elements: WireElements }) => {
+            mergeRemoteElements({ userId: data.userId, elements: decodeElements(data.elements) });
+        };
 
-        // Cursor handlers — update ref directly, flush via rAF (no React state updates)
-        const onCursorUpdate = (cursor: { userId: string; x: number; y: number; color: string; userName?: string }) => {
-            if (cursor.userId === socket.id) return;
+        // Deltas missed while disconnected — merged exactly like live updates
+        const onSceneCatchup = (data: { elements: WireElements }) => {
+            const elements = decodeElements(data.elements);
+            console.log('[Excalidraw] Catching up with', elements.length, 'missed elements');
+            mergeRemoteElements({ userId: '', elements });
+        };
 
-            collaboratorsRef.current.set(cursor.userId, {
-                pointer: { x: cursor.x, y: cursor.y },
-                username: cursor.userName || 'User',
-                color: cursor.color
-            });
-            flushCollaborators();
+        // Elements that scrolled into view, which the server hadn't streamed to us yet
+        const onSceneRegion = (data: { elements: WireElements }) => {
+            mergeRemoteElements({ userId: '', elements: decodeElements(data.elements) });
         };
 
-        const onCursorRemove = (userId: string) => {
-            collaboratorsRef.current.delete(userId);
-            flushCollaborators();
+        // Server refused some of our elements (stale version or out of ink):
+        // roll them back to the server's copy, or drop them if it has none
+        const onSceneRejected = (data: SceneRejectedData) => {
+            const api = excalidrawAPIRef.current;
+            if (!api) return;
+
+            console.warn('[Excalidraw] Server rejected', data.rejections.length, 'elements');
+            const rejectedIds = new Set(data.rejections.map(r => r.id));
+            const serverCopies = new Map<string, ExcalidrawElement>(data.elements.map(el => [el.id, el]));
+
+            rejectedIds.forEach(id => {
+                const serverCopy = serverCopies.get(id);
+                if (serverCopy) {
+                    latestVersionMap.current.set(id, serverCopy.version);
+                    elementLengthMap.current.set(id, calculateElementLength(serverCopy));
+                } else {
+                    latestVersionMap.current.delete(id);
+                    elementLengthMap.current.delete(id);
+                }
+            });
+
+            const nextElements: ExcalidrawElement[] = [];
+            api.getSceneElements().forEach((el: ExcalidrawElement) => {
+                if (!rejectedIds.has(el.id)) {
+                    nextElements.push(el);
+                    return;
+                }
+                const serverCopy = serverCopies.get(el.id);
+                if (serverCopy) nextElements.push(serverCopy);
+                serverCopies.delete(el.id);
+            });
+            // Server copies of elements we had already removed locally
+            serverCopies.forEach(el => nextElements.push(el));
+
+            isRemoteUpdate.current = true;
+            api.updateScene({ elements: nextElements });
+            lastValidElements.current = nextElements;
+            setTimeout(() => {
+                isRemoteUpdate.current = false;
+            }, 10);
         };
 
-        socket.on('cursor:update', onCursorUpdate);
-        socket.on('cursor:remove', onCursorRemove);
+        socket.on('scene:init', onSceneInit);
+        socket.on('scene:sync', onSceneInit);
+        socket.on('scene:rejected', onSceneRejected);
+        socket.on('scene:update', onSceneUpdate);
+        socket.on('scene:catchup', onSceneCatchup);
+        socket.on('scene:region', onSceneRegion);
 
         // Request initial state AFTER listeners are registered to avoid race condition
         socket.emit('scene:request-sync');
@@ -472,32 +540,37 @@ export default function ExcalidrawCanvas({
             socket.off('scene:init', onSceneInit);
             socket.off('scene:sync', onSceneInit);
             socket.off('scene:update', onSceneUpdate);
-            socket.off('cursor:update', onCursorUpdate);
-            socket.off('cursor:remove', onCursorRemove);
+            socket.off('scene:catchup', onSceneCatchup);
+            socket.off('scene:region', onSceneRegion);
+            socket.off('scene:rejected', onSceneRejected);
         };
-    }, [socket, flushCollaborators]);
-
-    // Random Name Generator
-    const [userName] = useState(() => {
-        const adjectives = ['Happy', 'Creative', 'Swift', 'Bold', 'Mighty', 'Jolly', 'Zany', 'Witty', 'Calm', 'Eager', 'Neon', 'Cosmic'];
-        const animals = ['Panda', 'Fox', 'Tiger', 'Artist', 'Doodler', 'Scribbler', 'Painter', 'Brush', 'Pencil', 'Marker', 'Badger', 'Falcon'];
-        const adj = adjectives[Math.floor(Math.random() * adjectives.length)];
-        const noun = animals[Math.floor(Math.random() * animals.length)];
-        return `${adj} ${noun}`;
-    });
+    }, [socket, getTimes]);
+
+    // Fade strokes as they age, and drop the ones that are gone. Only opacity
+    // changes, not versions, so none of this is sent back to the server.
+    useEffect(() => {
+        if (!excalidrawAPI) return;
+        const timer = setInterval(() => {
+            const current: readonly ExcalidrawElement[] = excalidrawAPI.getSceneElements();
+            const faded = fadeElements(current, Date.now(), getTimes);
+            if (faded.length === current.length && faded.every((el, i) => el === current[i])) return;
+
+            isRemoteUpdate.current = true;
+            excalidrawAPI.updateScene({ elements: faded });
+            setTimeout(() => {
+                isRemoteUpdate.current = false;
+            }, 10);
+        }, FADE_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [excalidrawAPI, getTimes]);
 
     // Handle local pointer updates — memoized to avoid giving Excalidraw a new
     // function reference on every render (which could trigger internal work).
     const onPointerUpdate = useCallback((payload: { pointer: { x: number; y: number }; button: 'down' | 'up'; pointersMap: Map<number, Readonly<{ x: number; y: number }>> }) => {
         if (!socket) return;
-        socket.emit('cursor:move', {
-            userId: socket.id || 'unknown',
-            x: payload.pointer.x,
-            y: payload.pointer.y,
-            color: activeColor,
-            userName: userName
-        });
-    }, [socket, activeColor, userName]);
+        // Just the position: the server labels it with our profile
+        socket.emit('cursor:move', { x: payload.pointer.x, y: payload.pointer.y });
+    }, [socket]);
 
     // Handle local changes — memoized and sends only changed elements (not the full scene).
     const onChange = useCallback((elements: readonly ExcalidrawElement[], appState: AppState, files: BinaryFiles) => {
@@ -570,6 +643,15 @@ export default function ExcalidrawCanvas({
                 latestVersionMap.current.set(el.id, el.version);
             });
 
+            // The server stamps these now; mirror that so they fade for us too
+            const lifetime = strokeLifetimeRef.current;
+            if (lifetime !== null) {
+                const now = Date.now();
+                changedElements.forEach(el => {
+                    localStrokeTimesRef.current.set(el.id, { drawnAt: now, fadesAt: now + lifetime });
+                });
+            }
+
             // Store this as the last valid state
             lastValidElements.current = elements;
 
@@ -587,14 +669,137 @@ export default function ExcalidrawCanvas({
             // Send only changed elements — the server does upsert, so partial
             // updates are correct. This avoids sending the entire scene (potentially
             // thousands of elements) on every mouse stroke.
-            socket.emit('scene:update', changedElements);
+            socket.emit('scene:update', encodeElements(socket, changedElements));
         }
     }, [socket, inkManager, streakManager, excalidrawAPI]);
 
-    // Handle viewport changes for deep linking
+    // Report the visible area so the server streams elements near it (throttled)
+    const viewportReportTimerRef = useRef<NodeJS.Timeout | null>(null);
+    const pendingViewportRef = useRef<ViewportCoordinates | null>(null);
+    const reportViewport = useCallback((viewport: ViewportCoordinates) => {
+        pendingViewportRef.current = viewport;
+        if (viewportReportTimerRef.current) return;
+
+        viewportReportTimerRef.current = setTimeout(() => {
+            viewportReportTimerRef.current = null;
+            const latest = pendingViewportRef.current;
+            if (latest && socket?.connected) {
+                socket.emit('viewport:update', getViewportBounds(latest, window.innerWidth, window.innerHeight));
+            }
+        }, 200);
+    }, [socket]);
+
+    useEffect(() => {
+        return () => {
+            if (viewportReportTimerRef.current) clearTimeout(viewportReportTimerRef.current);
+        };
+    }, []);
+
+    // Send our view to whoever follows us (throttled, center point + zoom)
+    const followViewTimerRef = useRef<NodeJS.Timeout | null>(null);
+    const pendingFollowViewRef = useRef<ViewportCoordinates | null>(null);
+    const sendFollowView = useCallback((viewport: ViewportCoordinates) => {
+        pendingFollowViewRef.current = viewport;
+        if (followViewTimerRef.current) return;
+
+        followViewTimerRef.current = setTimeout(() => {
+            followViewTimerRef.current = null;
+            const latest = pendingFollowViewRef.current;
+            if (latest && socket?.connected) {
+                const center = getViewportCenter(latest, window.innerWidth, window.innerHeight);
+                const view: FollowView = { x: center.x, y: center.y, zoom: latest.zoom };
+                socket.emit('follow:view', view);
+            }
+        }, FOLLOW_VIEW_INTERVAL_MS);
+    }, [socket]);
+
+    useEffect(() => {
+        return () => {
+            if (followViewTimerRef.current) clearTimeout(followViewTimerRef.current);
+        };
+    }, []);
+
+    // A new follower needs to know where we are before we move
+    const followerCountRef = useRef(followerCount);
+    useEffect(() => {
+        followerCountRef.current = followerCount;
+        if (followerCount === 0 || !excalidrawAPI) return;
+        const { scrollX, scrollY, zoom } = excalidrawAPI.getAppState();
+        sendFollowView({ scrollX, scrollY, zoom: zoom.value });
+    }, [followerCount, excalidrawAPI, sendFollowView]);
+
+    // Follow mode: glide to wherever the followed user is looking. The last
+    // view we applied tells our own scrolling apart from theirs.
+    const followAppliedRef = useRef<ViewportCoordinates | null>(null);
+    const onFollowEndRef = useRef(onFollowEnd);
+    useEffect(() => {
+        onFollowEndRef.current = onFollowEnd;
+    });
+
+    useEffect(() => {
+        if (!socket || !followUserId || !excalidrawAPI) return;
+        let target: FollowView | null = null;
+        let frame = 0;
+
+        const start = excalidrawAPI.getAppState();
+        followAppliedRef.current = { scrollX: start.scrollX, scrollY: start.scrollY, zoom: start.zoom.value };
+
+        const step = () => {
+            frame = 0;
+            const current = followAppliedRef.current;
+            if (!target || !current) return;
+            const width = window.innerWidth;
+            const height = window.innerHeight;
+            const from = getViewportCenter(current, width, height);
+            const zoom = current.zoom + (target.zoom - current.zoom) * FOLLOW_EASING;
+            const x = from.x + (target.x - from.x) * FOLLOW_EASING;
+            const y = from.y + (target.y - from.y) * FOLLOW_EASING;
+            // Close enough to be invisible: land exactly and stop animating
+            const arrived = Math.abs(target.x - x) * zoom < 0.5 && Math.abs(target.y - y) * zoom < 0.5
+                && Math.abs(target.zoom - zoom) < 0.001;
+            const next = arrived
+                ? getViewportAround(target.x, target.y, target.zoom, width, height)
+                : getViewportAround(x, y, zoom, width, height);
+
+            followAppliedRef.current = next;
+            excalidrawAPI.updateScene({
+                appState: { scrollX: next.scrollX, scrollY: next.scrollY, zoom: { value: next.zoom } }
+            });
+            if (!arrived) frame = requestAnimationFrame(step);
+        };
+
+        const onFollowView = (view: FollowViewData) => {
+            if (view.userId !== followUserId) return;
+            target = view;
+            if (!frame) frame = requestAnimationFrame(step);
+        };
+
+        socket.on('follow:view', onFollowView);
+        socket.emit('follow:start', followUserId);
+        return () => {
+            socket.off('follow:view', onFollowView);
+            cancelAnimationFrame(frame);
+            followAppliedRef.current = null;
+            socket.emit('follow:stop');
+        };
+    }, [socket, followUserId, excalidrawAPI]);
+
+    // Handle viewport changes for deep linking and viewport-scoped streaming
     const onScrollChange = useCallback((scrollX: number, scrollY: number, zoom: { value: number }) => {
         updateURLHash(scrollX, scrollY, zoom.value);
-    }, [updateURLHash]);
+        reportViewport({ scrollX, scrollY, zoom: zoom.value });
+        if (followerCountRef.current > 0) {
+            sendFollowView({ scrollX, scrollY, zoom: zoom.value });
+        }
+
+        // Any scroll we didn't apply ourselves means the user took over
+        const applied = followAppliedRef.current;
+        if (applied && (Math.abs(scrollX - applied.scrollX) > 1 || Math.abs(scrollY - applied.scrollY) > 1
+            || Math.abs(zoom.value - applied.zoom) > 0.001)) {
+            followAppliedRef.current = null;
+            onFollowEndRef.current?.();
+        }
+    }, [updateURLHash, reportViewport, sendFollowView]);
 
     return (
         <div className={styles.excalidrawWrapper}>
@@ -617,7 +822,7 @@ export default function ExcalidrawCanvas({
                 onPointerUpdate={onPointerUpdate}
                 onChange={onChange}
                 onScrollChange={onScrollChange}
-                viewModeEnabled={activeTool === 'hand'}
+                viewModeEnabled={activeTool === 'hand' || isFrozen}
                 zenModeEnabled={false}
                 gridModeEnabled={false}
                 theme="light"
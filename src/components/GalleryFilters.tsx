@@ -0,0 +1,80 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { MAIN_ROOM } from '@/lib/roomUtils';
+
+interface GalleryFiltersProps {
+    room: string;
+    month: string; // YYYY-MM, or '' for all time
+    sort: string;
+    order: string;
+}
+
+const SORT_OPTIONS = [
+    { value: 'date:desc', label: 'Newest first' },
+    { value: 'date:asc', label: 'Oldest first' },
+    { value: 'stroke_count:desc', label: 'Most strokes' },
+    { value: 'artist_count:desc', label: 'Most artists' },
+];
+
+const controlStyle = {
+    padding: '8px 12px',
+    border: '1px solid rgba(0,0,0,0.1)',
+    borderRadius: '8px',
+    background: 'white',
+    color: '#1a1a2e',
+    fontFamily: 'Inter, sans-serif',
+    fontSize: '14px'
+} as const;
+
+/**
+ * Month picker and sort order for the gallery, kept in the URL so filtered
+ * views can be linked to.
+ */
+export default function GalleryFilters({ room, month, sort, order }: GalleryFiltersProps) {
+    const router = useRouter();
+
+    const navigate = (next: { month?: string; sort?: string }) => {
+        const params = new URLSearchParams();
+        if (room !== MAIN_ROOM) params.set('room', room);
+        const nextMonth = next.month ?? month;
+        const [nextSort, nextOrder] = (next.sort ?? `${sort}:${order}`).split(':');
+        if (nextMonth) params.set('month', nextMonth);
+        if (nextSort !== 'date' || nextOrder !== 'desc') {
+            params.set('sort', nextSort);
+            params.set('order', nextOrder);
+        }
+        const query = params.toString();
+        router.push(query ? `/gallery?${query}` : '/gallery');
+    };
+
+    return (
+        <div style={{ display: 'flex', gap: '12px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '24px' }}>
+            <input
+                type="month"
+                value={month}
+                onChange={(e) => navigate({ month: e.target.value })}
+                aria-label="Show canvases from month"
+                style={controlStyle}
+            />
+            {month && (
+                <button
+                    onClick={() => navigate({ month: '' })}
+                    style={{ ...controlStyle, cursor: 'pointer', color: '#666' }}
+                >
+                    All months
+                </button>
+            )}
+            <select
+                value={`${sort}:${order}`}
+                onChange={(e) => navigate({ sort: e.target.value })}
+                aria-label="Sort canvases"
+                style={controlStyle}
+            >
+                {SORT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import type { ArchiveSummary } from '@/lib/DatabaseService';
+import { getTopReactions } from '@/lib/reactions';
+
+function formatArchiveDay(date: string): string {
+    return new Date(date).toLocaleDateString(undefined, {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+    });
+}
+
+interface GalleryGridProps {
+    initialArchives: ArchiveSummary[];
+    initialCursor: string | null;
+    filters: string; // Listing query (sort, order, from, to) for /api/archives
+}
+
+/**
+ * Archive cards with infinite scroll: the first page is rendered on the
+ * server, later pages are fetched from /api/archives as the end comes into view.
+ */
+export default function GalleryGrid({ initialArchives, initialCursor, filters }: GalleryGridProps) {
+    const [archives, setArchives] = useState(initialArchives);
+    const [cursor, setCursor] = useState(initialCursor);
+    const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+    const loadingRef = useRef(false);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    const loadMore = useCallback(async () => {
+        if (!cursor || loadingRef.current) return;
+        loadingRef.current = true;
+        setStatus('loading');
+        try {
+            const params = new URLSearchParams(filters);
+            params.set('cursor', cursor);
+            const res = await fetch(`/api/archives?${params}`);
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            const page: { archives: ArchiveSummary[]; nextCursor: string | null } = await res.json();
+            setArchives(prev => [...prev, ...page.archives]);
+            setCursor(page.nextCursor);
+            setStatus('idle');
+        } catch (err) {
+            console.error('[Gallery] Failed to load more archives:', err);
+            setStatus('error');
+        } finally {
+            loadingRef.current = false;
+        }
+    }, [cursor, filters]);
+
+    // Fetch the next page shortly before the end of the grid scrolls into view
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !cursor || status === 'error') return;
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                loadMore();
+            }
+        }, { rootMargin: '600px 0px' });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [cursor, status, loadMore]);
+
+    return (
+        <>
+            <div style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
+                gap: '24px'
+            }}>
+                {archives.map(archive => (
+                    <Link key={archive.id} href={`/gallery/${archive.id}`} style={{ textDecoration: 'none' }}>
+                        <div style={{
+                            background: 'white',
+                            borderRadius: '16px',
+                            overflow: 'hidden',
+                            boxShadow: '0 4px 6px rgba(0,0,0,0.05)',
+                            transition: 'transform 0.2s',
+                            cursor: 'pointer',
+                            border: '1px solid rgba(0,0,0,0.05)'
+                        }}>
+                            <div style={{
+                                position: 'relative',
+                                height: '200px',
+                                background: 'linear-gradient(135deg, #f5f7fa 0%, #e4e8f0 100%)'
+                            }}>
+                                {/* Rendered server-side when the canvas was archived */}
+                                <Image
+                                    src={`/api/archive/${encodeURIComponent(archive.id)}/thumbnail`}
+                                    alt={`Canvas from ${new Date(archive.date).toLocaleDateString()} with ${archive.stroke_count} strokes`}
+                                    fill
+                                    unoptimized
+                                    loading="lazy"
+                                    sizes="(max-width: 680px) 100vw, 400px"
+                                    style={{ objectFit: 'cover' }}
+                                />
+                            </div>
+                            <div style={{ padding: '20px' }}>
+                                {/* Themed days are titled by their prompt, with the date underneath */}
+                                {archive.prompt ? (
+                                    <>
+                                        <h3 style={{ margin: '0 0 4px', color: '#1a1a2e', fontSize: '18px' }}>
+                                            🎯 {archive.prompt}
+                                        </h3>
+                                        <div style={{ margin: '0 0 8px', color: '#666', fontSize: '14px' }}>
+                                            {formatArchiveDay(archive.date)}
+                                        </div>
+                                    </>
+                                ) : (
+                                    <h3 style={{ margin: '0 0 8px', color: '#1a1a2e', fontSize: '18px' }}>
+                                        {formatArchiveDay(archive.date)}
+                                    </h3>
+                                )}
+                                <div style={{ display: 'flex', gap: '12px', color: '#666', fontSize: '14px' }}>
+                                    <span>🖌️ {archive.stroke_count} strokes</span>
+                                    <span>🕒 {new Date(archive.date).toLocaleTimeString()}</span>
+                                    {getTopReactions(archive.reaction_counts, 3).map(({ emoji, count }) => (
+                                        <span key={emoji}>{emoji} {count}</span>
+                                    ))}
+                                </div>
+                                {archive.artist_count > 0 && (
+                                    <div style={{ marginTop: '8px', fontSize: '13px', color: '#888', fontStyle: 'italic' }}>
+                                        This canvas was drawn by {archive.artist_count} {archive.artist_count === 1 ? 'person' : 'people'}.
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </Link>
+                ))}
+            </div>
+
+            {cursor && (
+                <div ref={sentinelRef} style={{ textAlign: 'center', padding: '32px', color: '#666' }}>
+                    {status === 'error' ? (
+                        <button
+                            onClick={loadMore}
+                            style={{
+                                padding: '10px 20px',
+                                background: '#1a1a2e',
+                                color: 'white',
+                                border: 'none',
+                                borderRadius: '8px',
+                                cursor: 'pointer',
+                                fontFamily: 'Inter, sans-serif',
+                                fontWeight: 500
+                            }}
+                        >
+                            Couldn&apos;t load more — retry
+                        </button>
+                    ) : 'Loading more canvases…'}
+                </div>
+            )}
+        </>
+    );
+}
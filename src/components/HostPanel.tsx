@@ -0,0 +1,248 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Socket } from 'socket.io-client';
+import { COLORS, RESTRICTABLE_TOOLS, CanvasHostState, ClientToServerEvents, HostResult, RestrictableTool, ServerToClientEvents } from '@/types';
+import { INK_CONFIG } from '@/lib/InkManager';
+import styles from './HostPanel.module.css';
+
+interface HostPanelProps {
+    socket: Socket<ServerToClientEvents, ClientToServerEvents> | null;
+    room: string;
+    hostState: CanvasHostState | null;
+    isHost: boolean;
+    canClaim: boolean; // Named rooms without a host can be claimed
+}
+
+// Host keys of the rooms this browser hosts, by room
+const HOST_KEYS_STORAGE_KEY = 'drawny_host_keys';
+
+function readHostKeys(): Record<string, string> {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(HOST_KEYS_STORAGE_KEY) ?? '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+function getHostKey(room: string): string | null {
+    const key = readHostKeys()[room];
+    return typeof key === 'string' ? key : null;
+}
+
+function setHostKey(room: string, key: string | null): void {
+    const keys = readHostKeys();
+    if (key) keys[room] = key;
+    else delete keys[room];
+    try {
+        localStorage.setItem(HOST_KEYS_STORAGE_KEY, JSON.stringify(keys));
+    } catch {
+        // Storage full or disabled: hosting still works until the page closes
+    }
+}
+
+// A host link (#host=<key>) hands the room to this browser; the key is taken out of the address
+function takeHostKeyFromHash(room: string): void {
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const key = params.get('host');
+    if (!key) return;
+    setHostKey(room, key);
+    params.delete('host');
+    const rest = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${rest ? `#${rest}` : ''}`);
+}
+
+const TOOL_LABELS: Record<RestrictableTool, string> = {
+    brush: '🖌️ Brush',
+    eraser: '🧽 Eraser',
+};
+
+const INK_GRANTS = [
+    { label: '+½ tank', amount: INK_CONFIG.maxInk / 2 },
+    { label: '+1 tank', amount: INK_CONFIG.maxInk },
+];
+
+const RESULT_MESSAGES: Record<HostResult['action'], string> = {
+    claim: 'You are now the host',
+    freeze: 'Drawing paused',
+    unfreeze: 'Drawing resumed',
+    clear: 'Board cleared',
+    restrict: 'Limits updated',
+    'grant-ink': 'Extra ink granted',
+    archive: 'Saved to the gallery',
+};
+
+/**
+ * Host tools for classroom/workshop canvases: pause drawing, clear the board,
+ * limit colors and tools, grant extra ink and archive on demand. Shows a
+ * claim button instead while a named room has no host.
+ *
+ * Claiming gives this browser the room's host key. It is kept per room and
+ * sent again on every connect, so the host gets the room back after a
+ * restart; the host link carries it to another device.
+ */
+export default function HostPanel({ socket, room, hostState, isHost, canClaim }: HostPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [colors, setColors] = useState<string[]>([...COLORS]);
+    const [tools, setTools] = useState<RestrictableTool[]>([...RESTRICTABLE_TOOLS]);
+    const [notice, setNotice] = useState<string | null>(null);
+    // A claim sent with a saved key, not by pressing the button
+    const reclaimingRef = useRef(false);
+
+    useEffect(() => {
+        if (canClaim) takeHostKeyFromHash(room);
+    }, [room, canClaim]);
+
+    useEffect(() => {
+        if (!socket) return;
+        const onResult = (result: HostResult) => {
+            if (result.action === 'claim') {
+                const reclaiming = reclaimingRef.current;
+                reclaimingRef.current = false;
+                if (result.hostKey) setHostKey(room, result.hostKey);
+                // A saved key that no longer works (the room was deleted or reset by an admin): forget it quietly
+                if (reclaiming && result.error) {
+                    setHostKey(room, null);
+                    return;
+                }
+            }
+            setNotice(result.error ? `Host action failed: ${result.error}` : RESULT_MESSAGES[result.action]);
+        };
+        socket.on('host:result', onResult);
+        return () => {
+            socket.off('host:result', onResult);
+        };
+    }, [socket, room]);
+
+    // Take the room back with the saved key whenever it is hosted but not by us (e.g. after a restart)
+    const hosted = hostState?.hosted ?? false;
+    useEffect(() => {
+        if (!socket || !canClaim || !hosted || isHost) return;
+        const key = getHostKey(room);
+        if (!key) return;
+        reclaimingRef.current = true;
+        socket.emit('host:claim', key);
+    }, [socket, room, canClaim, hosted, isHost]);
+
+    useEffect(() => {
+        if (!notice) return;
+        const timer = setTimeout(() => setNotice(null), 4000);
+        return () => clearTimeout(timer);
+    }, [notice]);
+
+    // Start editing from the limits currently in force
+    const open = () => {
+        setColors(hostState?.allowedColors ?? [...COLORS]);
+        setTools(hostState?.allowedTools ?? [...RESTRICTABLE_TOOLS]);
+        setIsOpen(true);
+    };
+
+    const toggleColor = (color: string) => {
+        setColors(prev => prev.includes(color) ? prev.filter(c => c !== color) : [...prev, color]);
+    };
+
+    const toggleTool = (tool: RestrictableTool) => {
+        setTools(prev => prev.includes(tool) ? prev.filter(t => t !== tool) : [...prev, tool]);
+    };
+
+    const applyLimits = () => {
+        if (!socket || colors.length === 0) return;
+        socket.emit('host:restrict', {
+            // Everything selected means no limit
+            allowedColors: colors.length === COLORS.length ? null : colors,
+            allowedTools: tools.length === RESTRICTABLE_TOOLS.length ? null : tools,
+        });
+    };
+
+    const copyHostLink = async () => {
+        const key = getHostKey(room);
+        if (!key) return;
+        try {
+            await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}#host=${encodeURIComponent(key)}`);
+            setNotice('Host link copied — anyone who opens it can host this canvas');
+        } catch {
+            setNotice('Could not copy the host link');
+        }
+    };
+
+    const clearBoard = () => {
+        if (!socket) return;
+        if (!confirm('Clear the whole board for everyone? It is not archived first.')) return;
+        socket.emit('host:clear');
+    };
+
+    if (!isHost) {
+        if (!canClaim || hostState?.hosted) return null;
+        return (
+            <>
+                <button className={styles.toggle} onClick={() => socket?.emit('host:claim', getHostKey(room) ?? undefined)}>
+                    🎓 Host this canvas
+                </button>
+                {notice && <div className={styles.notice} role="status">{notice}</div>}
+            </>
+        );
+    }
+
+    return (
+        <>
+            <button
+                className={`${styles.toggle} ${isOpen ? styles.toggleActive : ''}`}
+                onClick={() => (isOpen ? setIsOpen(false) : open())}
+                aria-pressed={isOpen}
+            >
+                🎓 {isOpen ? 'Close host tools' : 'Host tools'}
+            </button>
+
+            {isOpen && (
+                <div className={styles.panel}>
+                    <div className={styles.row}>
+                        <button onClick={() => socket?.emit('host:freeze', !hostState?.frozen)}>
+                            {hostState?.frozen ? '▶️ Resume drawing' : '⏸️ Pause drawing'}
+                        </button>
+                        <button onClick={clearBoard}>🧹 Clear board</button>
+                    </div>
+
+                    <span className={styles.label}>Colors</span>
+                    <div className={styles.swatches}>
+                        {COLORS.map(color => (
+                            <button
+                                key={color}
+                                className={`${styles.swatch} ${colors.includes(color) ? styles.swatchOn : ''}`}
+                                style={{ backgroundColor: color }}
+                                onClick={() => toggleColor(color)}
+                                aria-pressed={colors.includes(color)}
+                                aria-label={`Allow ${color}`}
+                            />
+                        ))}
+                    </div>
+
+                    <span className={styles.label}>Tools</span>
+                    <div className={styles.row}>
+                        {RESTRICTABLE_TOOLS.map(tool => (
+                            <label key={tool} className={styles.check}>
+                                <input type="checkbox" checked={tools.includes(tool)} onChange={() => toggleTool(tool)} />
+                                {TOOL_LABELS[tool]}
+                            </label>
+                        ))}
+                    </div>
+                    <button onClick={applyLimits} disabled={colors.length === 0}>Apply limits</button>
+
+                    <span className={styles.label}>Extra ink for everyone (10 min)</span>
+                    <div className={styles.row}>
+                        {INK_GRANTS.map(grant => (
+                            <button key={grant.amount} onClick={() => socket?.emit('host:grant-ink', grant.amount)}>
+                                {grant.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <button onClick={() => socket?.emit('host:archive')}>🏛️ Save to gallery now</button>
+                    {canClaim && getHostKey(room) && <button onClick={copyHostLink}>🔑 Copy host link</button>}
+                </div>
+            )}
+
+            {notice && <div className={styles.notice} role="status">{notice}</div>}
+        </>
+    );
+}
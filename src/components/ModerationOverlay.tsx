@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useEffect, useState, type MutableRefObject } from 'react';
+import { Socket } from 'socket.io-client';
+import { Bounds, ClientToServerEvents, ModerationResult, ServerToClientEvents } from '@/types';
+import type { ToScenePointFn } from './ExcalidrawCanvas';
+import styles from './ModerationOverlay.module.css';
+
+interface ModerationOverlayProps {
+    socket: Socket<ServerToClientEvents, ClientToServerEvents> | null;
+    scenePointRef: MutableRefObject<ToScenePointFn | null>;
+    canvasStartTime: number | null;
+}
+
+interface ScreenRect {
+    startX: number;
+    startY: number;
+    endX: number;
+    endY: number;
+}
+
+// How far back a region can be restored; "start of cycle" is always offered
+const ROLLBACK_OPTIONS = [
+    { label: '5 minutes ago', minutes: 5 },
+    { label: '15 minutes ago', minutes: 15 },
+    { label: '1 hour ago', minutes: 60 },
+    { label: '3 hours ago', minutes: 180 },
+];
+
+/**
+ * Moderator tools: drag a rectangle over the canvas, then delete everything
+ * in it or restore it to an earlier time. Only rendered for moderators.
+ */
+export default function ModerationOverlay({ socket, scenePointRef, canvasStartTime }: ModerationOverlayProps) {
+    const [isActive, setIsActive] = useState(false);
+    const [rect, setRect] = useState<ScreenRect | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [rollbackMinutes, setRollbackMinutes] = useState(ROLLBACK_OPTIONS[0].minutes);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!socket) return;
+        const onResult = (result: ModerationResult) => {
+            const verb = result.action === 'delete-region' ? 'Deleted' : 'Restored';
+            setNotice(result.error ? `Moderation failed: ${result.error}` : `${verb} ${result.affected} elements`);
+        };
+        socket.on('moderation:result', onResult);
+        return () => {
+            socket.off('moderation:result', onResult);
+        };
+    }, [socket]);
+
+    useEffect(() => {
+        if (!notice) return;
+        const timer = setTimeout(() => setNotice(null), 4000);
+        return () => clearTimeout(timer);
+    }, [notice]);
+
+    const close = () => {
+        setIsActive(false);
+        setRect(null);
+        setIsDragging(false);
+    };
+
+    // Selected rectangle in scene coordinates
+    const getSceneBounds = (): Bounds | null => {
+        const toScene = scenePointRef.current;
+        if (!rect || !toScene) return null;
+        const a = toScene(rect.startX, rect.startY);
+        const b = toScene(rect.endX, rect.endY);
+        if (!a || !b) return null;
+        return {
+            minX: Math.min(a.x, b.x),
+            minY: Math.min(a.y, b.y),
+            maxX: Math.max(a.x, b.x),
+            maxY: Math.max(a.y, b.y),
+        };
+    };
+
+    const deleteRegion = () => {
+        const bounds = getSceneBounds();
+        if (!socket || !bounds) return;
+        if (!confirm('Delete everything in this region for everyone?')) return;
+        socket.emit('moderation:delete-region', bounds);
+        close();
+    };
+
+    const rollbackRegion = () => {
+        const bounds = getSceneBounds();
+        if (!socket || !bounds) return;
+        // 0 means the start of the current cycle
+        const timestamp = rollbackMinutes === 0 && canvasStartTime
+            ? canvasStartTime
+            : Math.max(canvasStartTime ?? 0, Date.now() - rollbackMinutes * 60 * 1000);
+        socket.emit('moderation:rollback-region', { bounds, timestamp });
+        close();
+    };
+
+    const onPointerDown = (e: React.PointerEvent) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setRect({ startX: e.clientX, startY: e.clientY, endX: e.clientX, endY: e.clientY });
+        setIsDragging(true);
+    };
+
+    const onPointerMove = (e: React.PointerEvent) => {
+        if (!isDragging) return;
+        setRect(prev => prev && { ...prev, endX: e.clientX, endY: e.clientY });
+    };
+
+    const onPointerUp = () => {
+        setIsDragging(false);
+        // A click without a drag clears the selection
+        if (rect && Math.abs(rect.endX - rect.startX) < 4 && Math.abs(rect.endY - rect.startY) < 4) {
+            setRect(null);
+        }
+    };
+
+    const selection = rect && {
+        left: Math.min(rect.startX, rect.endX),
+        top: Math.min(rect.startY, rect.endY),
+        width: Math.abs(rect.endX - rect.startX),
+        height: Math.abs(rect.endY - rect.startY),
+    };
+
+    return (
+        <>
+            <button
+                className={`${styles.toggle} ${isActive ? styles.toggleActive : ''}`}
+                onClick={() => (isActive ? close() : setIsActive(true))}
+                aria-pressed={isActive}
+            >
+                🛡️ {isActive ? 'Exit moderation' : 'Moderate'}
+            </button>
+
+            {isActive && (
+                <div
+                    className={styles.surface}
+                    onPointerDown={onPointerDown}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                >
+                    {!selection && <div className={styles.hint}>Drag a rectangle over the area to moderate</div>}
+                    {selection && <div className={styles.selection} style={selection} />}
+                </div>
+            )}
+
+            {isActive && selection && !isDragging && (
+                <div
+                    className={styles.panel}
+                    style={{
+                        left: Math.min(selection.left, window.innerWidth - 240),
+                        top: Math.min(selection.top + selection.height + 8, window.innerHeight - 180)
+                    }}
+                >
+                    <button className={styles.danger} onClick={deleteRegion}>Delete all in region</button>
+                    <div className={styles.row}>
+                        <select
+                            value={rollbackMinutes}
+                            onChange={(e) => setRollbackMinutes(Number(e.target.value))}
+                            aria-label="Restore region to"
+                        >
+                            {ROLLBACK_OPTIONS.map(option => (
+                                <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                            ))}
+                            <option value={0}>Start of today&apos;s canvas</option>
+                        </select>
+                        <button onClick={rollbackRegion}>Restore</button>
+                    </div>
+                    <button className={styles.secondary} onClick={() => setRect(null)}>Cancel</button>
+                </div>
+            )}
+
+            {notice && <div className={styles.notice} role="status">{notice}</div>}
+        </>
+    );
+}
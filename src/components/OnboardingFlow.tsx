@@ -81,10 +81,11 @@ type Stage = 'idle' | 'welcome' | 'streak' | 'archive' | 'done';
 
 interface OnboardingFlowProps {
   streakState: StreakState;
-  serverStartTime: number | null;
+  nextResetAt: number | null;
+  prompt: string | null;
 }
 
-export default function OnboardingFlow({ streakState, serverStartTime }: OnboardingFlowProps) {
+export default function OnboardingFlow({ streakState, nextResetAt, prompt }: OnboardingFlowProps) {
   const [stage, setStage] = useState<Stage>('idle');
   const seenRef = useRef<OnboardingSeen>({ welcome: false, streak: false, archive: false });
   const mountTimeRef = useRef<number>(Date.now());
@@ -213,7 +214,9 @@ export default function OnboardingFlow({ streakState, serverStartTime }: Onboard
     return (
       <HintBubble
         icon="✨"
-        message="Others are drawing right now! Tap anywhere to join."
+        message={prompt
+          ? `Today's theme: ${prompt}. Others are drawing right now — tap anywhere to join.`
+          : 'Others are drawing right now! Tap anywhere to join.'}
         position="center"
         onDismiss={handleWelcomeDismiss}
       />
@@ -233,9 +236,8 @@ export default function OnboardingFlow({ streakState, serverStartTime }: Onboard
 
   if (stage === 'archive') {
     let timeText = 'soon';
-    if (serverStartTime) {
-      const resetMs = 24 * 60 * 60 * 1000;
-      const remaining = Math.max(0, resetMs - (Date.now() - serverStartTime));
+    if (nextResetAt) {
+      const remaining = Math.max(0, nextResetAt - Date.now());
       const hours = Math.floor(remaining / 3_600_000);
       const minutes = Math.floor((remaining % 3_600_000) / 60_000);
       timeText = `${hours}h ${minutes}m`;
@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState, type MutableRefObject } from 'react';
+import { Socket } from 'socket.io-client';
+import { ClientToServerEvents, CursorData, ServerToClientEvents } from '@/types';
+import type { ToScreenPointFn } from './ExcalidrawCanvas';
+import styles from './PresenceLayer.module.css';
+
+interface PresenceLayerProps {
+    socket: Socket<ServerToClientEvents, ClientToServerEvents> | null;
+    screenPointRef: MutableRefObject<ToScreenPointFn | null>;
+    followingId: string | null; // Device whose view we follow
+    onFollow: (userId: string | null) => void; // null stops following
+    followerCount: number; // People following our view
+}
+
+interface RemoteCursor {
+    data: CursorData;
+    el: HTMLElement | null;
+    transform: string;
+    offscreen: boolean;
+}
+
+// Who is on screen; only changes when someone arrives, leaves or renames
+interface Person {
+    userId: string;
+    userName: string;
+    color: string;
+}
+
+// Cursors outside the view stay pinned to its edge, this far in
+const EDGE_MARGIN = 24;
+
+/**
+ * Other people's cursors, drawn in their presence color with their name.
+ * Positions come in 30+ times a second per person, so they are kept in a ref
+ * and written straight to the DOM each frame; React only re-renders when the
+ * set of people or their labels change.
+ *
+ * Clicking a cursor follows that person's view; following ends when they
+ * leave. Also shows who we follow and how many people follow us.
+ */
+export default function PresenceLayer({ socket, screenPointRef, followingId, onFollow, followerCount }: PresenceLayerProps) {
+    const cursorsRef = useRef<Map<string, RemoteCursor>>(new Map());
+    const [people, setPeople] = useState<Person[]>([]);
+
+    const syncPeople = useCallback(() => {
+        setPeople(Array.from(cursorsRef.current.values(), ({ data }) => ({
+            userId: data.userId,
+            userName: data.userName || 'User',
+            color: data.color,
+        })));
+    }, []);
+
+    useEffect(() => {
+        if (!socket) return;
+        const cursors = cursorsRef.current;
+
+        const onCursorUpdate = (cursor: CursorData) => {
+            const existing = cursors.get(cursor.userId);
+            if (!existing) {
+                cursors.set(cursor.userId, { data: cursor, el: null, transform: '', offscreen: false });
+                syncPeople();
+                return;
+            }
+            const relabeled = existing.data.userName !== cursor.userName || existing.data.color !== cursor.color;
+            existing.data = cursor;
+            if (relabeled) syncPeople();
+        };
+
+        const onCursorRemove = (userId: string) => {
+            if (cursors.delete(userId)) syncPeople();
+        };
+
+        // Cursors come back with their next move after a reconnect
+        const onDisconnect = () => {
+            cursors.clear();
+            syncPeople();
+        };
+
+        socket.on('cursor:update', onCursorUpdate);
+        socket.on('cursor:remove', onCursorRemove);
+        socket.on('disconnect', onDisconnect);
+        return () => {
+            socket.off('cursor:update', onCursorUpdate);
+            socket.off('cursor:remove', onCursorRemove);
+            socket.off('disconnect', onDisconnect);
+        };
+    }, [socket, syncPeople]);
+
+    const hasPeople = people.length > 0;
+    useEffect(() => {
+        if (!hasPeople) return;
+        let frame = 0;
+        const place = () => {
+            const maxX = window.innerWidth - EDGE_MARGIN;
+            const maxY = window.innerHeight - EDGE_MARGIN;
+            cursorsRef.current.forEach(cursor => {
+                const point = screenPointRef.current?.(cursor.data.x, cursor.data.y);
+                if (!cursor.el || !point) return;
+                const x = Math.min(Math.max(point.x, 0), maxX);
+                const y = Math.min(Math.max(point.y, 0), maxY);
+                const transform = `translate(${x}px, ${y}px)`;
+                if (transform !== cursor.transform) {
+                    cursor.transform = transform;
+                    cursor.el.style.transform = transform;
+                }
+                const offscreen = x !== point.x || y !== point.y;
+                if (offscreen !== cursor.offscreen) {
+                    cursor.offscreen = offscreen;
+                    cursor.el.classList.toggle(styles.offscreen, offscreen);
+                }
+            });
+            frame = requestAnimationFrame(place);
+        };
+        place();
+        return () => cancelAnimationFrame(frame);
+    }, [hasPeople, screenPointRef]);
+
+    const followed = followingId ? people.find(person => person.userId === followingId) : undefined;
+
+    // Their cursor went away: they left, or we lost the connection
+    useEffect(() => {
+        if (followingId && !followed) onFollow(null);
+    }, [followingId, followed, onFollow]);
+
+    useEffect(() => {
+        if (!followingId) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onFollow(null);
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [followingId, onFollow]);
+
+    const attach = (userId: string) => (el: HTMLElement | null) => {
+        const cursor = cursorsRef.current.get(userId);
+        if (!cursor) return;
+        cursor.el = el;
+        cursor.transform = '';
+        cursor.offscreen = false;
+    };
+
+    return (
+        <>
+            <div className={styles.layer}>
+                {people.map(person => (
+                    <div
+                        key={person.userId}
+                        ref={attach(person.userId)}
+                        className={`${styles.cursor} ${person.userId === followingId ? styles.cursorFollowed : ''}`}
+                        style={{ '--cursor-color': person.color } as React.CSSProperties}
+                    >
+                        <svg width="16" height="16" viewBox="0 0 16 16" className={styles.arrow} aria-hidden="true">
+                            <path d="M1 1 L1 15 L5 11 L12 10 Z" />
+                        </svg>
+                        <button
+                            className={styles.label}
+                            onClick={() => onFollow(person.userId === followingId ? null : person.userId)}
+                            title={person.userId === followingId ? 'Stop following' : `Follow ${person.userName}`}
+                        >
+                            {person.userName}
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            {(followed || followerCount > 0) && (
+                <div className={styles.status}>
+                    {followed && (
+                        <div className={styles.following} style={{ '--cursor-color': followed.color } as React.CSSProperties} role="status">
+                            <span>👀 Following <strong>{followed.userName}</strong> · pan to stop</span>
+                            <button onClick={() => onFollow(null)} aria-label="Stop following">✕</button>
+                        </div>
+                    )}
+                    {followerCount > 0 && (
+                        <div className={styles.followedBy} role="status">
+                            👀 {followerCount === 1 ? '1 person is' : `${followerCount} people are`} following your view
+                        </div>
+                    )}
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ProfileRequest, UserProfile } from '@/types';
+import { PRESENCE_COLORS, PROFILE_LIMITS } from '@/lib/userProfile';
+import styles from './ProfilePanel.module.css';
+
+interface ProfilePanelProps {
+    profile: UserProfile | null; // As the server last confirmed it; null until connected
+    onSave: (changes: ProfileRequest) => void;
+}
+
+/**
+ * The name and color others see on your cursor. Opens from a badge showing
+ * the current profile; saving sends it to the server, which checks the name
+ * and answers with the profile it will use.
+ */
+export default function ProfilePanel({ profile, onSave }: ProfilePanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [color, setColor] = useState<string>(PRESENCE_COLORS[0]);
+
+    if (!profile) return null;
+
+    // Start editing from the profile currently in use
+    const open = () => {
+        setName(profile.name);
+        setColor(profile.color);
+        setIsOpen(true);
+    };
+
+    const save = (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        onSave({ name: trimmed, color });
+        setIsOpen(false);
+    };
+
+    return (
+        <>
+            <button
+                className={styles.badge}
+                style={{ background: profile.color }}
+                onClick={() => (isOpen ? setIsOpen(false) : open())}
+                aria-expanded={isOpen}
+                aria-label={`Your name: ${profile.name}. Change name and color`}
+                title={profile.name}
+            >
+                {profile.name.charAt(0).toUpperCase()}
+            </button>
+
+            {isOpen && (
+                <form className={styles.panel} onSubmit={save}>
+                    <label className={styles.label} htmlFor="profile-name">Your name</label>
+                    <input
+                        id="profile-name"
+                        autoFocus
+                        value={name}
+                        maxLength={PROFILE_LIMITS.maxNameLength}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Escape') setIsOpen(false);
+                        }}
+                    />
+                    <span className={styles.label}>Cursor color</span>
+                    <div className={styles.swatches}>
+                        {PRESENCE_COLORS.map(c => (
+                            <button
+                                key={c}
+                                type="button"
+                                className={`${styles.swatch} ${c === color ? styles.swatchOn : ''}`}
+                                style={{ background: c }}
+                                onClick={() => setColor(c)}
+                                aria-pressed={c === color}
+                                aria-label={`Cursor color ${c}`}
+                            />
+                        ))}
+                    </div>
+                    <div className={styles.preview}>
+                        <span className={styles.previewLabel} style={{ background: color }}>{name.trim() || profile.name}</span>
+                    </div>
+                    <button type="submit" className={styles.save} disabled={!name.trim()}>
+                        Save
+                    </button>
+                </form>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState, type MutableRefObject } from 'react';
+import { Socket } from 'socket.io-client';
+import { REACTION_EMOJIS, ClientToServerEvents, Pin, PinResult, Reaction, ReactionEmoji, ServerToClientEvents } from '@/types';
+import { REACTION_DISPLAY_MS } from '@/lib/reactions';
+import { ELEMENT_LIMITS } from '@/lib/elementValidator';
+import type { ToScenePointFn, ToScreenPointFn } from './ExcalidrawCanvas';
+import styles from './ReactionLayer.module.css';
+
+interface ReactionLayerProps {
+    socket: Socket<ServerToClientEvents, ClientToServerEvents> | null;
+    pins: Pin[];
+    scenePointRef: MutableRefObject<ToScenePointFn | null>;
+    screenPointRef: MutableRefObject<ToScreenPointFn | null>;
+    canRemoveAnyPin: boolean; // Hosts and moderators
+}
+
+// A note being written, at the scene point that was clicked
+interface PinDraft {
+    x: number;
+    y: number;
+    text: string;
+}
+
+interface Anchor {
+    el: HTMLElement;
+    x: number;
+    y: number;
+    transform: string;
+}
+
+// Most reactions kept on screen at once; older ones go first in a flood
+const MAX_VISIBLE_REACTIONS = 60;
+
+/**
+ * Emoji reactions and pinned notes on top of the canvas. Pick an emoji (or
+ * the pin) and click a spot: reactions float there for everyone looking at
+ * it, pins stay until the reset. Everything is anchored to scene
+ * coordinates and follows the canvas as it scrolls and zooms.
+ */
+export default function ReactionLayer({ socket, pins, scenePointRef, screenPointRef, canRemoveAnyPin }: ReactionLayerProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [armed, setArmed] = useState<ReactionEmoji | 'pin' | null>(null);
+    const [reactions, setReactions] = useState<Reaction[]>([]);
+    const [draft, setDraft] = useState<PinDraft | null>(null);
+    // Pins placed from this page, which we may take down again
+    const [ownPinIds, setOwnPinIds] = useState<Set<string>>(new Set());
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!socket) return;
+        const timers = new Set<NodeJS.Timeout>();
+
+        const onReaction = (reaction: Reaction) => {
+            setReactions(prev => [...prev, reaction].slice(-MAX_VISIBLE_REACTIONS));
+            const timer = setTimeout(() => {
+                timers.delete(timer);
+                setReactions(prev => prev.filter(r => r.id !== reaction.id));
+            }, REACTION_DISPLAY_MS);
+            timers.add(timer);
+        };
+
+        const onPinResult = (result: PinResult) => {
+            if (result.error) {
+                setNotice(result.error);
+            } else if (result.action === 'add' && result.pinId) {
+                const pinId = result.pinId;
+                setOwnPinIds(prev => new Set(prev).add(pinId));
+            }
+        };
+
+        socket.on('reaction:add', onReaction);
+        socket.on('pin:result', onPinResult);
+        return () => {
+            socket.off('reaction:add', onReaction);
+            socket.off('pin:result', onPinResult);
+            timers.forEach(clearTimeout);
+        };
+    }, [socket]);
+
+    useEffect(() => {
+        if (!notice) return;
+        const timer = setTimeout(() => setNotice(null), 4000);
+        return () => clearTimeout(timer);
+    }, [notice]);
+
+    // Escape puts the emoji away
+    useEffect(() => {
+        if (!armed) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setArmed(null);
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [armed]);
+
+    // Anchored elements, positioned directly (no re-render) as the canvas moves
+    const anchorsRef = useRef<Map<string, Anchor>>(new Map());
+
+    const placeAnchor = useCallback((anchor: Anchor) => {
+        const point = screenPointRef.current?.(anchor.x, anchor.y);
+        if (!point) return;
+        const transform = `translate(${point.x}px, ${point.y}px)`;
+        if (transform === anchor.transform) return;
+        anchor.transform = transform;
+        anchor.el.style.transform = transform;
+    }, [screenPointRef]);
+
+    const anchorAt = (id: string, x: number, y: number) => (el: HTMLElement | null) => {
+        if (!el) {
+            anchorsRef.current.delete(id);
+            return;
+        }
+        const anchor: Anchor = { el, x, y, transform: '' };
+        anchorsRef.current.set(id, anchor);
+        placeAnchor(anchor);
+    };
+
+    const hasAnchors = reactions.length > 0 || pins.length > 0 || draft !== null;
+    useEffect(() => {
+        if (!hasAnchors) return;
+        let frame = 0;
+        const follow = () => {
+            anchorsRef.current.forEach(placeAnchor);
+            frame = requestAnimationFrame(follow);
+        };
+        follow();
+        return () => cancelAnimationFrame(frame);
+    }, [hasAnchors, placeAnchor]);
+
+    const onSurfaceClick = (e: React.MouseEvent) => {
+        const point = scenePointRef.current?.(e.clientX, e.clientY);
+        if (!socket || !point || !armed) return;
+        if (armed === 'pin') {
+            setDraft({ x: point.x, y: point.y, text: '' });
+            setArmed(null);
+            return;
+        }
+        socket.emit('reaction:add', { emoji: armed, x: point.x, y: point.y });
+    };
+
+    const submitDraft = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (socket && draft && draft.text.trim()) {
+            socket.emit('pin:add', { text: draft.text, x: draft.x, y: draft.y });
+        }
+        setDraft(null);
+    };
+
+    const toggleArmed = (choice: ReactionEmoji | 'pin') => {
+        setDraft(null);
+        setArmed(prev => (prev === choice ? null : choice));
+    };
+
+    return (
+        <>
+            <div className={styles.anchors}>
+                {pins.map(pin => (
+                    <div key={pin.id} ref={anchorAt(pin.id, pin.x, pin.y)} className={styles.anchor}>
+                        <div className={styles.pin}>
+                            <span className={styles.pinText}>📌 {pin.text}</span>
+                            {(canRemoveAnyPin || ownPinIds.has(pin.id)) && (
+                                <button
+                                    className={styles.pinRemove}
+                                    onClick={() => socket?.emit('pin:remove', pin.id)}
+                                    aria-label="Remove note"
+                                >
+                                    ×
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                {reactions.map(reaction => (
+                    <div key={reaction.id} ref={anchorAt(reaction.id, reaction.x, reaction.y)} className={styles.anchor}>
+                        <div className={styles.reaction}>{reaction.emoji}</div>
+                    </div>
+                ))}
+            </div>
+
+            {armed && (
+                <div className={styles.surface} onClick={onSurfaceClick}>
+                    <div className={styles.hint}>
+                        {armed === 'pin' ? 'Click where the note should go' : `Click anywhere to drop ${armed}`} · Esc to stop
+                    </div>
+                </div>
+            )}
+
+            {draft && (
+                <div ref={anchorAt('draft', draft.x, draft.y)} className={`${styles.anchor} ${styles.draftAnchor}`}>
+                    <form className={styles.draft} onSubmit={submitDraft}>
+                        <input
+                            autoFocus
+                            value={draft.text}
+                            maxLength={ELEMENT_LIMITS.maxPinLength}
+                            placeholder="Leave a note…"
+                            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Escape') setDraft(null);
+                            }}
+                            aria-label="Note text"
+                        />
+                        <button type="submit">Pin</button>
+                    </form>
+                </div>
+            )}
+
+            <div className={styles.bar}>
+                {isOpen && (
+                    <div className={styles.picker}>
+                        {REACTION_EMOJIS.map(emoji => (
+                            <button
+                                key={emoji}
+                                className={`${styles.choice} ${armed === emoji ? styles.choiceActive : ''}`}
+                                onClick={() => toggleArmed(emoji)}
+                                aria-pressed={armed === emoji}
+                                aria-label={`React with ${emoji}`}
+                            >
+                                {emoji}
+                            </button>
+                        ))}
+                        <button
+                            className={`${styles.choice} ${armed === 'pin' ? styles.choiceActive : ''}`}
+                            onClick={() => toggleArmed('pin')}
+                            aria-pressed={armed === 'pin'}
+                            aria-label="Pin a note"
+                        >
+                            📌
+                        </button>
+                    </div>
+                )}
+                <button
+                    className={`${styles.toggle} ${isOpen ? styles.toggleActive : ''}`}
+                    onClick={() => {
+                        setIsOpen(open => !open);
+                        setArmed(null);
+                    }}
+                    aria-expanded={isOpen}
+                    aria-label="Reactions"
+                >
+                    {isOpen ? '✕' : '😀'}
+                </button>
+            </div>
+
+            {notice && <div className={styles.notice} role="status">{notice}</div>}
+        </>
+    );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { COLORS, BRUSH_SIZES, BrushSize, ToolType } from '@/types';
+import { COLORS, BRUSH_SIZES, BrushSize, RestrictableTool, ToolType } from '@/types';
 import styles from './Toolbar.module.css';
 
 interface ToolbarProps {
@@ -17,6 +17,10 @@ interface ToolbarProps {
     onRedo?: () => void;
     canUndo?: boolean;
     canRedo?: boolean;
+    // Set by a room host or the canvas schedule; null shows everything
+    allowedColors?: readonly string[] | null;
+    allowedTools?: readonly RestrictableTool[] | null;
+    allowedSizes?: readonly BrushSize[] | null;
 }
 
 export default function Toolbar({
@@ -32,7 +36,14 @@ export default function Toolbar({
     onRedo,
     canUndo = false,
     canRedo = false,
+    allowedColors = null,
+    allowedTools = null,
+    allowedSizes = null,
 }: ToolbarProps) {
+    const palette = allowedColors ? COLORS.filter(color => allowedColors.includes(color)) : COLORS;
+    const isToolAllowed = (tool: RestrictableTool) => !allowedTools || allowedTools.includes(tool);
+    const sizes = (Object.keys(BRUSH_SIZES) as BrushSize[]).filter(size => !allowedSizes || allowedSizes.includes(size));
+
     const [isExpanded, setIsExpanded] = useState(true);
     const [isVisible, setIsVisible] = useState(true);
     const [isMobile, setIsMobile] = useState(false);
@@ -206,22 +217,26 @@ export default function Toolbar({
                             </button>
 
                             {/* Brush */}
-                            <button
-                                className={`${styles.mBtn} ${selectedTool === 'brush' ? styles.mBtnActive : ''}`}
-                                onClick={() => { onToolChange('brush'); handleInteraction(); }}
-                                aria-label="Brush tool"
-                            >
-                                <BrushIcon />
-                            </button>
+                            {isToolAllowed('brush') && (
+                                <button
+                                    className={`${styles.mBtn} ${selectedTool === 'brush' ? styles.mBtnActive : ''}`}
+                                    onClick={() => { onToolChange('brush'); handleInteraction(); }}
+                                    aria-label="Brush tool"
+                                >
+                                    <BrushIcon />
+                                </button>
+                            )}
 
                             {/* Eraser */}
-                            <button
-                                className={`${styles.mBtn} ${selectedTool === 'eraser' ? styles.mBtnActive : ''}`}
-                                onClick={() => { onToolChange('eraser'); handleInteraction(); }}
-                                aria-label="Eraser tool"
-                            >
-                                <EraserIcon />
-                            </button>
+                            {isToolAllowed('eraser') && (
+                                <button
+                                    className={`${styles.mBtn} ${selectedTool === 'eraser' ? styles.mBtnActive : ''}`}
+                                    onClick={() => { onToolChange('eraser'); handleInteraction(); }}
+                                    aria-label="Eraser tool"
+                                >
+                                    <EraserIcon />
+                                </button>
+                            )}
 
                             {/* Divider */}
                             <div className={styles.mDivider} />
@@ -241,7 +256,7 @@ export default function Toolbar({
                                 {showColorPicker && (
                                     <div className={styles.mPopup}>
                                         <div className={styles.mColorGrid}>
-                                            {COLORS.map((color) => (
+                                            {palette.map((color) => (
                                                 <button
                                                     key={color}
                                                     className={`${styles.mColorDot} ${selectedColor === color ? styles.mColorDotActive : ''}`}
@@ -274,7 +289,7 @@ export default function Toolbar({
                                 {showSizePicker && (
                                     <div className={styles.mPopup}>
                                         <div className={styles.mSizeRow}>
-                                            {(Object.keys(BRUSH_SIZES) as BrushSize[]).map((size) => (
+                                            {sizes.map((size) => (
                                                 <button
                                                     key={size}
                                                     className={`${styles.mSizeOption} ${selectedSize === size ? styles.mSizeOptionActive : ''}`}
@@ -382,20 +397,24 @@ export default function Toolbar({
                             >
                                 <HandIcon />
                             </button>
-                            <button
-                                className={`${styles.toolButton} ${selectedTool === 'brush' ? styles.selected : ''}`}
-                                onClick={() => onToolChange('brush')}
-                                title="Brush (B)"
-                            >
-                                <BrushIcon />
-                            </button>
-                            <button
-                                className={`${styles.toolButton} ${selectedTool === 'eraser' ? styles.selected : ''}`}
-                                onClick={() => onToolChange('eraser')}
-                                title="Eraser (E)"
-                            >
-                                <EraserIcon />
-                            </button>
+                            {isToolAllowed('brush') && (
+                                <button
+                                    className={`${styles.toolButton} ${selectedTool === 'brush' ? styles.selected : ''}`}
+                                    onClick={() => onToolChange('brush')}
+                                    title="Brush (B)"
+                                >
+                                    <BrushIcon />
+                                </button>
+                            )}
+                            {isToolAllowed('eraser') && (
+                                <button
+                                    className={`${styles.toolButton} ${selectedTool === 'eraser' ? styles.selected : ''}`}
+                                    onClick={() => onToolChange('eraser')}
+                                    title="Eraser (E)"
+                                >
+                                    <EraserIcon />
+                                </button>
+                            )}
                         </div>
                     </div>
 
@@ -403,7 +422,7 @@ export default function Toolbar({
                     <div className={styles.section}>
                         <span className={styles.sectionLabel}>Color</span>
                         <div className={styles.colorPalette}>
-                            {COLORS.map((color) => (
+                            {palette.map((color) => (
                                 <button
                                     key={color}
                                     className={`${styles.colorButton} ${selectedColor === color ? styles.selected : ''}`}
@@ -419,7 +438,7 @@ export default function Toolbar({
                     <div className={styles.section}>
                         <span className={styles.sectionLabel}>Size</span>
                         <div className={styles.sizeButtons}>
-                            {(Object.keys(BRUSH_SIZES) as BrushSize[]).map((size) => (
+                            {sizes.map((size) => (
                                 <button
                                     key={size}
                                     className={`${styles.sizeButton} ${selectedSize === size ? styles.selected : ''}`}
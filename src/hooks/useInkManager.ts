@@ -1,16 +1,19 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { InkManager, InkState } from '@/lib/InkManager';
+import { Socket } from 'socket.io-client';
+import { InkManager, InkState, INK_CONFIG } from '@/lib/InkManager';
+import { ServerToClientEvents, ClientToServerEvents } from '@/types';
 
 /**
- * React hook for managing ink stamina system
+ * React hook for managing ink stamina system.
+ * When a socket is provided, the local manager follows the server's `ink:state`.
  */
-export function useInkManager() {
+export function useInkManager(socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null) {
   const inkManagerRef = useRef<InkManager | null>(null);
   const [inkState, setInkState] = useState<InkState>({
-    current: 12000,
-    max: 12000,
+    current: INK_CONFIG.maxInk,
+    max: INK_CONFIG.maxInk,
     percentage: 100,
     canDraw: true,
   });
@@ -35,6 +38,20 @@ export function useInkManager() {
     };
   }, []);
 
+  // Reconcile with the server's ledger — it has the final say on ink
+  useEffect(() => {
+    if (!socket) return;
+
+    const onInkState: ServerToClientEvents['ink:state'] = (state) => {
+      inkManagerRef.current?.reconcile(state);
+    };
+
+    socket.on('ink:state', onInkState);
+    return () => {
+      socket.off('ink:state', onInkState);
+    };
+  }, [socket]);
+
   return {
     inkState,
     inkManager: inkManagerRef.current,
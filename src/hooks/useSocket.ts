@@ -2,7 +2,14 @@
 
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { ServerToClientEvents, ClientToServerEvents, ExcalidrawElement, SceneUpdate, SceneInitData, CursorData } from '@/types';
+import { ServerToClientEvents, ClientToServerEvents, ExcalidrawElement, SceneUpdate, SceneInitData, CursorData, CursorPosition, ServerErrorData, ScenePosition, SocketHandshakeAuth, CanvasHostState, HostNotice, PaletteRule, Pin, ProfileRequest, UserProfile } from '@/types';
+import { parseViewport, getViewportBounds, type ViewportCoordinates } from '@/lib/deepLinkUtils';
+import { SUPPORTED_CODECS, decodeElements, encodeElements, setWireCodec } from '@/lib/sceneCodec';
+import { MAIN_ROOM } from '@/lib/roomUtils';
+import { getJsonCookie, setJsonCookie } from '@/lib/cookieUtils';
+
+// Display name and presence color, sent in the handshake
+const PROFILE_COOKIE = 'profile';
 
 interface Cursor {
     id: string;
@@ -10,19 +17,40 @@ interface Cursor {
     y: number;
     color: string;
     lastUpdate: number;
-    userName?: string;
+    userName: string;
 }
 
 interface UseSocketOptions {
+    room?: string; // Canvas to join, the main one by default
+    viewport?: ViewportCoordinates | null; // Initial view instead of the URL hash; null streams the whole canvas
     onSceneInit?: (data: SceneInitData) => void;
     onSceneUpdate?: (data: SceneUpdate) => void;
     onSceneSync?: (elements: readonly ExcalidrawElement[]) => void;
     onUsersCountChange?: (count: number) => void;
     onCursorUpdate?: (cursor: Cursor) => void;
     onCursorRemove?: (userId: string) => void;
+    onServerError?: (error: ServerErrorData) => void;
+    onHostNotice?: (notice: HostNotice) => void;
+}
+
+// The server only streams what's near the viewport. The canvas keeps the URL
+// hash in sync with its scroll position, so read the current one from there
+// unless the caller fixed one (null: no viewport, the server sends everything).
+function buildHandshakeAuth(room: string, position: ScenePosition | null, fixedViewport?: ViewportCoordinates | null): SocketHandshakeAuth {
+    const viewport = fixedViewport === undefined
+        ? parseViewport(window.location.hash) ?? { scrollX: 0, scrollY: 0, zoom: 1 }
+        : fixedViewport;
+    return {
+        room,
+        ...(position ? { epoch: position.epoch, lastSeq: position.seq } : {}),
+        ...(viewport ? { viewport: getViewportBounds(viewport, window.innerWidth, window.innerHeight) } : {}),
+        codecs: SUPPORTED_CODECS,
+        profile: getJsonCookie<ProfileRequest>(PROFILE_COOKIE) ?? undefined,
+    };
 }
 
 export function useSocket(options: UseSocketOptions = {}) {
+    const room = options.room ?? MAIN_ROOM;
     const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
     const [socket, setSocket] = useState<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
     const [isConnected, setIsConnected] = useState(false);
@@ -30,6 +58,13 @@ export function useSocket(options: UseSocketOptions = {}) {
     const [artistCount, setArtistCount] = useState(0);
     const [isOfflineMode, setIsOfflineMode] = useState(false);
     const [isConnecting, setIsConnecting] = useState(true);
+    const [isModerator, setIsModerator] = useState(false);
+    const [hostState, setHostState] = useState<CanvasHostState | null>(null);
+    const [isHost, setIsHost] = useState(false);
+    const [paletteRule, setPaletteRule] = useState<PaletteRule | null>(null);
+    const [pins, setPins] = useState<Pin[]>([]);
+    const [profile, setProfile] = useState<UserProfile | null>(null);
+    const [followerCount, setFollowerCount] = useState(0);
 
     // Use refs for callbacks to avoid stale closures and prevent
     // the effect from re-running (which would disconnect/reconnect the socket)
@@ -38,8 +73,13 @@ export function useSocket(options: UseSocketOptions = {}) {
         optionsRef.current = options;
     });
 
+    // Last server position we've seen — sent on reconnect so the server can
+    // reply with just the missed deltas instead of the whole scene
+    const positionRef = useRef<ScenePosition | null>(null);
+
     useEffect(() => {
-        console.log('[useSocket] Attempting socket connection...');
+        console.log('[useSocket] Attempting socket connection to room', room);
+        positionRef.current = null; // Positions belong to one room's log
 
         let fallbackTimer: NodeJS.Timeout | undefined;
 
@@ -51,6 +91,8 @@ export function useSocket(options: UseSocketOptions = {}) {
                 reconnectionDelay: 1000,
                 timeout: 10000,
                 autoConnect: true,
+                // Evaluated on every (re)connect
+                auth: (cb) => cb(buildHandshakeAuth(room, positionRef.current, optionsRef.current.viewport)),
             });
 
             socketRef.current = socketIo;
@@ -70,6 +112,9 @@ export function useSocket(options: UseSocketOptions = {}) {
                 console.log('[useSocket] Disconnected from server');
                 setIsConnected(false);
                 setIsConnecting(false);
+                setIsModerator(false); // Re-sent on reconnect if the session is still valid
+                setIsHost(false);
+                setFollowerCount(0); // Sent again on reconnect if anyone still follows
             });
 
             socketIo.on('connect_error', (error) => {
@@ -85,19 +130,43 @@ export function useSocket(options: UseSocketOptions = {}) {
                 setIsConnecting(false);
             }, 5000);
 
+            socketIo.on('session:codec', (codec) => {
+                console.log('[useSocket] Using', codec, 'codec for scene data');
+                setWireCodec(socketIo, codec);
+            });
+
             socketIo.on('scene:init', (data) => {
-                optionsRef.current.onSceneInit?.(data);
+                positionRef.current = { epoch: data.epoch, seq: data.seq };
+                if (optionsRef.current.onSceneInit) {
+                    optionsRef.current.onSceneInit({ ...data, elements: decodeElements(data.elements) });
+                }
                 if (typeof data.artistCount === 'number') {
                     setArtistCount(data.artistCount);
                 }
+                setPaletteRule(data.paletteRule ?? null);
+                setPins(data.pins ?? []);
             });
 
             socketIo.on('scene:update', (data) => {
-                optionsRef.current.onSceneUpdate?.(data);
+                if (positionRef.current && data.seq > positionRef.current.seq) {
+                    positionRef.current = { ...positionRef.current, seq: data.seq };
+                }
+                if (optionsRef.current.onSceneUpdate) {
+                    optionsRef.current.onSceneUpdate({ ...data, elements: decodeElements(data.elements) });
+                }
             });
 
-            socketIo.on('scene:sync', (elements) => {
-                optionsRef.current.onSceneSync?.(elements);
+            socketIo.on('scene:sync', (data) => {
+                positionRef.current = { epoch: data.epoch, seq: data.seq };
+                if (optionsRef.current.onSceneSync) {
+                    optionsRef.current.onSceneSync(decodeElements(data.elements));
+                }
+            });
+
+            socketIo.on('scene:catchup', (data) => {
+                positionRef.current = { epoch: data.epoch, seq: data.seq };
+                setArtistCount(data.artistCount);
+                setPins(data.pins ?? []);
             });
 
             socketIo.on('users:count', (count) => {
@@ -124,6 +193,54 @@ export function useSocket(options: UseSocketOptions = {}) {
                 optionsRef.current.onCursorRemove?.(userId);
             });
 
+            socketIo.on('moderator:status', (status) => {
+                console.log('[useSocket] Moderator tools', status ? 'enabled' : 'disabled');
+                setIsModerator(status);
+            });
+
+            socketIo.on('host:state', (state) => {
+                setHostState(state);
+            });
+
+            socketIo.on('host:status', (status) => {
+                setIsHost(status);
+            });
+
+            socketIo.on('host:notice', (notice) => {
+                optionsRef.current.onHostNotice?.(notice);
+            });
+
+            socketIo.on('palette:rule', (rule) => {
+                console.log('[useSocket] Palette rule changed:', rule?.name ?? (rule ? 'unnamed' : 'none'));
+                setPaletteRule(rule);
+            });
+
+            socketIo.on('pin:add', (pin) => {
+                setPins(prev => [...prev.filter(existing => existing.id !== pin.id), pin]);
+            });
+
+            socketIo.on('pin:remove', (pinId) => {
+                setPins(prev => prev.filter(pin => pin.id !== pinId));
+            });
+
+            // The server's copy wins: it may have cleaned up the name or picked one
+            socketIo.on('profile:set', (serverProfile) => {
+                setProfile(serverProfile);
+                const saved = getJsonCookie<ProfileRequest>(PROFILE_COOKIE);
+                if (saved?.name !== serverProfile.name || saved?.color !== serverProfile.color) {
+                    setJsonCookie(PROFILE_COOKIE, serverProfile);
+                }
+            });
+
+            socketIo.on('follow:count', (count) => {
+                setFollowerCount(count);
+            });
+
+            socketIo.on('server:error', (error) => {
+                console.warn('[useSocket] Server dropped', error.event, '-', error.code, error.message);
+                optionsRef.current.onServerError?.(error);
+            });
+
             return () => {
                 clearTimeout(fallbackTimer);
                 socketIo.disconnect();
@@ -136,20 +253,26 @@ export function useSocket(options: UseSocketOptions = {}) {
                 clearTimeout(fallbackTimer);
             };
         }
-    }, []);
+    }, [room]);
 
     const sendSceneUpdate = useCallback((elements: readonly ExcalidrawElement[]) => {
         if (socketRef.current?.connected) {
-            socketRef.current.emit('scene:update', elements);
+            socketRef.current.emit('scene:update', encodeElements(socketRef.current, elements));
         }
     }, []);
 
-    const sendCursorMove = useCallback((cursor: CursorData) => {
+    const sendCursorMove = useCallback((cursor: CursorPosition) => {
         if (socketRef.current?.connected) {
             socketRef.current.emit('cursor:move', cursor);
         }
     }, []);
 
+    const updateProfile = useCallback((changes: ProfileRequest) => {
+        if (socketRef.current?.connected) {
+            socketRef.current.emit('profile:update', changes);
+        }
+    }, []);
+
     const requestSync = useCallback(() => {
         if (socketRef.current?.connected) {
             socketRef.current.emit('scene:request-sync');
@@ -170,8 +293,16 @@ export function useSocket(options: UseSocketOptions = {}) {
         isOfflineMode,
         usersCount,
         artistCount,
+        isModerator,
+        hostState,
+        isHost,
+        paletteRule,
+        pins,
+        profile,
+        followerCount,
         sendSceneUpdate,
         sendCursorMove,
+        updateProfile,
         requestSync,
         reconnect,
     };
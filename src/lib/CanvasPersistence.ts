@@ -0,0 +1,338 @@
+import fs from 'fs';
+import path from 'path';
+import { ExcalidrawElement, Pin, ReactionCounts } from '../types';
+import { databaseService } from './DatabaseService';
+import { MAIN_ROOM } from './roomUtils';
+import { parseReactionCounts } from './reactions';
+
+/**
+ * Persistence for the live (in-progress) canvas, so a deploy or crash
+ * doesn't wipe the day's drawing or restart the reset countdown.
+ *
+ * StrokeStorage records every change as it happens and calls flush()
+ * periodically; each backend decides how to store that.
+ */
+
+export interface CanvasSnapshot {
+    elements: ExcalidrawElement[];
+    canvasStartTime: number;
+    prompt: string | null; // Theme of the cycle
+    uniqueArtists: string[];
+    pins: Pin[];
+    reactionCounts: ReactionCounts;
+    hostKeyHash: string | null; // Kept across cycles (see hostControls)
+}
+
+export interface CanvasPersistence {
+    readonly name: string;
+    load(): Promise<CanvasSnapshot | null>;
+    recordElements(elements: readonly ExcalidrawElement[]): void;
+    // Faded strokes were dropped (see strokeDecay)
+    recordRemoval(): void;
+    recordArtist(artistId: string): void;
+    // Pins or reaction counts changed
+    recordReactions(): void;
+    // The room got a host key
+    recordHostKey(): void;
+    // Start a fresh cycle — called after the canvas is archived and cleared
+    recordReset(snapshot: CanvasSnapshot): Promise<void>;
+    // Write out anything recorded since the last flush
+    flush(getSnapshot: () => CanvasSnapshot): Promise<void>;
+}
+
+/**
+ * Postgres backend: keeps one row per canvas (keyed by room) and overwrites
+ * it with a full snapshot on flush when something changed.
+ */
+class PostgresCanvasPersistence implements CanvasPersistence {
+    readonly name = 'postgres';
+    private dirty = false;
+
+    constructor(private readonly canvasId: string) {}
+
+    async load(): Promise<CanvasSnapshot | null> {
+        const row = await databaseService.getLiveCanvas(this.canvasId);
+        if (!row) return null;
+        return {
+            elements: row.elements as ExcalidrawElement[],
+            canvasStartTime: row.start_time,
+            prompt: row.prompt,
+            uniqueArtists: row.artists,
+            pins: row.pins as Pin[],
+            reactionCounts: parseReactionCounts(row.reactions),
+            hostKeyHash: row.host_key_hash,
+        };
+    }
+
+    recordElements(): void {
+        this.dirty = true;
+    }
+
+    recordRemoval(): void {
+        this.dirty = true;
+    }
+
+    recordArtist(): void {
+        this.dirty = true;
+    }
+
+    recordReactions(): void {
+        this.dirty = true;
+    }
+
+    recordHostKey(): void {
+        this.dirty = true;
+    }
+
+    async recordReset(snapshot: CanvasSnapshot): Promise<void> {
+        this.dirty = false;
+        if (!(await this.save(snapshot))) {
+            // Try again on the next flush
+            this.dirty = true;
+        }
+    }
+
+    async flush(getSnapshot: () => CanvasSnapshot): Promise<void> {
+        if (!this.dirty) return;
+        this.dirty = false;
+        const saved = await this.save(getSnapshot());
+        if (!saved) {
+            // Try again on the next flush
+            this.dirty = true;
+        }
+    }
+
+    private save(snapshot: CanvasSnapshot): Promise<boolean> {
+        return databaseService.saveLiveCanvas({
+            id: this.canvasId,
+            start_time: snapshot.canvasStartTime,
+            prompt: snapshot.prompt,
+            elements: snapshot.elements,
+            artists: snapshot.uniqueArtists,
+            pins: snapshot.pins,
+            reactions: snapshot.reactionCounts,
+            host_key_hash: snapshot.hostKeyHash,
+        });
+    }
+}
+
+type LogEntry =
+    | { type: 'start'; canvasStartTime: number; prompt?: string | null }
+    | { type: 'elements'; elements: ExcalidrawElement[] }
+    | { type: 'artist'; artistId: string }
+    | { type: 'reactions'; pins: Pin[]; reactionCounts: ReactionCounts } // Replaces the previous entry
+    | { type: 'host'; hostKeyHash: string | null }; // Survives start entries, like the room itself
+
+// Changes recorded since the last flush
+interface PendingChanges {
+    elements: Map<string, ExcalidrawElement>;
+    artists: Set<string>;
+    reactions: boolean;
+    hostKey: boolean;
+}
+
+/**
+ * Local file backend for when no database is configured.
+ * Changes are appended as JSON lines and replayed on load; the log is
+ * compacted into a single snapshot once it grows past a threshold.
+ */
+class FileCanvasPersistence implements CanvasPersistence {
+    readonly name = 'file';
+    private pendingElements: Map<string, ExcalidrawElement> = new Map();
+    private pendingArtists: Set<string> = new Set();
+    private pendingReactions = false;
+    private pendingHostKey = false;
+    // A reset failed to save, so the log still holds the previous cycle
+    private snapshotDue = false;
+    private linesSinceCompaction = 0;
+    private readonly compactAfterLines = 500;
+
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<CanvasSnapshot | null> {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.filePath, 'utf-8');
+        } catch {
+            return null; // No log yet
+        }
+
+        let canvasStartTime: number | null = null;
+        let prompt: string | null = null;
+        const elements = new Map<string, ExcalidrawElement>();
+        const artists = new Set<string>();
+        let pins: Pin[] = [];
+        let reactionCounts: ReactionCounts = {};
+        let hostKeyHash: string | null = null;
+        const lines = content.split('\n').filter(Boolean);
+
+        for (const line of lines) {
+            let entry: LogEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch {
+                // A crash mid-write can leave a truncated last line
+                console.warn('[CanvasPersistence] Skipping corrupt log line');
+                continue;
+            }
+
+            if (entry.type === 'start') {
+                canvasStartTime = entry.canvasStartTime;
+                prompt = entry.prompt ?? null;
+                elements.clear();
+                artists.clear();
+                pins = [];
+                reactionCounts = {};
+            } else if (entry.type === 'elements') {
+                entry.elements.forEach(el => elements.set(el.id, el));
+            } else if (entry.type === 'artist') {
+                artists.add(entry.artistId);
+            } else if (entry.type === 'reactions') {
+                pins = entry.pins;
+                reactionCounts = parseReactionCounts(entry.reactionCounts);
+            } else if (entry.type === 'host') {
+                hostKeyHash = entry.hostKeyHash;
+            }
+        }
+
+        this.linesSinceCompaction = lines.length;
+        if (canvasStartTime === null) return null;
+
+        return {
+            elements: Array.from(elements.values()),
+            canvasStartTime,
+            prompt,
+            uniqueArtists: Array.from(artists),
+            pins,
+            reactionCounts,
+            hostKeyHash,
+        };
+    }
+
+    recordElements(elements: readonly ExcalidrawElement[]): void {
+        // Only the latest version of each element matters between flushes
+        elements.forEach(el => this.pendingElements.set(el.id, el));
+    }
+
+    // Nothing to log: faded strokes are dropped again when the log is replayed, and left out of the next compaction
+    recordRemoval(): void {}
+
+    recordArtist(artistId: string): void {
+        this.pendingArtists.add(artistId);
+    }
+
+    recordReactions(): void {
+        this.pendingReactions = true;
+    }
+
+    recordHostKey(): void {
+        this.pendingHostKey = true;
+    }
+
+    async recordReset(snapshot: CanvasSnapshot): Promise<void> {
+        // The snapshot holds everything recorded so far
+        this.takePending();
+        try {
+            await this.writeSnapshot(snapshot);
+        } catch (err) {
+            // Without its start entry the log would still replay the old cycle: write a snapshot next flush
+            this.snapshotDue = true;
+            throw err;
+        }
+    }
+
+    async flush(getSnapshot: () => CanvasSnapshot): Promise<void> {
+        const pending = this.takePending();
+        try {
+            if (this.snapshotDue || this.linesSinceCompaction >= this.compactAfterLines) {
+                await this.writeSnapshot(getSnapshot());
+                return;
+            }
+
+            const lines: string[] = [];
+            if (pending.elements.size > 0) {
+                lines.push(JSON.stringify({ type: 'elements', elements: Array.from(pending.elements.values()) }));
+            }
+            pending.artists.forEach(artistId => lines.push(JSON.stringify({ type: 'artist', artistId })));
+            if (pending.reactions) {
+                const { pins, reactionCounts } = getSnapshot();
+                lines.push(JSON.stringify({ type: 'reactions', pins, reactionCounts }));
+            }
+            if (pending.hostKey) {
+                lines.push(JSON.stringify({ type: 'host', hostKeyHash: getSnapshot().hostKeyHash }));
+            }
+
+            if (lines.length === 0) return;
+
+            if (this.linesSinceCompaction === 0) {
+                // Log was never started (fresh install) — write a full snapshot so it has a start entry
+                await this.writeSnapshot(getSnapshot());
+                return;
+            }
+
+            await fs.promises.appendFile(this.filePath, lines.join('\n') + '\n');
+            this.linesSinceCompaction += lines.length;
+        } catch (err) {
+            // Keep the changes for the next flush rather than losing them
+            this.restorePending(pending);
+            throw err;
+        }
+    }
+
+    // Hand over what was recorded since the last flush, starting a new batch
+    private takePending(): PendingChanges {
+        const pending = {
+            elements: this.pendingElements,
+            artists: this.pendingArtists,
+            reactions: this.pendingReactions,
+            hostKey: this.pendingHostKey,
+        };
+        this.pendingElements = new Map();
+        this.pendingArtists = new Set();
+        this.pendingReactions = false;
+        this.pendingHostKey = false;
+        return pending;
+    }
+
+    // Put back a batch that failed to write; anything recorded meanwhile is newer and wins
+    private restorePending(pending: PendingChanges): void {
+        pending.elements.forEach((el, id) => {
+            if (!this.pendingElements.has(id)) this.pendingElements.set(id, el);
+        });
+        pending.artists.forEach(artistId => this.pendingArtists.add(artistId));
+        this.pendingReactions = this.pendingReactions || pending.reactions;
+        this.pendingHostKey = this.pendingHostKey || pending.hostKey;
+    }
+
+    // Replace the log with a single snapshot (write to temp file, then rename)
+    private async writeSnapshot(snapshot: CanvasSnapshot): Promise<void> {
+        const lines = [
+            JSON.stringify({ type: 'start', canvasStartTime: snapshot.canvasStartTime, prompt: snapshot.prompt }),
+            JSON.stringify({ type: 'elements', elements: snapshot.elements }),
+            ...snapshot.uniqueArtists.map(artistId => JSON.stringify({ type: 'artist', artistId })),
+            JSON.stringify({ type: 'reactions', pins: snapshot.pins, reactionCounts: snapshot.reactionCounts }),
+            JSON.stringify({ type: 'host', hostKeyHash: snapshot.hostKeyHash }),
+        ];
+
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, lines.join('\n') + '\n');
+        await fs.promises.rename(tmpPath, this.filePath);
+        this.linesSinceCompaction = lines.length;
+        this.snapshotDue = false;
+    }
+}
+
+/**
+ * Pick a backend: Postgres when DATABASE_URL is set, otherwise a local file
+ * (CANVAS_STATE_FILE, defaulting to .data/live-canvas.jsonl). Other rooms
+ * get their own file next to it.
+ */
+export function createCanvasPersistence(roomId: string = MAIN_ROOM): CanvasPersistence {
+    if (databaseService.isConfigured()) {
+        return new PostgresCanvasPersistence(roomId);
+    }
+    const mainPath = process.env.CANVAS_STATE_FILE || path.join(process.cwd(), '.data', 'live-canvas.jsonl');
+    const filePath = roomId === MAIN_ROOM ? mainPath : path.join(path.dirname(mainPath), `live-canvas-${roomId}.jsonl`);
+    return new FileCanvasPersistence(filePath);
+}
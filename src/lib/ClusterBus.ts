@@ -0,0 +1,257 @@
+import os from 'os';
+import type { PoolClient } from 'pg';
+import { CursorData, ExcalidrawElement, FollowViewData, HostNotice, Pin, Reaction, ReactionCounts } from '../types';
+import { databaseService } from './DatabaseService';
+import type { HostState } from './hostControls';
+
+/**
+ * Pub/sub between drawny server processes.
+ *
+ * Each node keeps its own Socket.io clients and a full copy of the canvas;
+ * the bus relays everything another node needs to stay in sync (accepted
+ * strokes, cursors, reactions and pins, followed views, artist ids, user and
+ * follower counts, resets),
+ * for every room.
+ *
+ * Backends:
+ * - InMemoryClusterBus: nodes in the same process share a hub (single instance, tests)
+ * - PostgresClusterBus: LISTEN/NOTIFY on the existing DATABASE_URL
+ *
+ * Select with CLUSTER_BUS=postgres (defaults to in-memory).
+ */
+
+export interface CanvasStateMessage {
+    elements: ExcalidrawElement[];
+    canvasStartTime: number;
+    prompt: string | null;
+    uniqueArtists: string[];
+    pins: Pin[];
+    reactionCounts: ReactionCounts;
+    hostKeyHash: string | null;
+}
+
+// Canvas messages name the room they belong to; presence counts clients per
+// room and, per room and device, the clients following it
+export type ClusterMessage =
+    | { type: 'scene:update'; room: string; userId: string; elements: ExcalidrawElement[] }
+    | { type: 'cursor:update'; room: string; cursor: CursorData }
+    | { type: 'cursor:remove'; room: string; userId: string }
+    | { type: 'artist'; room: string; artistId: string }
+    | { type: 'reaction:add'; room: string; reaction: Reaction }
+    | { type: 'pin:add'; room: string; pin: Pin }
+    | { type: 'pin:remove'; room: string; pinId: string }
+    | { type: 'follow:view'; room: string; view: FollowViewData }
+    | { type: 'presence'; rooms: Record<string, number>; followers?: Record<string, Record<string, number>> }
+    | { type: 'scene:reset'; room: string; canvasStartTime: number; prompt: string | null }
+    | { type: 'host:state'; room: string; state: HostState; hostKeyHash: string | null; notice: HostNotice | null }
+    | { type: 'host:notice'; room: string; notice: HostNotice }
+    | { type: 'host:grant-ink'; room: string; amount: number; notice: HostNotice }
+    | { type: 'sync:request'; room: string }
+    | { type: 'sync:state'; room: string; targetNodeId: string; state: CanvasStateMessage; host: HostState };
+
+export type ClusterMessageHandler = (message: ClusterMessage, fromNodeId: string) => void;
+
+export interface ClusterBus {
+    readonly name: string;
+    readonly nodeId: string;
+    start(): Promise<void>;
+    // Fire-and-forget; never delivered back to the publishing node
+    publish(message: ClusterMessage): void;
+    subscribe(handler: ClusterMessageHandler): () => void;
+    close(): Promise<void>;
+}
+
+export function getNodeId(): string {
+    return process.env.NODE_ID || `${os.hostname()}-${process.pid}`;
+}
+
+/**
+ * Shared in-process hub: every bus attached to the same hub sees the others' messages.
+ */
+export class InMemoryClusterHub {
+    private buses: Set<InMemoryClusterBus> = new Set();
+
+    attach(bus: InMemoryClusterBus): void {
+        this.buses.add(bus);
+    }
+
+    detach(bus: InMemoryClusterBus): void {
+        this.buses.delete(bus);
+    }
+
+    deliver(message: ClusterMessage, fromNodeId: string): void {
+        this.buses.forEach(bus => {
+            if (bus.nodeId !== fromNodeId) {
+                // Deliver asynchronously, like a real network hop
+                queueMicrotask(() => bus.receive(message, fromNodeId));
+            }
+        });
+    }
+}
+
+export class InMemoryClusterBus implements ClusterBus {
+    readonly name = 'memory';
+    private handlers: Set<ClusterMessageHandler> = new Set();
+
+    constructor(
+        readonly nodeId: string = getNodeId(),
+        private readonly hub: InMemoryClusterHub = new InMemoryClusterHub()
+    ) {}
+
+    async start(): Promise<void> {
+        this.hub.attach(this);
+    }
+
+    publish(message: ClusterMessage): void {
+        this.hub.deliver(message, this.nodeId);
+    }
+
+    subscribe(handler: ClusterMessageHandler): () => void {
+        this.handlers.add(handler);
+        return () => {
+            this.handlers.delete(handler);
+        };
+    }
+
+    receive(message: ClusterMessage, fromNodeId: string): void {
+        this.handlers.forEach(handler => handler(message, fromNodeId));
+    }
+
+    async close(): Promise<void> {
+        this.hub.detach(this);
+        this.handlers.clear();
+    }
+}
+
+interface NotifyEnvelope {
+    from: string;
+    message?: ClusterMessage;
+    ref?: number; // Row id in cluster_messages when the message was too large to inline
+}
+
+const NOTIFY_CHANNEL = 'drawny_cluster';
+// Postgres rejects NOTIFY payloads of 8000 bytes or more; keep a margin for the envelope
+const MAX_INLINE_PAYLOAD = 7000;
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Postgres LISTEN/NOTIFY backend. Holds one dedicated connection for LISTEN and
+ * publishes through the shared pool. Messages too large for NOTIFY are stored
+ * in cluster_messages and announced by id.
+ */
+export class PostgresClusterBus implements ClusterBus {
+    readonly name = 'postgres';
+    readonly nodeId = getNodeId();
+    private handlers: Set<ClusterMessageHandler> = new Set();
+    private client: PoolClient | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private closed = false;
+
+    async start(): Promise<void> {
+        const client = await databaseService.connectClient();
+        if (!client) {
+            this.scheduleReconnect();
+            return;
+        }
+
+        client.on('notification', (notification) => {
+            if (notification.channel === NOTIFY_CHANNEL && notification.payload) {
+                this.handleNotification(notification.payload).catch(err =>
+                    console.error('[ClusterBus] Failed to handle notification:', err)
+                );
+            }
+        });
+        client.on('error', (err) => {
+            console.error('[ClusterBus] LISTEN connection error:', err);
+            this.dropClient();
+            this.scheduleReconnect();
+        });
+
+        try {
+            await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+            this.client = client;
+            console.log('[ClusterBus] ✅ Listening on', NOTIFY_CHANNEL, 'as node', this.nodeId);
+        } catch (err) {
+            console.error('[ClusterBus] ❌ LISTEN failed:', err);
+            client.release(true);
+            this.scheduleReconnect();
+        }
+    }
+
+    publish(message: ClusterMessage): void {
+        this.send(message).catch(err => console.error('[ClusterBus] Failed to publish', message.type, err));
+    }
+
+    private async send(message: ClusterMessage): Promise<void> {
+        const envelope: NotifyEnvelope = { from: this.nodeId, message };
+        const inline = JSON.stringify(envelope);
+        if (Buffer.byteLength(inline) < MAX_INLINE_PAYLOAD) {
+            await databaseService.notify(NOTIFY_CHANNEL, inline);
+            return;
+        }
+
+        const ref = await databaseService.saveClusterMessage(JSON.stringify(message));
+        if (ref === null) return;
+        const pointer: NotifyEnvelope = { from: this.nodeId, ref };
+        await databaseService.notify(NOTIFY_CHANNEL, JSON.stringify(pointer));
+    }
+
+    private async handleNotification(payload: string): Promise<void> {
+        const envelope = JSON.parse(payload) as NotifyEnvelope;
+        if (envelope.from === this.nodeId) return;
+
+        let message = envelope.message;
+        if (!message && envelope.ref !== undefined) {
+            const stored = await databaseService.getClusterMessage(envelope.ref);
+            if (!stored) return;
+            message = JSON.parse(stored) as ClusterMessage;
+        }
+        if (!message) return;
+
+        const resolved = message;
+        this.handlers.forEach(handler => handler(resolved, envelope.from));
+    }
+
+    subscribe(handler: ClusterMessageHandler): () => void {
+        this.handlers.add(handler);
+        return () => {
+            this.handlers.delete(handler);
+        };
+    }
+
+    private dropClient(): void {
+        if (this.client) {
+            this.client.release(true);
+            this.client = null;
+        }
+    }
+
+    private scheduleReconnect(): void {
+        if (this.closed || this.reconnectTimer) return;
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.start().catch(err => console.error('[ClusterBus] Reconnect failed:', err));
+        }, RECONNECT_DELAY_MS);
+    }
+
+    async close(): Promise<void> {
+        this.closed = true;
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.dropClient();
+        this.handlers.clear();
+    }
+}
+
+export function isClusterEnabled(): boolean {
+    return process.env.CLUSTER_BUS === 'postgres' && databaseService.isConfigured();
+}
+
+export function createClusterBus(): ClusterBus {
+    if (isClusterEnabled()) {
+        return new PostgresClusterBus();
+    }
+    if (process.env.CLUSTER_BUS === 'postgres') {
+        console.warn('[ClusterBus] ⚠️ CLUSTER_BUS=postgres but DATABASE_URL is not set - running single-node');
+    }
+    return new InMemoryClusterBus();
+}
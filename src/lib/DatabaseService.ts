@@ -1,14 +1,86 @@
 import { Pool, PoolClient } from 'pg';
-import { Stroke } from '../types';
+import { ReactionCounts, Stroke, TimelapseData } from '../types';
+import { parseReactionCounts } from './reactions';
 
-interface ArchiveData {
+export interface ArchiveData {
     id: string;
     date: string;
     start_time: number;
     end_time: number;
     stroke_count: number;
     artist_count: number;
+    room?: string; // Canvas it was drawn on (see roomUtils), main when missing
+    prompt?: string | null; // Theme of the day, if there was one
+    reaction_counts?: ReactionCounts | null; // Emoji reactions during the cycle (archives since reactions were added)
+    pin_count?: number; // Notes still pinned at the reset
     strokes: Stroke[];
+    timelapse?: TimelapseData | null; // Change history for replay (archives since timelapses were added)
+}
+
+export type ArchiveSortField = 'date' | 'stroke_count' | 'artist_count';
+
+// Gallery listing row (no strokes)
+export interface ArchiveSummary {
+    id: string;
+    date: string;
+    stroke_count: number;
+    artist_count: number;
+    room: string;
+    prompt: string | null;
+    reaction_counts: ReactionCounts | null;
+}
+
+// Keyset position: sort value and id of the last archive on the previous page
+export interface ArchiveCursor {
+    value: string | number;
+    id: string;
+}
+
+export interface ArchiveListQuery {
+    room: string;
+    sort: ArchiveSortField;
+    order: 'asc' | 'desc';
+    from?: string; // ISO timestamp, inclusive
+    to?: string; // ISO timestamp, exclusive
+    cursor?: ArchiveCursor;
+    limit: number;
+}
+
+export interface ArchiveListResult {
+    archives: ArchiveSummary[];
+    nextCursor: ArchiveCursor | null;
+}
+
+// Sort expressions for listArchives — fixed strings, never user input
+const ARCHIVE_SORT_COLUMNS: Record<ArchiveSortField, { expression: string; type: string }> = {
+    date: { expression: 'date', type: 'timestamp' },
+    stroke_count: { expression: 'stroke_count', type: 'integer' },
+    artist_count: { expression: 'COALESCE(artist_count, 0)', type: 'integer' },
+};
+
+// Snapshot of the in-progress canvas (restored on boot)
+interface LiveCanvasData {
+    id: string;
+    start_time: number;
+    prompt: string | null;
+    elements: unknown[];
+    artists: string[];
+    pins: unknown[];
+    reactions: ReactionCounts;
+    host_key_hash: string | null;
+}
+
+// Timelapse column may come back as an object or a JSON string; anything malformed is dropped
+function parseTimelapse(raw: unknown): TimelapseData | null {
+    try {
+        const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+        if (parsed && typeof parsed === 'object' && Array.isArray((parsed as TimelapseData).frames)) {
+            return parsed as TimelapseData;
+        }
+    } catch {
+        console.warn('[DatabaseService] Failed to parse timelapse');
+    }
+    return null;
 }
 
 class DatabaseService {
@@ -81,6 +153,80 @@ class DatabaseService {
                     ALTER TABLE archives ADD COLUMN IF NOT EXISTS artist_count INTEGER DEFAULT 0;
                 `);
 
+                // Keyset pagination indexes for the other gallery sort orders
+                await client.query(`
+                    CREATE INDEX IF NOT EXISTS idx_archives_stroke_count ON archives(stroke_count DESC, id DESC);
+                `);
+                await client.query(`
+                    CREATE INDEX IF NOT EXISTS idx_archives_artist_count ON archives((COALESCE(artist_count, 0)) DESC, id DESC);
+                `);
+
+                // Timelapse log for replay (NULL for archives saved before it existed)
+                await client.query(`
+                    ALTER TABLE archives ADD COLUMN IF NOT EXISTS timelapse JSONB;
+                `);
+
+                // Room of the archive — everything before rooms existed was the main canvas
+                await client.query(`
+                    ALTER TABLE archives ADD COLUMN IF NOT EXISTS room VARCHAR(64) NOT NULL DEFAULT 'main';
+                `);
+                await client.query(`
+                    CREATE INDEX IF NOT EXISTS idx_archives_room_date ON archives(room, date DESC, id DESC);
+                `);
+
+                // Theme of the day (NULL for archives saved before prompts existed)
+                await client.query(`
+                    ALTER TABLE archives ADD COLUMN IF NOT EXISTS prompt TEXT;
+                `);
+
+                // Reaction totals and pin count (NULL/0 for archives saved before reactions existed)
+                await client.query(`
+                    ALTER TABLE archives ADD COLUMN IF NOT EXISTS reaction_counts JSONB;
+                `);
+                await client.query(`
+                    ALTER TABLE archives ADD COLUMN IF NOT EXISTS pin_count INTEGER DEFAULT 0;
+                `);
+
+                // Rendered thumbnails for the gallery and OG images
+                await client.query(`
+                    ALTER TABLE archives ADD COLUMN IF NOT EXISTS thumbnail_svg TEXT;
+                `);
+                await client.query(`
+                    ALTER TABLE archives ADD COLUMN IF NOT EXISTS thumbnail_png BYTEA;
+                `);
+
+                // Create live canvas table (current cycle, survives restarts)
+                await client.query(`
+                    CREATE TABLE IF NOT EXISTS live_canvas (
+                        id VARCHAR(255) PRIMARY KEY,
+                        start_time BIGINT NOT NULL,
+                        elements JSONB NOT NULL,
+                        artists JSONB NOT NULL,
+                        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                    );
+                `);
+                await client.query(`
+                    ALTER TABLE live_canvas ADD COLUMN IF NOT EXISTS prompt TEXT;
+                `);
+                await client.query(`
+                    ALTER TABLE live_canvas ADD COLUMN IF NOT EXISTS pins JSONB;
+                `);
+                await client.query(`
+                    ALTER TABLE live_canvas ADD COLUMN IF NOT EXISTS reactions JSONB;
+                `);
+                await client.query(`
+                    ALTER TABLE live_canvas ADD COLUMN IF NOT EXISTS host_key_hash TEXT;
+                `);
+
+                // Cluster messages too large for a NOTIFY payload (8000 byte limit)
+                await client.query(`
+                    CREATE TABLE IF NOT EXISTS cluster_messages (
+                        id BIGSERIAL PRIMARY KEY,
+                        payload TEXT NOT NULL,
+                        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                    );
+                `);
+
                 console.log('[DatabaseService] ✅ Database tables verified/created');
                 this.isInitialized = true;
             } finally {
@@ -111,15 +257,20 @@ class DatabaseService {
 
         try {
             await this.pool.query(
-                `INSERT INTO archives (id, date, start_time, end_time, stroke_count, artist_count, strokes)
-                 VALUES ($1, $2, $3, $4, $5, $6, $7)
+                `INSERT INTO archives (id, date, start_time, end_time, stroke_count, artist_count, strokes, timelapse, prompt, room, reaction_counts, pin_count)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
                  ON CONFLICT (id) DO UPDATE SET
                     date = EXCLUDED.date,
                     start_time = EXCLUDED.start_time,
                     end_time = EXCLUDED.end_time,
                     stroke_count = EXCLUDED.stroke_count,
                     artist_count = EXCLUDED.artist_count,
-                    strokes = EXCLUDED.strokes`,
+                    strokes = EXCLUDED.strokes,
+                    timelapse = EXCLUDED.timelapse,
+                    prompt = EXCLUDED.prompt,
+                    room = EXCLUDED.room,
+                    reaction_counts = EXCLUDED.reaction_counts,
+                    pin_count = EXCLUDED.pin_count`,
                 [
                     archiveData.id,
                     archiveData.date,
@@ -127,7 +278,12 @@ class DatabaseService {
                     archiveData.end_time,
                     archiveData.stroke_count,
                     archiveData.artist_count,
-                    JSON.stringify(archiveData.strokes)
+                    JSON.stringify(archiveData.strokes),
+                    archiveData.timelapse ? JSON.stringify(archiveData.timelapse) : null,
+                    archiveData.prompt ?? null,
+                    archiveData.room ?? 'main',
+                    archiveData.reaction_counts ? JSON.stringify(archiveData.reaction_counts) : null,
+                    archiveData.pin_count ?? 0
                 ]
             );
 
@@ -146,7 +302,7 @@ class DatabaseService {
 
         try {
             const result = await this.pool.query(
-                'SELECT * FROM archives WHERE id = $1',
+                'SELECT id, date, start_time, end_time, stroke_count, artist_count, room, prompt, reaction_counts, pin_count, strokes, timelapse FROM archives WHERE id = $1',
                 [id]
             );
 
@@ -179,7 +335,12 @@ class DatabaseService {
                 end_time: row.end_time,
                 stroke_count: row.stroke_count,
                 artist_count: row.artist_count ?? 0,
-                strokes
+                room: row.room,
+                prompt: row.prompt ?? null,
+                reaction_counts: row.reaction_counts ? parseReactionCounts(row.reaction_counts) : null,
+                pin_count: row.pin_count ?? 0,
+                strokes,
+                timelapse: parseTimelapse(row.timelapse)
             };
         } catch (err) {
             console.error('[DatabaseService] ❌ Failed to get archive:', err);
@@ -187,25 +348,262 @@ class DatabaseService {
         }
     }
 
-    async getAllArchives(): Promise<Array<{ id: string; date: string; stroke_count: number; artist_count: number }>> {
+    async saveArchiveThumbnail(id: string, svg: string, png: Buffer | null): Promise<boolean> {
         if (!this.pool || !(await this.ensureInitialized())) {
-            return [];
+            return false;
         }
 
         try {
             const result = await this.pool.query(
-                'SELECT id, date, stroke_count, COALESCE(artist_count, 0) as artist_count FROM archives ORDER BY date DESC'
+                'UPDATE archives SET thumbnail_svg = $2, thumbnail_png = $3 WHERE id = $1',
+                [id, svg, png]
             );
+            return (result.rowCount ?? 0) > 0;
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to save archive thumbnail:', err);
+            return false;
+        }
+    }
+
+    async getArchiveThumbnail(id: string): Promise<{ svg: string; png: Buffer | null } | null> {
+        if (!this.pool || !(await this.ensureInitialized())) {
+            return null;
+        }
 
-            return result.rows.map(row => ({
+        try {
+            const result = await this.pool.query(
+                'SELECT thumbnail_svg, thumbnail_png FROM archives WHERE id = $1 AND thumbnail_svg IS NOT NULL',
+                [id]
+            );
+            if (result.rows.length === 0) return null;
+            return { svg: result.rows[0].thumbnail_svg, png: result.rows[0].thumbnail_png ?? null };
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to get archive thumbnail:', err);
+            return null;
+        }
+    }
+
+    /**
+     * One page of archive summaries, filtered by date and ordered by `query.sort`
+     * with the id as tie-breaker so the cursor position is unambiguous.
+     */
+    async listArchives(query: ArchiveListQuery): Promise<ArchiveListResult> {
+        if (!this.pool || !(await this.ensureInitialized())) {
+            return { archives: [], nextCursor: null };
+        }
+
+        const { expression, type } = ARCHIVE_SORT_COLUMNS[query.sort];
+        const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+        const values: unknown[] = [query.room];
+        const conditions: string[] = ['room = $1'];
+
+        if (query.from) {
+            values.push(query.from);
+            conditions.push(`date >= $${values.length}::timestamp`);
+        }
+        if (query.to) {
+            values.push(query.to);
+            conditions.push(`date < $${values.length}::timestamp`);
+        }
+        if (query.cursor) {
+            values.push(query.cursor.value, query.cursor.id);
+            const comparison = query.order === 'asc' ? '>' : '<';
+            conditions.push(`(${expression}, id) ${comparison} ($${values.length - 1}::${type}, $${values.length})`);
+        }
+        // One extra row tells us whether there is a next page
+        values.push(query.limit + 1);
+
+        try {
+            const result = await this.pool.query(
+                `SELECT id, date, date::text AS date_key, stroke_count, COALESCE(artist_count, 0) AS artist_count, room, prompt, reaction_counts
+                 FROM archives
+                 WHERE ${conditions.join(' AND ')}
+                 ORDER BY ${expression} ${direction}, id ${direction}
+                 LIMIT $${values.length}`,
+                values
+            );
+
+            const rows = result.rows.slice(0, query.limit);
+            const last = rows[rows.length - 1];
+            return {
+                archives: rows.map(row => ({
+                    id: row.id,
+                    date: new Date(row.date).toISOString(),
+                    stroke_count: row.stroke_count,
+                    artist_count: row.artist_count,
+                    room: row.room,
+                    prompt: row.prompt ?? null,
+                    reaction_counts: row.reaction_counts ? parseReactionCounts(row.reaction_counts) : null
+                })),
+                // date_key is Postgres' own text form, so the cursor round-trips exactly
+                nextCursor: result.rows.length > query.limit && last
+                    ? { value: query.sort === 'date' ? last.date_key : last[query.sort], id: last.id }
+                    : null
+            };
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to list archives:', err);
+            return { archives: [], nextCursor: null };
+        }
+    }
+
+    async countArchives(): Promise<number> {
+        if (!this.pool || !(await this.ensureInitialized())) {
+            return 0;
+        }
+
+        try {
+            const result = await this.pool.query('SELECT COUNT(*)::integer AS count FROM archives');
+            return result.rows[0].count;
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to count archives:', err);
+            return 0;
+        }
+    }
+
+    async deleteArchive(id: string): Promise<boolean> {
+        if (!this.pool || !(await this.ensureInitialized())) {
+            return false;
+        }
+
+        try {
+            const result = await this.pool.query('DELETE FROM archives WHERE id = $1', [id]);
+            return (result.rowCount ?? 0) > 0;
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to delete archive:', err);
+            return false;
+        }
+    }
+
+    async saveLiveCanvas(data: LiveCanvasData): Promise<boolean> {
+        if (!this.pool || !(await this.ensureInitialized())) {
+            return false;
+        }
+
+        try {
+            await this.pool.query(
+                `INSERT INTO live_canvas (id, start_time, elements, artists, prompt, pins, reactions, host_key_hash, updated_at)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+                 ON CONFLICT (id) DO UPDATE SET
+                    start_time = EXCLUDED.start_time,
+                    prompt = EXCLUDED.prompt,
+                    elements = EXCLUDED.elements,
+                    artists = EXCLUDED.artists,
+                    pins = EXCLUDED.pins,
+                    reactions = EXCLUDED.reactions,
+                    host_key_hash = EXCLUDED.host_key_hash,
+                    updated_at = CURRENT_TIMESTAMP`,
+                [
+                    data.id,
+                    data.start_time,
+                    JSON.stringify(data.elements),
+                    JSON.stringify(data.artists),
+                    data.prompt,
+                    JSON.stringify(data.pins),
+                    JSON.stringify(data.reactions),
+                    data.host_key_hash
+                ]
+            );
+            return true;
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to save live canvas:', err);
+            return false;
+        }
+    }
+
+    async getLiveCanvas(id: string): Promise<LiveCanvasData | null> {
+        if (!this.pool || !(await this.ensureInitialized())) {
+            return null;
+        }
+
+        try {
+            const result = await this.pool.query(
+                'SELECT id, start_time, prompt, elements, artists, pins, reactions, host_key_hash FROM live_canvas WHERE id = $1',
+                [id]
+            );
+
+            if (result.rows.length === 0) {
+                return null;
+            }
+
+            const row = result.rows[0];
+            return {
                 id: row.id,
-                date: row.date,
-                stroke_count: row.stroke_count,
-                artist_count: row.artist_count
-            }));
+                start_time: Number(row.start_time),
+                prompt: row.prompt ?? null,
+                elements: Array.isArray(row.elements) ? row.elements : [],
+                artists: Array.isArray(row.artists) ? row.artists : [],
+                pins: Array.isArray(row.pins) ? row.pins : [],
+                reactions: parseReactionCounts(row.reactions),
+                host_key_hash: row.host_key_hash ?? null
+            };
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to load live canvas:', err);
+            return null;
+        }
+    }
+
+    /**
+     * Check out a dedicated connection, for session-scoped features
+     * (LISTEN, advisory locks). The caller must release it.
+     */
+    async connectClient(): Promise<PoolClient | null> {
+        if (!this.pool) return null;
+        try {
+            return await this.pool.connect();
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to check out client:', err);
+            return null;
+        }
+    }
+
+    async notify(channel: string, payload: string): Promise<boolean> {
+        if (!this.pool) return false;
+        try {
+            await this.pool.query('SELECT pg_notify($1, $2)', [channel, payload]);
+            return true;
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to notify:', err);
+            return false;
+        }
+    }
+
+    async saveClusterMessage(payload: string): Promise<number | null> {
+        if (!this.pool || !(await this.ensureInitialized())) {
+            return null;
+        }
+
+        try {
+            const result = await this.pool.query(
+                'INSERT INTO cluster_messages (payload) VALUES ($1) RETURNING id',
+                [payload]
+            );
+            return Number(result.rows[0].id);
         } catch (err) {
-            console.error('[DatabaseService] ❌ Failed to get archives:', err);
-            return [];
+            console.error('[DatabaseService] ❌ Failed to save cluster message:', err);
+            return null;
+        }
+    }
+
+    async getClusterMessage(id: number): Promise<string | null> {
+        if (!this.pool) return null;
+        try {
+            const result = await this.pool.query('SELECT payload FROM cluster_messages WHERE id = $1', [id]);
+            return result.rows.length > 0 ? result.rows[0].payload : null;
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to get cluster message:', err);
+            return null;
+        }
+    }
+
+    async pruneClusterMessages(maxAgeMs: number): Promise<void> {
+        if (!this.pool || !this.isInitialized) return;
+        try {
+            await this.pool.query(
+                `DELETE FROM cluster_messages WHERE created_at < NOW() - ($1 || ' milliseconds')::interval`,
+                [String(maxAgeMs)]
+            );
+        } catch (err) {
+            console.error('[DatabaseService] ❌ Failed to prune cluster messages:', err);
         }
     }
 
@@ -219,6 +617,11 @@ class DatabaseService {
     isAvailable(): boolean {
         return this.pool !== null && this.isInitialized;
     }
+
+    // True when DATABASE_URL is set, even if the tables are not ready yet
+    isConfigured(): boolean {
+        return this.pool !== null;
+    }
 }
 
 // Singleton instance
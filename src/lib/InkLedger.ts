@@ -0,0 +1,132 @@
+import { ExcalidrawElement, InkStateData } from '../types';
+import { INK_CONFIG, calculateElementLength, isInkElement } from './InkManager';
+
+interface LedgerEntry {
+    current: number;
+    lastRegenAt: number;
+    bonus?: { amount: number; expiresAt: number }; // Extra capacity granted by a host
+}
+
+export interface InkChargeResult {
+    accepted: ExcalidrawElement[];
+    rejected: ExcalidrawElement[];
+    state: InkStateData;
+}
+
+/**
+ * Server-side ink accounting, one entry per device (see deviceIdentity).
+ *
+ * Mirrors the client InkManager rules (INK_CONFIG + calculateElementLength),
+ * but regenerates lazily from timestamps instead of running a timer per device.
+ */
+class InkLedger {
+    private entries: Map<string, LedgerEntry> = new Map();
+
+    // Get (and regenerate) the entry for a device, creating a full one if missing
+    private getEntry(deviceId: string): LedgerEntry {
+        const now = Date.now();
+        let entry = this.entries.get(deviceId);
+        if (!entry) {
+            entry = { current: INK_CONFIG.maxInk, lastRegenAt: now };
+            this.entries.set(deviceId, entry);
+            return entry;
+        }
+
+        if (entry.bonus && entry.bonus.expiresAt <= now) {
+            // Unspent granted ink goes away with the grant
+            entry.bonus = undefined;
+            entry.current = Math.min(INK_CONFIG.maxInk, entry.current);
+        }
+
+        // Regeneration only refills up to the normal maximum, never into granted ink
+        const intervals = Math.floor((now - entry.lastRegenAt) / INK_CONFIG.regenInterval);
+        if (intervals > 0) {
+            if (entry.current < INK_CONFIG.maxInk) {
+                entry.current = Math.min(INK_CONFIG.maxInk, entry.current + intervals * INK_CONFIG.regenRate);
+            }
+            entry.lastRegenAt += intervals * INK_CONFIG.regenInterval;
+        }
+        if (entry.current >= INK_CONFIG.maxInk) {
+            // Nothing to regenerate — keep the clock current so the next spend starts a fresh interval
+            entry.lastRegenAt = now;
+        }
+        return entry;
+    }
+
+    private toState(entry: LedgerEntry): InkStateData {
+        return entry.bonus
+            ? { current: entry.current, max: INK_CONFIG.maxInk + entry.bonus.amount, bonusUntil: entry.bonus.expiresAt }
+            : { current: entry.current, max: INK_CONFIG.maxInk };
+    }
+
+    getState(deviceId: string): InkStateData {
+        return this.toState(this.getEntry(deviceId));
+    }
+
+    /**
+     * Host grant: refill a device and add `amount` of extra ink on top of the
+     * maximum for `durationMs`. A new grant replaces a running one.
+     */
+    grant(deviceId: string, amount: number, durationMs: number): InkStateData {
+        const entry = this.getEntry(deviceId);
+        entry.bonus = { amount, expiresAt: Date.now() + durationMs };
+        entry.current = INK_CONFIG.maxInk + amount;
+        return this.toState(entry);
+    }
+
+    /**
+     * Charge a scene:update batch against a device's ink.
+     * Only growth of drawing elements costs ink (edits that shrink or delete are free).
+     * Like the client, a stroke is allowed while any ink remains; once the
+     * device is dry, the remaining growing elements are rejected.
+     *
+     * @param getPrevious - Looks up the currently stored version of an element
+     */
+    charge(
+        deviceId: string,
+        elements: readonly ExcalidrawElement[],
+        getPrevious: (id: string) => ExcalidrawElement | undefined
+    ): InkChargeResult {
+        const entry = this.getEntry(deviceId);
+        const accepted: ExcalidrawElement[] = [];
+        const rejected: ExcalidrawElement[] = [];
+
+        for (const element of elements) {
+            if (!isInkElement(element) || element.isDeleted) {
+                accepted.push(element);
+                continue;
+            }
+
+            const previous = getPrevious(element.id);
+            const previousLength = previous ? calculateElementLength(previous) : 0;
+            const deltaLength = calculateElementLength(element) - previousLength;
+
+            if (deltaLength <= 0) {
+                accepted.push(element);
+                continue;
+            }
+
+            if (entry.current <= 0) {
+                rejected.push(element);
+                continue;
+            }
+
+            entry.current = Math.max(0, entry.current - deltaLength);
+            accepted.push(element);
+        }
+
+        return { accepted, rejected, state: this.toState(entry) };
+    }
+
+    // Drop devices that have fully regenerated — they are indistinguishable from new ones
+    prune(): void {
+        for (const deviceId of Array.from(this.entries.keys())) {
+            const entry = this.getEntry(deviceId);
+            if (entry.current >= INK_CONFIG.maxInk && !entry.bonus) {
+                this.entries.delete(deviceId);
+            }
+        }
+    }
+}
+
+export const inkLedger = new InkLedger();
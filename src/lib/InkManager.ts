@@ -3,11 +3,53 @@
  *
  * Features:
  * - Tracks ink consumption based on stroke length
- * - Maximum ink capacity: 3000px of drawing
- * - Regeneration: 5% (150px) every 3 seconds
+ * - Maximum ink capacity: 12000px of drawing
+ * - Regeneration: 5% (600px) every 3 seconds
  * - Prevents drawing when ink is depleted
+ *
+ * The server keeps its own ledger (see InkLedger) with the same rules and
+ * pushes `ink:state` events; the client reconciles to those via `reconcile()`.
  */
 
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/element/types';
+import type { InkStateData } from '../types';
+
+/** Ink parameters shared by the client InkManager and the server InkLedger */
+export const INK_CONFIG = {
+  maxInk: 12000, // Maximum ink in pixels
+  regenRate: 600, // Pixels regenerated per interval (5%)
+  regenInterval: 3000, // Regeneration interval in ms (3 seconds)
+} as const;
+
+/** Element types that cost ink when drawn */
+const INK_ELEMENT_TYPES = new Set(['freedraw', 'line', 'arrow', 'rectangle', 'diamond', 'ellipse']);
+
+export function isInkElement(element: ExcalidrawElement): boolean {
+  return INK_ELEMENT_TYPES.has(element.type);
+}
+
+/**
+ * Ink cost of an element: path length for point-based elements,
+ * perimeter of the bounding box for shapes, 0 for everything else.
+ */
+export function calculateElementLength(element: ExcalidrawElement): number {
+  if (element.type === 'freedraw' || element.type === 'line' || element.type === 'arrow') {
+    const points = element.points || [];
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      const dx = points[i][0] - points[i - 1][0];
+      const dy = points[i][1] - points[i - 1][1];
+      length += Math.sqrt(dx * dx + dy * dy);
+    }
+    return length;
+  } else if (element.type === 'rectangle' || element.type === 'diamond' || element.type === 'ellipse') {
+    const width = element.width || 0;
+    const height = element.height || 0;
+    return 2 * (width + height);
+  }
+  return 0;
+}
+
 export interface InkState {
   current: number;
   max: number;
@@ -19,9 +61,11 @@ export type InkChangeCallback = (state: InkState) => void;
 
 export class InkManager {
   private currentInk: number;
-  private readonly maxInk: number = 12000; // Maximum ink in pixels
-  private readonly regenRate: number = 600; // Pixels regenerated per interval (5%)
-  private readonly regenInterval: number = 3000; // Regeneration interval in ms (3 seconds)
+  // Raised while a host's ink grant lasts (see InkLedger.grant)
+  private maxInk: number = INK_CONFIG.maxInk;
+  private bonusUntil: number | null = null;
+  private readonly regenRate: number = INK_CONFIG.regenRate;
+  private readonly regenInterval: number = INK_CONFIG.regenInterval;
   private regenTimer: NodeJS.Timeout | null = null;
   private listeners: Set<InkChangeCallback> = new Set();
 
@@ -69,6 +113,18 @@ export class InkManager {
     return true;
   }
 
+  /**
+   * Adopt the server's authoritative ink level.
+   * Restarts the regeneration timer so both sides tick in step.
+   */
+  reconcile(serverState: InkStateData): void {
+    this.maxInk = Math.max(INK_CONFIG.maxInk, serverState.max);
+    this.bonusUntil = serverState.bonusUntil ?? null;
+    this.currentInk = Math.max(0, Math.min(this.maxInk, serverState.current));
+    this.startRegeneration();
+    this.notifyListeners();
+  }
+
   /**
    * Calculate total length of a stroke from points
    */
@@ -94,8 +150,16 @@ export class InkManager {
     }
 
     this.regenTimer = setInterval(() => {
-      if (this.currentInk < this.maxInk) {
-        this.currentInk = Math.min(this.maxInk, this.currentInk + this.regenRate);
+      if (this.bonusUntil !== null && Date.now() >= this.bonusUntil) {
+        // Granted ink expired, as it does in the server ledger
+        this.bonusUntil = null;
+        this.maxInk = INK_CONFIG.maxInk;
+        this.currentInk = Math.min(this.maxInk, this.currentInk);
+        this.notifyListeners();
+      }
+      // Regeneration stops at the normal maximum, never refilling granted ink
+      if (this.currentInk < INK_CONFIG.maxInk) {
+        this.currentInk = Math.min(INK_CONFIG.maxInk, this.currentInk + this.regenRate);
         this.notifyListeners();
       }
     }, this.regenInterval);
@@ -0,0 +1,103 @@
+import type { PoolClient } from 'pg';
+import { databaseService } from './DatabaseService';
+import { isClusterEnabled } from './ClusterBus';
+
+/**
+ * Decides which node runs cluster-wide singletons (the reset scheduler,
+ * live canvas snapshots, pruning). Exactly one node should be leader at a time.
+ */
+export interface LeaderElection {
+    readonly name: string;
+    start(): Promise<void>;
+    isLeader(): boolean;
+    stop(): Promise<void>;
+}
+
+// Single-process deployments are always the leader
+class SingleNodeElection implements LeaderElection {
+    readonly name = 'single-node';
+
+    async start(): Promise<void> {}
+
+    isLeader(): boolean {
+        return true;
+    }
+
+    async stop(): Promise<void> {}
+}
+
+// Arbitrary constant shared by all drawny nodes
+const LEADER_LOCK_KEY = 73_617_001;
+const RETRY_INTERVAL_MS = 10_000;
+
+/**
+ * Leader election via a Postgres session-level advisory lock.
+ * The lock is held for as long as the dedicated connection lives, so a crashed
+ * leader frees it automatically and another node picks it up on its next retry.
+ */
+class PostgresLeaderElection implements LeaderElection {
+    readonly name = 'postgres-advisory-lock';
+    private client: PoolClient | null = null;
+    private leader = false;
+    private retryTimer: NodeJS.Timeout | null = null;
+
+    async start(): Promise<void> {
+        await this.tryAcquire();
+        if (!this.retryTimer) {
+            this.retryTimer = setInterval(() => {
+                if (!this.leader) {
+                    this.tryAcquire().catch(err => console.error('[LeaderElection] Retry failed:', err));
+                }
+            }, RETRY_INTERVAL_MS);
+        }
+    }
+
+    private async tryAcquire(): Promise<void> {
+        if (!this.client) {
+            this.client = await databaseService.connectClient();
+            if (!this.client) return;
+            this.client.on('error', (err) => {
+                console.error('[LeaderElection] Lock connection lost:', err);
+                this.release();
+            });
+        }
+
+        try {
+            const result = await this.client.query('SELECT pg_try_advisory_lock($1) AS acquired', [LEADER_LOCK_KEY]);
+            if (result.rows[0]?.acquired) {
+                this.leader = true;
+                console.log('[LeaderElection] 👑 This node is now the leader');
+            }
+        } catch (err) {
+            console.error('[LeaderElection] Failed to query advisory lock:', err);
+            this.release();
+        }
+    }
+
+    private release(): void {
+        if (this.leader) {
+            console.warn('[LeaderElection] Leadership lost');
+        }
+        this.leader = false;
+        if (this.client) {
+            this.client.release(true);
+            this.client = null;
+        }
+    }
+
+    isLeader(): boolean {
+        return this.leader;
+    }
+
+    async stop(): Promise<void> {
+        if (this.retryTimer) {
+            clearInterval(this.retryTimer);
+            this.retryTimer = null;
+        }
+        this.release();
+    }
+}
+
+export function createLeaderElection(): LeaderElection {
+    return isClusterEnabled() ? new PostgresLeaderElection() : new SingleNodeElection();
+}
@@ -0,0 +1,182 @@
+import fs from 'fs';
+import path from 'path';
+import { BRUSH_SIZES, BrushSize, PaletteRule } from '../types';
+import { validateHostRestrictions } from './hostControls';
+
+/**
+ * Scheduled palette and tool limits, read from a JSON config file
+ * (PALETTE_RULES_FILE, defaulting to palettes.json in the project root):
+ *
+ *   {
+ *     "rules": [
+ *       { "name": "Only blues until noon", "until": "12:00", "colors": ["#364fc7", "#1864ab", "#0b7285"] },
+ *       { "name": "No eraser in the final hour", "finalMinutes": 60, "tools": ["brush"] }
+ *     ],
+ *     "rotation": [
+ *       { "name": "Fine liners", "sizes": ["small"] },
+ *       {}
+ *     ]
+ *   }
+ *
+ * A rule applies while all of its conditions hold: `date` (the cycle's start
+ * date), `from`/`until` (local time of day, HH:MM, wrapping past midnight
+ * when from > until) and `finalMinutes` (the end of the cycle). Times use the
+ * reset time zone. The first rule that applies wins; otherwise the cycle gets
+ * the rotation entry for its start date, where `{}` means no limits.
+ *
+ * `colors`, `tools` and `sizes` each restrict one thing and are unlimited
+ * when left out. The file is re-read at most once a minute, so edits apply
+ * without a restart.
+ */
+
+interface PaletteWindow {
+    date: string | null; // YYYY-MM-DD
+    from: number | null; // Minutes since local midnight
+    until: number | null;
+    finalMinutes: number | null;
+}
+
+interface PaletteEntry {
+    window: PaletteWindow;
+    rule: PaletteRule | null; // null: no limits
+}
+
+interface PaletteConfig {
+    rules: PaletteEntry[];
+    rotation: (PaletteRule | null)[];
+}
+
+// Where in the schedule the canvas is right now
+export interface PaletteMoment {
+    cycleDate: string; // Start date of the current cycle
+    minuteOfDay: number; // Local time, minutes since midnight
+    minutesLeft: number; // Until the next reset
+}
+
+const MAX_NAME_LENGTH = 60;
+const CONFIG_TTL_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMPTY_CONFIG: PaletteConfig = { rules: [], rotation: [] };
+
+function parseTimeOfDay(value: unknown): number | null | undefined {
+    if (value === undefined) return null;
+    const match = typeof value === 'string' ? /^(\d{1,2}):(\d{2})$/.exec(value) : null;
+    if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) return undefined;
+    return Math.min(24 * 60, Number(match[1]) * 60 + Number(match[2]));
+}
+
+function isBrushSize(size: unknown): size is BrushSize {
+    return typeof size === 'string' && Object.prototype.hasOwnProperty.call(BRUSH_SIZES, size);
+}
+
+// Limits of one entry; undefined when invalid, null when it limits nothing
+function parseRule(entry: Record<string, unknown>): PaletteRule | null | undefined {
+    const { name, colors, tools, sizes } = entry;
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH)) return undefined;
+
+    const restrictions = validateHostRestrictions({ allowedColors: colors ?? null, allowedTools: tools ?? null });
+    if (!restrictions) return undefined;
+    if (sizes !== undefined && (!Array.isArray(sizes) || sizes.length === 0 || !sizes.every(isBrushSize))) return undefined;
+
+    const rule: PaletteRule = {
+        name: typeof name === 'string' ? name.trim() : null,
+        ...restrictions,
+        allowedSizes: sizes ? Array.from(new Set(sizes as BrushSize[])) : null,
+    };
+    const limited = rule.allowedColors !== null || rule.allowedTools !== null || rule.allowedSizes !== null;
+    return limited ? rule : null;
+}
+
+function parseEntry(value: unknown): PaletteEntry | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const entry = value as Record<string, unknown>;
+
+    const rule = parseRule(entry);
+    const from = parseTimeOfDay(entry.from);
+    const until = parseTimeOfDay(entry.until);
+    const { date, finalMinutes } = entry;
+    if (rule === undefined || from === undefined || until === undefined) return undefined;
+    if (date !== undefined && (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date))) return undefined;
+    if (finalMinutes !== undefined && !(Number.isInteger(finalMinutes) && (finalMinutes as number) > 0)) return undefined;
+
+    return {
+        window: {
+            date: (date as string | undefined) ?? null,
+            from,
+            until,
+            finalMinutes: (finalMinutes as number | undefined) ?? null,
+        },
+        rule,
+    };
+}
+
+function isInWindow(window: PaletteWindow, moment: PaletteMoment): boolean {
+    if (window.date !== null && window.date !== moment.cycleDate) return false;
+    if (window.finalMinutes !== null && moment.minutesLeft > window.finalMinutes) return false;
+    if (window.from === null && window.until === null) return true;
+
+    const from = window.from ?? 0;
+    const until = window.until ?? 24 * 60;
+    return from <= until
+        ? moment.minuteOfDay >= from && moment.minuteOfDay < until
+        : moment.minuteOfDay >= from || moment.minuteOfDay < until; // Wraps past midnight
+}
+
+class PaletteSchedule {
+    private cache: { config: PaletteConfig; readAt: number } | null = null;
+
+    constructor(private readonly filePath: string) {}
+
+    // Invalid entries are skipped with a warning; a missing file means no limits
+    private readConfig(): PaletteConfig {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error('[PaletteSchedule] Failed to read', this.filePath, err);
+            }
+            return EMPTY_CONFIG;
+        }
+
+        const config = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+        const rules = Array.isArray(config.rules) ? config.rules : [];
+        const rotation = Array.isArray(config.rotation) ? config.rotation : [];
+
+        const validRules = rules.map(parseEntry).filter((entry): entry is PaletteEntry => entry !== undefined);
+        const validRotation = rotation
+            .map(entry => (entry && typeof entry === 'object' ? parseRule(entry as Record<string, unknown>) : undefined))
+            .filter((rule): rule is PaletteRule | null => rule !== undefined);
+
+        const skipped = rules.length - validRules.length + rotation.length - validRotation.length;
+        if (skipped > 0) {
+            console.warn(`[PaletteSchedule] ⚠️ Skipped ${skipped} invalid palette rules in ${this.filePath}`);
+        }
+        return { rules: validRules, rotation: validRotation };
+    }
+
+    private getConfig(): PaletteConfig {
+        const now = Date.now();
+        if (!this.cache || now - this.cache.readAt >= CONFIG_TTL_MS) {
+            this.cache = { config: this.readConfig(), readAt: now };
+        }
+        return this.cache.config;
+    }
+
+    /**
+     * The limits in force at `moment`, or null when drawing is unrestricted.
+     */
+    getActiveRule(moment: PaletteMoment): PaletteRule | null {
+        const { rules, rotation } = this.getConfig();
+
+        const match = rules.find(entry => isInWindow(entry.window, moment));
+        if (match) return match.rule;
+
+        if (rotation.length === 0) return null;
+        // Stateless rotation like PromptQueue: one step per calendar day, the same on every node
+        const day = Math.floor(Date.parse(`${moment.cycleDate}T00:00:00Z`) / DAY_MS);
+        return rotation[day % rotation.length];
+    }
+}
+
+export const paletteSchedule = new PaletteSchedule(process.env.PALETTE_RULES_FILE || path.join(process.cwd(), 'palettes.json'));
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Daily themes for the canvas, read from a JSON config file
+ * (PROMPTS_FILE, defaulting to prompts.json in the project root):
+ *
+ *   {
+ *     "scheduled": [{ "date": "2026-10-31", "prompt": "Haunted houses" }],
+ *     "rotation": ["Underwater cities", "Tiny monsters"]
+ *   }
+ *
+ * A cycle gets the scheduled prompt for its start date (in the reset time
+ * zone), otherwise the rotation entry for that day. The file is re-read at
+ * every pick, so edits apply from the next reset without a restart.
+ */
+
+interface ScheduledPrompt {
+    date: string; // YYYY-MM-DD
+    prompt: string;
+}
+
+interface PromptConfig {
+    scheduled: ScheduledPrompt[];
+    rotation: string[];
+}
+
+const MAX_PROMPT_LENGTH = 120;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isPrompt(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_PROMPT_LENGTH;
+}
+
+function isScheduledPrompt(value: unknown): value is ScheduledPrompt {
+    if (!value || typeof value !== 'object') return false;
+    const { date, prompt } = value as Record<string, unknown>;
+    return typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) && isPrompt(prompt);
+}
+
+class PromptQueue {
+    constructor(private readonly filePath: string) {}
+
+    // Invalid entries are skipped with a warning; a missing file means no prompts
+    private readConfig(): PromptConfig {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error('[PromptQueue] Failed to read', this.filePath, err);
+            }
+            return { scheduled: [], rotation: [] };
+        }
+
+        const config = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+        const scheduled = Array.isArray(config.scheduled) ? config.scheduled : [];
+        const rotation = Array.isArray(config.rotation) ? config.rotation : [];
+
+        const validScheduled = scheduled.filter(isScheduledPrompt);
+        const validRotation = rotation.filter(isPrompt);
+
+        const skipped = scheduled.length - validScheduled.length + rotation.length - validRotation.length;
+        if (skipped > 0) {
+            console.warn(`[PromptQueue] ⚠️ Skipped ${skipped} invalid prompts in ${this.filePath} (max ${MAX_PROMPT_LENGTH} characters)`);
+        }
+        return { scheduled: validScheduled, rotation: validRotation };
+    }
+
+    /**
+     * The prompt for a canvas cycle starting on `date` (YYYY-MM-DD, local
+     * to the reset schedule), or null when none is configured.
+     */
+    pickPrompt(date: string): string | null {
+        const { scheduled, rotation } = this.readConfig();
+
+        const match = scheduled.find(entry => entry.date === date);
+        if (match) return match.prompt.trim();
+
+        if (rotation.length === 0) return null;
+        // Stateless rotation: one step per calendar day, the same on every node
+        const day = Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+        return rotation[day % rotation.length].trim();
+    }
+}
+
+export const promptQueue = new PromptQueue(process.env.PROMPTS_FILE || path.join(process.cwd(), 'prompts.json'));
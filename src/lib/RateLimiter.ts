@@ -0,0 +1,120 @@
+/**
+ * Token-bucket rate limiting for socket events.
+ *
+ * Each key (socket id, IP address, ...) gets its own bucket that refills
+ * continuously. Buckets that have refilled completely are pruned, since a
+ * full bucket behaves exactly like a fresh one.
+ */
+
+export interface RateLimitConfig {
+    capacity: number; // Burst size
+    refillPerSecond: number; // Sustained rate
+}
+
+class TokenBucket {
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(private readonly config: RateLimitConfig) {
+        this.tokens = config.capacity;
+        this.lastRefill = Date.now();
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        const elapsedSeconds = (now - this.lastRefill) / 1000;
+        this.tokens = Math.min(this.config.capacity, this.tokens + elapsedSeconds * this.config.refillPerSecond);
+        this.lastRefill = now;
+    }
+
+    tryRemove(cost: number): boolean {
+        this.refill();
+        if (this.tokens < cost) return false;
+        this.tokens -= cost;
+        return true;
+    }
+
+    isFull(): boolean {
+        this.refill();
+        return this.tokens >= this.config.capacity;
+    }
+}
+
+export class RateLimiter {
+    private buckets: Map<string, TokenBucket> = new Map();
+
+    constructor(private readonly config: RateLimitConfig) {}
+
+    /**
+     * Take tokens for a key.
+     * @returns true if the action is allowed, false if the key is over its limit
+     */
+    consume(key: string, cost = 1): boolean {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(this.config);
+            this.buckets.set(key, bucket);
+        }
+        return bucket.tryRemove(cost);
+    }
+
+    prune(): void {
+        for (const [key, bucket] of Array.from(this.buckets.entries())) {
+            if (bucket.isFull()) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
+
+// Excalidraw emits onChange on every pointer move while drawing (~60/s),
+// so scene:update limits leave headroom for one fast stroke per socket.
+// Per-IP limits allow a few tabs or a shared NAT before throttling.
+export const RATE_LIMITS = {
+    sceneUpdate: {
+        socket: { capacity: 90, refillPerSecond: 60 },
+        ip: { capacity: 300, refillPerSecond: 180 },
+    },
+    cursorMove: {
+        socket: { capacity: 60, refillPerSecond: 30 },
+        ip: { capacity: 200, refillPerSecond: 100 },
+    },
+    // Reactions are clicks, not pointer moves: a short burst, then a couple a second
+    reaction: {
+        socket: { capacity: 8, refillPerSecond: 2 },
+        ip: { capacity: 30, refillPerSecond: 8 },
+    },
+    // Pins stay until the reset, so only a few at a time
+    pinAdd: {
+        socket: { capacity: 3, refillPerSecond: 1 / 20 },
+        ip: { capacity: 10, refillPerSecond: 1 / 5 },
+    },
+    // Followed clients send their view about ten times a second while panning
+    followView: {
+        socket: { capacity: 20, refillPerSecond: 10 },
+    },
+    // Starting and stopping a follow republishes presence to the cluster
+    followChange: {
+        socket: { capacity: 10, refillPerSecond: 1 },
+    },
+    // Renaming is rare; this only stops someone cycling names to spam labels
+    profileUpdate: {
+        socket: { capacity: 5, refillPerSecond: 1 / 10 },
+    },
+    // Host key guesses: a few retries, then one a minute
+    hostClaim: {
+        socket: { capacity: 5, refillPerSecond: 1 / 60 },
+    },
+    // Clients throttle viewport reports themselves; this only caps a misbehaving one
+    viewportUpdate: {
+        socket: { capacity: 20, refillPerSecond: 10 },
+    },
+    // Admin token guesses over HTTP: a few typos, then one try a minute
+    adminLogin: {
+        ip: { capacity: 5, refillPerSecond: 1 / 60 },
+    },
+    // PNG exports that aren't cached yet rasterize on the server's CPU
+    archiveExport: {
+        ip: { capacity: 5, refillPerSecond: 1 / 20 },
+    },
+} as const;
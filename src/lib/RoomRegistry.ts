@@ -0,0 +1,105 @@
+import { SceneLog, sceneLog } from './SceneLog';
+import { StrokeStorage, strokeStorage } from './StrokeStorage';
+import { MAIN_ROOM } from './roomUtils';
+import { HostState, createHostState } from './hostControls';
+
+// Everything the socket server keeps per room
+export interface CanvasRoom {
+    readonly id: string;
+    readonly storage: StrokeStorage;
+    readonly sceneLog: SceneLog;
+    host: HostState;
+    lastActiveAt: number;
+}
+
+/**
+ * The rooms loaded on this node. The main room is always loaded (server.ts
+ * restores it at boot); other rooms are restored from persistence when first
+ * used and unloaded once idle, so a forgotten room only costs its snapshot.
+ */
+class RoomRegistry {
+    private readonly rooms = new Map<string, CanvasRoom>();
+    private readonly opening = new Map<string, Promise<CanvasRoom>>();
+    private readonly maxRooms = Number(process.env.MAX_ROOMS) || 200;
+    private isPersistenceOwner: () => boolean = () => true;
+
+    constructor() {
+        this.rooms.set(MAIN_ROOM, { id: MAIN_ROOM, storage: strokeStorage, sceneLog, host: createHostState(), lastActiveAt: Date.now() });
+    }
+
+    get(roomId: string): CanvasRoom | undefined {
+        return this.rooms.get(roomId);
+    }
+
+    list(): CanvasRoom[] {
+        return Array.from(this.rooms.values());
+    }
+
+    /**
+     * Get a room, loading its saved canvas first if needed. Concurrent calls
+     * share one load. Rejects when the node already holds maxRooms rooms.
+     */
+    open(roomId: string): Promise<CanvasRoom> {
+        const loaded = this.rooms.get(roomId);
+        if (loaded) {
+            loaded.lastActiveAt = Date.now();
+            return Promise.resolve(loaded);
+        }
+
+        const pending = this.opening.get(roomId);
+        if (pending) return pending;
+
+        if (this.rooms.size + this.opening.size >= this.maxRooms) {
+            return Promise.reject(new Error('Too many active canvases, try again later'));
+        }
+
+        const load = async (): Promise<CanvasRoom> => {
+            const storage = new StrokeStorage(roomId);
+            storage.setPersistenceOwner(this.isPersistenceOwner);
+            await storage.restore();
+            const room: CanvasRoom = { id: roomId, storage, sceneLog: new SceneLog(), host: createHostState(), lastActiveAt: Date.now() };
+            this.rooms.set(roomId, room);
+            console.log('[RoomRegistry] Loaded room', roomId, '|', this.rooms.size, 'rooms loaded');
+            return room;
+        };
+        const promise = load().finally(() => this.opening.delete(roomId));
+        this.opening.set(roomId, promise);
+        return promise;
+    }
+
+    setPersistenceOwner(isOwner: () => boolean): void {
+        this.isPersistenceOwner = isOwner;
+        this.rooms.forEach(room => room.storage.setPersistenceOwner(isOwner));
+    }
+
+    // Save every loaded room now (shutdown)
+    async flushAll(): Promise<void> {
+        await Promise.all(this.list().map(room => room.storage.flush()));
+    }
+
+    /**
+     * Save and drop rooms (never main) that nobody is connected to and that
+     * have seen no activity for `idleMs`.
+     */
+    async unloadIdle(isInUse: (roomId: string) => boolean, idleMs: number): Promise<void> {
+        const now = Date.now();
+        for (const room of this.list()) {
+            if (room.id === MAIN_ROOM || isInUse(room.id) || now - room.lastActiveAt < idleMs) continue;
+            this.rooms.delete(room.id);
+            try {
+                await room.storage.close();
+                console.log('[RoomRegistry] Unloaded idle room', room.id);
+            } catch (err) {
+                console.error('[RoomRegistry] Failed to save room', room.id, 'while unloading:', err);
+            }
+        }
+    }
+}
+
+// Shared between the custom server and Next.js route handlers, like strokeStorage
+const globalForRoomRegistry = globalThis as unknown as {
+    roomRegistry: RoomRegistry | undefined;
+};
+
+export const roomRegistry = globalForRoomRegistry.roomRegistry ?? new RoomRegistry();
+globalForRoomRegistry.roomRegistry = roomRegistry;
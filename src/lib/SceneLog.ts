@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { ExcalidrawElement } from '../types';
+
+interface SceneBatch {
+    seq: number;
+    elements: readonly ExcalidrawElement[];
+}
+
+/**
+ * Sequence numbers and a bounded history of accepted scene:update batches.
+ *
+ * Every batch this node broadcasts gets the next sequence number. A client
+ * that reconnects with (epoch, lastSeq) receives only the batches it missed,
+ * as long as they are still in the ring buffer; otherwise it needs a full sync.
+ *
+ * The epoch changes whenever the log can no longer describe the canvas as
+ * "previous state + batches" (process start, canvas reset, bulk merges), so
+ * sequence numbers from before that point are never trusted.
+ */
+export class SceneLog {
+    private epoch: string = crypto.randomUUID();
+    private seq = 0;
+    private batches: SceneBatch[] = [];
+    private readonly capacity = 1000;
+
+    // Record an accepted batch and return its sequence number
+    append(elements: readonly ExcalidrawElement[]): number {
+        this.seq++;
+        this.batches.push({ seq: this.seq, elements });
+        if (this.batches.length > this.capacity) {
+            this.batches.shift();
+        }
+        return this.seq;
+    }
+
+    /**
+     * Elements changed after `lastSeq`, latest version of each.
+     * Returns null if the client's position can't be served from the buffer
+     * (different epoch, unknown future seq, or batches already evicted).
+     */
+    getSince(epoch: string, lastSeq: number): ExcalidrawElement[] | null {
+        if (epoch !== this.epoch || lastSeq > this.seq) return null;
+        if (lastSeq === this.seq) return [];
+
+        const oldestSeq = this.batches.length > 0 ? this.batches[0].seq : this.seq + 1;
+        if (lastSeq + 1 < oldestSeq) return null;
+
+        const missed = new Map<string, ExcalidrawElement>();
+        for (const batch of this.batches) {
+            if (batch.seq > lastSeq) {
+                batch.elements.forEach(el => missed.set(el.id, el));
+            }
+        }
+        return Array.from(missed.values());
+    }
+
+    getPosition(): { epoch: string; seq: number } {
+        return { epoch: this.epoch, seq: this.seq };
+    }
+
+    // Start a new epoch; clients from the old one fall back to a full sync
+    reset(): void {
+        this.epoch = crypto.randomUUID();
+        this.seq = 0;
+        this.batches = [];
+    }
+}
+
+// Log of the main room; other rooms get their own (see RoomRegistry)
+export const sceneLog = new SceneLog();
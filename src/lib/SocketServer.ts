@@ -1,14 +1,315 @@
-import { Server as SocketIOServer } from 'socket.io';
+import crypto from 'crypto';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
-import { ServerToClientEvents, ClientToServerEvents, CursorData } from '../types';
-import { strokeStorage } from './StrokeStorage';
+import { ServerToClientEvents, ClientToServerEvents, CursorData, ServerErrorData, SceneInitData, SceneResumeAuth, SceneUpdate, ExcalidrawElement, Bounds, ModerationResult, HostAction, HostNotice, HostResult, FollowViewData, Pin, PinResult, ProfileRequest, Reaction, UserProfile } from '../types';
+import { inkLedger } from './InkLedger';
+import { RateLimiter, RATE_LIMITS } from './RateLimiter';
+import { ELEMENT_LIMITS, validateSceneUpdate, validateCursor, validateFollowView, validatePin, validateReaction, validateViewportBounds } from './elementValidator';
+import { getElementBounds, boundsIntersect, boundsContainPoint } from './SpatialIndex';
+import { encodeElements, isPackedElements, MAX_PACKED_UPDATE_BYTES, negotiateCodec, setWireCodec, unpackElements } from './sceneCodec';
+import { CanvasRoom, roomRegistry } from './RoomRegistry';
+import { MAIN_ROOM, isValidRoomId, normalizeRoomId } from './roomUtils';
+import { ClusterBus, ClusterMessage, createClusterBus } from './ClusterBus';
+import { LeaderElection, createLeaderElection } from './LeaderElection';
+import { databaseService } from './DatabaseService';
+import { getAdminSessionFromCookieHeader, verifyAdminSession } from './adminAuth';
+import { getDeviceId, issueDeviceCookie } from './deviceIdentity';
+import { HOST_INK_GRANT_MS, breaksHostRestrictions, createHostKey, getPublicHostState, isHostKey, validateHostRestrictions, validateInkGrant } from './hostControls';
+import { breaksPaletteRule } from './paletteRules';
+import { getPinLimitError } from './reactions';
+import { isPresenceColor, resolveProfile, sanitizeProfileName } from './userProfile';
 
 let io: SocketIOServer<ClientToServerEvents, ServerToClientEvents> | null = null;
 
-// Track user cursors
-const userCursors = new Map<string, { cursor: CursorData; socketId: string }>();
+// Cluster wiring — in-memory (single node) unless CLUSTER_BUS=postgres
+let bus: ClusterBus | null = null;
+let election: LeaderElection | null = null;
 
-export function initSocketServer(httpServer: HTTPServer): SocketIOServer {
+// Per-room client counts reported by other nodes, so users:count is cluster-wide;
+// likewise their followers per room and device, for follow:count
+const remotePresence = new Map<string, {
+    rooms: Record<string, number>;
+    followers: Record<string, Record<string, number>>;
+    at: number;
+}>();
+const PRESENCE_HEARTBEAT_MS = 15 * 1000;
+const PRESENCE_TTL_MS = 45 * 1000;
+const CLUSTER_MESSAGE_TTL_MS = 5 * 60 * 1000;
+// Rooms other than main are unloaded after this long without clients or activity
+const ROOM_IDLE_MS = 10 * 60 * 1000;
+
+export interface SocketServerOptions {
+    bus?: ClusterBus;
+    election?: LeaderElection;
+}
+
+// Last cursor of each socket; a device with several tabs has one per tab
+const socketCursors = new Map<string, { cursor: CursorData; roomId: string }>();
+
+// Room each socket joined, resolved from the handshake before it connects
+const socketRooms = new Map<string, CanvasRoom>();
+// Device id of each connected socket, for per-device state shared by a room (host, ink grants)
+const socketDeviceIds = new Map<string, string>();
+// Device each following socket follows, in the socket's room
+const socketFollows = new Map<string, { roomId: string; userId: string }>();
+// Last follower count sent to each socket, so presence heartbeats don't resend it
+const sentFollowerCounts = new Map<string, number>();
+
+// Rate limiters — keyed by socket id and by client IP
+const sceneUpdateLimiters = {
+    socket: new RateLimiter(RATE_LIMITS.sceneUpdate.socket),
+    ip: new RateLimiter(RATE_LIMITS.sceneUpdate.ip),
+};
+const cursorMoveLimiters = {
+    socket: new RateLimiter(RATE_LIMITS.cursorMove.socket),
+    ip: new RateLimiter(RATE_LIMITS.cursorMove.ip),
+};
+
+const reactionLimiters = {
+    socket: new RateLimiter(RATE_LIMITS.reaction.socket),
+    ip: new RateLimiter(RATE_LIMITS.reaction.ip),
+};
+const pinAddLimiters = {
+    socket: new RateLimiter(RATE_LIMITS.pinAdd.socket),
+    ip: new RateLimiter(RATE_LIMITS.pinAdd.ip),
+};
+
+const viewportLimiter = new RateLimiter(RATE_LIMITS.viewportUpdate.socket);
+const profileUpdateLimiter = new RateLimiter(RATE_LIMITS.profileUpdate.socket);
+const followViewLimiter = new RateLimiter(RATE_LIMITS.followView.socket);
+const followChangeLimiter = new RateLimiter(RATE_LIMITS.followChange.socket);
+const hostClaimLimiter = new RateLimiter(RATE_LIMITS.hostClaim.socket);
+
+// Scene area each socket is looking at, padded by a margin. Sockets that never
+// reported one (older clients) get the whole canvas.
+const socketViewports = new Map<string, Bounds>();
+const VIEWPORT_MARGIN_RATIO = 0.5; // Of the viewport size, on each side
+const VIEWPORT_MIN_MARGIN = 500;
+
+// Admin session cookie of moderator sockets, re-checked on every action since sessions expire
+const moderatorSessions = new Map<string, string>();
+const MODERATION_USER_ID = 'moderation';
+
+// Scheduled palette rule last announced in each room, to spot when a time window starts or ends
+const announcedPaletteRules = new Map<string, string>();
+
+// Only tell a client why its updates are dropped once per interval, not per event
+const SERVER_ERROR_INTERVAL_MS = 2000;
+const lastServerErrorAt = new Map<string, number>();
+
+// Behind Render's proxy the real client address is in x-forwarded-for
+function getClientIp(socket: Socket): string {
+    const forwarded = socket.handshake.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    return first || socket.handshake.address;
+}
+
+// Clients name their room in the handshake; none means the main canvas
+function parseHandshakeRoom(auth: unknown): string | null {
+    const room = auth && typeof auth === 'object' ? (auth as Record<string, unknown>).room : undefined;
+    if (room === undefined) return MAIN_ROOM;
+    if (typeof room !== 'string') return null;
+    const normalized = normalizeRoomId(room);
+    return isValidRoomId(normalized) ? normalized : null;
+}
+
+// Socket.io room holding a canvas room's local sockets
+function roomChannel(roomId: string): string {
+    return `canvas:${roomId}`;
+}
+
+function getRoomSockets(roomId: string): Socket<ClientToServerEvents, ServerToClientEvents>[] {
+    const server = io;
+    const socketIds = server?.sockets.adapter.rooms.get(roomChannel(roomId));
+    if (!server || !socketIds) return [];
+    return Array.from(socketIds).flatMap(socketId => server.sockets.sockets.get(socketId) ?? []);
+}
+
+function getLocalRoomSize(roomId: string): number {
+    return io?.sockets.adapter.rooms.get(roomChannel(roomId))?.size ?? 0;
+}
+
+// Reconnecting clients send their last seen position in the handshake
+function parseResumeAuth(auth: unknown): SceneResumeAuth | null {
+    if (!auth || typeof auth !== 'object') return null;
+    const { epoch, lastSeq } = auth as Record<string, unknown>;
+    if (typeof epoch !== 'string' || !Number.isInteger(lastSeq) || (lastSeq as number) < 0) return null;
+    return { epoch, lastSeq: lastSeq as number };
+}
+
+// SCENE_WIRE_CODEC=json turns the packed codec off for every client
+function parseHandshakeCodec(auth: unknown) {
+    const offered = auth && typeof auth === 'object' ? (auth as Record<string, unknown>).codecs : undefined;
+    return negotiateCodec(offered, process.env.SCENE_WIRE_CODEC !== 'json');
+}
+
+// Checked before the rate limiters and the decoder, so an oversized update costs neither
+function isOversizedSceneUpdate(payload: unknown): boolean {
+    return isPackedElements(payload) && payload.data.byteLength > MAX_PACKED_UPDATE_BYTES;
+}
+
+// Unpack a binary scene:update; malformed data becomes null and fails validation
+function readSceneUpdatePayload(payload: unknown): unknown {
+    if (!isPackedElements(payload)) return payload;
+    try {
+        return unpackElements(payload.data);
+    } catch (err) {
+        console.warn('[SocketServer] Failed to unpack scene update:', err instanceof Error ? err.message : err);
+        return null;
+    }
+}
+
+// The profile saved in the browser, cleaned up, with random parts where it falls short
+function parseHandshakeProfile(auth: unknown): UserProfile {
+    return resolveProfile(auth && typeof auth === 'object' ? (auth as Record<string, unknown>).profile : undefined);
+}
+
+function parseHandshakeViewport(auth: unknown): Bounds | null {
+    if (!auth || typeof auth !== 'object') return null;
+    return validateViewportBounds((auth as Record<string, unknown>).viewport);
+}
+
+// Pad a reported viewport so small pans don't immediately need new elements
+function expandViewport(bounds: Bounds): Bounds {
+    const marginX = Math.max(VIEWPORT_MIN_MARGIN, (bounds.maxX - bounds.minX) * VIEWPORT_MARGIN_RATIO);
+    const marginY = Math.max(VIEWPORT_MIN_MARGIN, (bounds.maxY - bounds.minY) * VIEWPORT_MARGIN_RATIO);
+    return {
+        minX: bounds.minX - marginX,
+        minY: bounds.minY - marginY,
+        maxX: bounds.maxX + marginX,
+        maxY: bounds.maxY + marginY,
+    };
+}
+
+// Stored elements a socket should hold for its current viewport
+function getVisibleElements(room: CanvasRoom, socketId: string): ExcalidrawElement[] {
+    const viewport = socketViewports.get(socketId);
+    return viewport ? room.storage.getElementsInBounds(viewport) : room.storage.getAllElements();
+}
+
+// Bounds of elements as stored before a batch is applied
+function capturePreviousBounds(room: CanvasRoom, elements: readonly ExcalidrawElement[]): Map<string, Bounds | undefined> {
+    return new Map(elements.map(el => [el.id, room.storage.getElementBounds(el.id)]));
+}
+
+/**
+ * Send a batch to every local socket in the room whose viewport it touches.
+ * An element counts if its new or previous bounds overlap, so viewers also
+ * see elements that move or get deleted out of view.
+ */
+function emitSceneUpdate(
+    roomId: string,
+    update: SceneUpdate,
+    previousBounds: Map<string, Bounds | undefined>,
+    exceptSocketId?: string
+): void {
+    for (const target of getRoomSockets(roomId)) {
+        const socketId = target.id;
+        if (socketId === exceptSocketId) continue;
+        const viewport = socketViewports.get(socketId);
+        const elements = viewport
+            ? update.elements.filter(el => {
+                const previous = previousBounds.get(el.id);
+                return boundsIntersect(viewport, getElementBounds(el)) || (previous !== undefined && boundsIntersect(viewport, previous));
+            })
+            : update.elements;
+        if (elements.length > 0) {
+            target.emit('scene:update', { ...update, elements: encodeElements(target, elements) });
+        }
+    }
+}
+
+function hasDeviceCursor(roomId: string, deviceId: string): boolean {
+    for (const { cursor, roomId: cursorRoomId } of socketCursors.values()) {
+        if (cursorRoomId === roomId && cursor.userId === deviceId) return true;
+    }
+    return false;
+}
+
+function emitCursorUpdate(roomId: string, cursor: CursorData, exceptSocketId?: string): void {
+    for (const target of getRoomSockets(roomId)) {
+        if (target.id === exceptSocketId) continue;
+        const viewport = socketViewports.get(target.id);
+        if (!viewport || boundsContainPoint(viewport, cursor.x, cursor.y)) {
+            target.emit('cursor:update', cursor);
+        }
+    }
+}
+
+// Reactions only matter to people looking at that spot, like cursors
+function emitReaction(roomId: string, reaction: Reaction): void {
+    for (const target of getRoomSockets(roomId)) {
+        const viewport = socketViewports.get(target.id);
+        if (!viewport || boundsContainPoint(viewport, reaction.x, reaction.y)) {
+            target.emit('reaction:add', reaction);
+        }
+    }
+}
+
+/**
+ * Apply a moderator's (or host's) change and broadcast it as a normal scene
+ * update. It is sent under a shared id rather than theirs, so their own
+ * client (which skips its own updates) merges it too.
+ */
+function applyModeration(room: CanvasRoom, changes: readonly ExcalidrawElement[]): number {
+    const previousBounds = capturePreviousBounds(room, changes);
+    const applied = room.storage.updateElements(changes);
+    if (applied.length > 0) {
+        emitSceneUpdate(room.id, { userId: MODERATION_USER_ID, elements: applied, seq: room.sceneLog.append(applied) }, previousBounds);
+        bus?.publish({ type: 'scene:update', room: room.id, userId: MODERATION_USER_ID, elements: applied });
+    }
+    return applied.length;
+}
+
+function isModeratorSocket(socketId: string): boolean {
+    const session = moderatorSessions.get(socketId);
+    return session !== undefined && verifyAdminSession(session);
+}
+
+// The room's host device, or any moderator
+function isRoomHost(room: CanvasRoom, socketId: string): boolean {
+    const deviceId = socketDeviceIds.get(socketId);
+    return (deviceId !== undefined && room.host.hostId === deviceId) || isModeratorSocket(socketId);
+}
+
+// Send a room's host settings (and who hosts it) to its local sockets
+function emitHostState(room: CanvasRoom, notice: HostNotice | null): void {
+    const state = getPublicHostState(room.host, room.storage.getHostKeyHash() !== null);
+    for (const target of getRoomSockets(room.id)) {
+        target.emit('host:state', state);
+        target.emit('host:status', isRoomHost(room, target.id));
+        if (notice) target.emit('host:notice', notice);
+    }
+}
+
+// Host settings changed — tell the room here and on other nodes
+function broadcastHostState(room: CanvasRoom, notice: HostNotice | null): void {
+    emitHostState(room, notice);
+    bus?.publish({ type: 'host:state', room: room.id, state: room.host, hostKeyHash: room.storage.getHostKeyHash(), notice });
+}
+
+function broadcastHostNotice(room: CanvasRoom, notice: HostNotice): void {
+    io?.to(roomChannel(room.id)).emit('host:notice', notice);
+    bus?.publish({ type: 'host:notice', room: room.id, notice });
+}
+
+// Extra ink for every device connected to the room on this node
+function grantRoomInk(room: CanvasRoom, amount: number, notice: HostNotice): void {
+    for (const target of getRoomSockets(room.id)) {
+        const deviceId = socketDeviceIds.get(target.id);
+        if (deviceId) target.emit('ink:state', inkLedger.grant(deviceId, amount, HOST_INK_GRANT_MS));
+        target.emit('host:notice', notice);
+    }
+}
+
+function emitServerError(socket: Socket<ClientToServerEvents, ServerToClientEvents>, error: ServerErrorData) {
+    const now = Date.now();
+    if (now - (lastServerErrorAt.get(socket.id) ?? 0) < SERVER_ERROR_INTERVAL_MS) return;
+    lastServerErrorAt.set(socket.id, now);
+    socket.emit('server:error', error);
+}
+
+export function initSocketServer(httpServer: HTTPServer, options: SocketServerOptions = {}): SocketIOServer {
     if (io) {
         console.log('[SocketServer] Already initialized');
         return io;
@@ -24,125 +325,898 @@ export function initSocketServer(httpServer: HTTPServer): SocketIOServer {
         pingInterval: 25000,
     });
 
-    attachSocketHandlers(io);
+    attachSocketHandlers(io, options);
     return io;
 }
 
-export function attachSocketHandlers(serverIo: SocketIOServer) {
+export function attachSocketHandlers(
+    serverIo: SocketIOServer<ClientToServerEvents, ServerToClientEvents>,
+    options: SocketServerOptions = {}
+) {
     io = serverIo;
     console.log('[SocketServer] Attaching socket handlers');
 
+    const clusterBus = options.bus ?? createClusterBus();
+    const leaderElection = options.election ?? createLeaderElection();
+    bus = clusterBus;
+    election = leaderElection;
+    roomRegistry.setPersistenceOwner(() => leaderElection.isLeader());
+    startCluster(clusterBus, leaderElection).catch(err => console.error('[SocketServer] Failed to start cluster:', err));
+
+    // Give every browser a signed device id on the handshake response
+    io.engine.on('initial_headers', issueDeviceCookie);
+
+    // Load the requested room before the connection opens
+    io.use((socket, next) => {
+        const roomId = parseHandshakeRoom(socket.handshake.auth);
+        if (!roomId) {
+            next(new Error('Invalid room name'));
+            return;
+        }
+        const wasLoaded = roomRegistry.get(roomId) !== undefined;
+        roomRegistry.open(roomId)
+            .then(room => {
+                socketRooms.set(socket.id, room);
+                // A freshly loaded copy may be behind the leader's
+                if (!wasLoaded) bus?.publish({ type: 'sync:request', room: roomId });
+                next();
+            })
+            .catch(err => {
+                console.error('[SocketServer] Failed to open room', roomId, err);
+                next(err instanceof Error ? err : new Error('Failed to open room'));
+            });
+    });
+
     io.on('connection', (socket) => {
-        console.log('[SocketServer] Client connected:', socket.id);
-        broadcastUsersCount();
+        const room = socketRooms.get(socket.id);
+        if (!room) {
+            socket.disconnect(true);
+            return;
+        }
+        const clientIp = getClientIp(socket);
+        // Stable across refreshes and reconnects, unlike socket.id — key per-user state on this
+        const deviceId = getDeviceId(socket.request, socket.id);
+        socketDeviceIds.set(socket.id, deviceId);
+        console.log('[SocketServer] Client connected:', socket.id, '| Device:', deviceId, '| Room:', room.id);
+        socket.join(roomChannel(room.id));
+        room.lastActiveAt = Date.now();
+        broadcastUsersCount(room.id);
+
+        // Agree on how element lists are encoded before sending any
+        const codec = parseHandshakeCodec(socket.handshake.auth);
+        setWireCodec(socket, codec);
+        socket.emit('session:codec', codec);
 
-        // Send initial canvas state immediately on connection
-        const canvasState = strokeStorage.getCanvasState();
-        const visibleElements = canvasState.elements.filter(e => !e.isDeleted);
-        console.log('[SocketServer] Sending scene:init with', canvasState.elements.length, 'elements to', socket.id);
-        console.log('[SocketServer] Visible elements:', visibleElements.length, 'Deleted:', canvasState.elements.length - visibleElements.length);
-        if (canvasState.elements.length > 0) {
-            console.log('[SocketServer] First element:', canvasState.elements[0].type, 'isDeleted:', canvasState.elements[0].isDeleted);
+        const initialViewport = parseHandshakeViewport(socket.handshake.auth);
+        if (initialViewport) {
+            socketViewports.set(socket.id, expandViewport(initialViewport));
+        }
+
+        // A reconnecting client only needs what it missed, if we still have it
+        const resume = parseResumeAuth(socket.handshake.auth);
+        const missed = resume ? room.sceneLog.getSince(resume.epoch, resume.lastSeq) : null;
+        if (resume && missed) {
+            // Not filtered by viewport: the client may still hold old copies of elements that moved out of view
+            console.log('[SocketServer] Resuming', socket.id, 'from seq', resume.lastSeq, 'with', missed.length, 'elements');
+            socket.emit('scene:catchup', {
+                ...room.sceneLog.getPosition(),
+                elements: encodeElements(socket, missed),
+                pins: room.storage.getPins(),
+                artistCount: room.storage.getUniqueArtistCount()
+            });
+        } else {
+            // Send initial canvas state immediately on connection
+            const sceneInit = getSceneInitData(room, socket.id);
+            const visibleElements = sceneInit.elements.filter(e => !e.isDeleted);
+            console.log('[SocketServer] Sending scene:init with', sceneInit.elements.length, 'elements to', socket.id,
+                resume ? '(resume gap too old)' : '');
+            console.log('[SocketServer] Visible elements:', visibleElements.length, 'Deleted:', sceneInit.elements.length - visibleElements.length);
+            socket.emit('scene:init', { ...sceneInit, elements: encodeElements(socket, sceneInit.elements) });
+        }
+        socket.emit('ink:state', inkLedger.getState(deviceId));
+
+        // Sent back even when unchanged, so the browser can save a name we picked
+        let profile = parseHandshakeProfile(socket.handshake.auth);
+        socket.emit('profile:set', profile);
+        emitFollowerCounts(room.id); // Another tab of this device may already be followed
+
+        // Admins signed in to the dashboard get moderation tools on the canvas
+        const adminSession = getAdminSessionFromCookieHeader(socket.handshake.headers.cookie);
+        if (adminSession && verifyAdminSession(adminSession)) {
+            moderatorSessions.set(socket.id, adminSession);
+            socket.emit('moderator:status', true);
+            console.log('[SocketServer] Moderator connected:', socket.id);
+        }
+        const isModerator = () => isModeratorSocket(socket.id);
+
+        socket.emit('host:state', getPublicHostState(room.host, room.storage.getHostKeyHash() !== null));
+        if (isRoomHost(room, socket.id)) {
+            socket.emit('host:status', true);
         }
-        socket.emit('scene:init', {
-            elements: canvasState.elements,
-            startTime: canvasState.startTime,
-            artistCount: canvasState.artistCount
-        });
 
         // Handle canvas sync request (full sync)
         socket.on('scene:request-sync', () => {
             console.log('[SocketServer] Canvas sync requested by:', socket.id);
-            const elements = strokeStorage.getAllElements();
-            socket.emit('scene:sync', elements);
+            socket.emit('scene:sync', {
+                ...room.sceneLog.getPosition(),
+                elements: encodeElements(socket, getVisibleElements(room, socket.id))
+            });
+        });
+
+        // Client scrolled or zoomed — stream what came into view and scope future updates
+        socket.on('viewport:update', (payload) => {
+            if (!viewportLimiter.consume(socket.id)) return;
+
+            const bounds = validateViewportBounds(payload);
+            if (!bounds) return;
+
+            const previous = socketViewports.get(socket.id);
+            const viewport = expandViewport(bounds);
+            socketViewports.set(socket.id, viewport);
+
+            // Anything in the old viewport is already up to date on the client
+            const entering = room.storage.getElementsInBounds(viewport)
+                .filter(el => !previous || !boundsIntersect(previous, getElementBounds(el)));
+            if (entering.length > 0) {
+                socket.emit('scene:region', { elements: encodeElements(socket, entering) });
+            }
         });
 
         // Handle scene updates (incremental or batch)
-        socket.on('scene:update', (elements) => {
-            if (elements && Array.isArray(elements)) {
-                // Update storage
-                strokeStorage.updateElements(elements);
-
-                // Track unique artist — only broadcast when it's a NEW session
-                const isNewArtist = strokeStorage.markSessionAsDrawn(socket.id);
-                if (isNewArtist) {
-                    broadcastArtistsCount();
-                }
+        socket.on('scene:update', (payload) => {
+            if (isOversizedSceneUpdate(payload)) {
+                emitServerError(socket, {
+                    event: 'scene:update',
+                    code: 'invalid_payload',
+                    message: `Update rejected: packed data is over ${MAX_PACKED_UPDATE_BYTES} bytes`,
+                });
+                return;
+            }
+            if (!sceneUpdateLimiters.socket.consume(socket.id) || !sceneUpdateLimiters.ip.consume(clientIp)) {
+                emitServerError(socket, {
+                    event: 'scene:update',
+                    code: 'rate_limited',
+                    message: 'You are drawing too fast — some changes were not saved.',
+                });
+                return;
+            }
+
+            const { valid: elements, invalidCount, reason } = validateSceneUpdate(readSceneUpdatePayload(payload));
+            if (invalidCount > 0 || reason) {
+                console.warn('[SocketServer] Dropped', invalidCount, 'invalid elements from', socket.id, '-', reason);
+                emitServerError(socket, {
+                    event: 'scene:update',
+                    code: 'invalid_payload',
+                    message: `Update rejected: ${reason}`,
+                });
+            }
+            if (elements.length === 0) return;
 
-                // Broadcast to other clients (exclude sender)
-                socket.broadcast.emit('scene:update', {
-                    userId: socket.id,
+            // The host paused drawing: refuse the whole batch so the sender rolls it back
+            if (room.host.frozen && !isRoomHost(room, socket.id)) {
+                emitServerError(socket, {
+                    event: 'scene:update',
+                    code: 'frozen',
+                    message: 'The host has paused drawing.',
+                });
+                socket.emit('scene:rejected', {
+                    rejections: elements.map(el => ({ id: el.id, reason: 'frozen' as const })),
                     elements: elements
+                        .map(el => room.storage.getElement(el.id))
+                        .filter((el): el is ExcalidrawElement => el !== undefined)
+                });
+                return;
+            }
+
+            // Strokes in a color or size the canvas schedule doesn't allow right now
+            const paletteRule = room.storage.getPaletteRule();
+            const offPalette = paletteRule
+                ? elements.filter(el => breaksPaletteRule(paletteRule, el, room.storage.getElement(el.id)))
+                : [];
+            if (offPalette.length > 0) {
+                console.warn('[SocketServer] Rejected', offPalette.length, 'off-palette elements from', socket.id);
+                emitServerError(socket, {
+                    event: 'scene:update',
+                    code: 'palette',
+                    message: paletteRule?.name
+                        ? `That color or size isn't allowed right now: ${paletteRule.name}`
+                        : "That color or size isn't allowed right now.",
                 });
             }
+            const onPalette = elements.filter(el => !offPalette.includes(el));
+
+            // Colors and tools the host turned off; the toolbar hides them, this stops modified clients
+            const offLimits = isRoomHost(room, socket.id)
+                ? []
+                : onPalette.filter(el => breaksHostRestrictions(room.host, el, room.storage.getElement(el.id)));
+            if (offLimits.length > 0) {
+                console.warn('[SocketServer] Rejected', offLimits.length, 'host-restricted elements from', socket.id);
+                emitServerError(socket, {
+                    event: 'scene:update',
+                    code: 'host_limits',
+                    message: 'The host has turned off that color or tool.',
+                });
+            }
+            const allowed = onPalette.filter(el => !offLimits.includes(el));
+
+            // Drop elements older than what we already have (slow or replayed clients)
+            const stale = allowed.filter(el => room.storage.isStale(el));
+            const fresh = allowed.filter(el => !room.storage.isStale(el));
+
+            // Charge ink server-side — the client's InkManager is only advisory
+            const { accepted, rejected, state } = inkLedger.charge(
+                deviceId,
+                fresh,
+                (id) => room.storage.getElement(id)
+            );
+            socket.emit('ink:state', state);
+
+            if (rejected.length > 0) {
+                console.warn('[SocketServer] Rejected', rejected.length, 'over-budget elements from', socket.id);
+                emitServerError(socket, {
+                    event: 'scene:update',
+                    code: 'ink_depleted',
+                    message: 'Out of ink — wait a moment for it to refill.',
+                });
+            }
+
+            // Tell the sender exactly which elements were refused, with our copy to roll back to
+            if (offPalette.length > 0 || offLimits.length > 0 || stale.length > 0 || rejected.length > 0) {
+                const rejectedIds = [...offPalette, ...offLimits, ...stale, ...rejected].map(el => el.id);
+                socket.emit('scene:rejected', {
+                    rejections: [
+                        ...offPalette.map(el => ({ id: el.id, reason: 'palette' as const })),
+                        ...offLimits.map(el => ({ id: el.id, reason: 'host_limits' as const })),
+                        ...stale.map(el => ({ id: el.id, reason: 'stale' as const })),
+                        ...rejected.map(el => ({ id: el.id, reason: 'ink_depleted' as const })),
+                    ],
+                    elements: rejectedIds
+                        .map(id => room.storage.getElement(id))
+                        .filter((el): el is ExcalidrawElement => el !== undefined)
+                });
+            }
+            if (accepted.length === 0) return;
+
+            // Server time of the stroke, carried with it everywhere (fading, replay)
+            const stamped = room.storage.stamp(accepted);
+
+            // Update storage
+            const previousBounds = capturePreviousBounds(room, stamped);
+            room.storage.updateElements(stamped);
+            room.lastActiveAt = Date.now();
+
+            // Track unique artist — only broadcast when it's a NEW device
+            const isNewArtist = room.storage.markArtistAsDrawn(deviceId);
+            if (isNewArtist) {
+                bus?.publish({ type: 'artist', room: room.id, artistId: deviceId });
+                broadcastArtistsCount(room);
+            }
+
+            // Broadcast to other clients viewing this area (exclude sender), here and on other nodes
+            emitSceneUpdate(room.id, {
+                userId: socket.id,
+                elements: stamped,
+                seq: room.sceneLog.append(stamped)
+            }, previousBounds, socket.id);
+            bus?.publish({ type: 'scene:update', room: room.id, userId: socket.id, elements: stamped });
         });
 
-        // Handle cursor movement
-        socket.on('cursor:move', (cursor: CursorData) => {
-            userCursors.set(cursor.userId, { cursor, socketId: socket.id });
-            socket.broadcast.emit('cursor:update', cursor);
+        // Moderation: clear everything touching a rectangle
+        socket.on('moderation:delete-region', (payload) => {
+            const result: ModerationResult = { action: 'delete-region', affected: 0 };
+            const bounds = validateViewportBounds(payload);
+            if (!isModerator()) {
+                result.error = 'Not authorized';
+            } else if (!bounds) {
+                result.error = 'Invalid region';
+            } else {
+                result.affected = applyModeration(room, room.storage.buildRegionDeletion(bounds));
+                console.log('[SocketServer] Moderator', socket.id, 'deleted', result.affected, 'elements in', bounds);
+            }
+            socket.emit('moderation:result', result);
+        });
+
+        // Moderation: restore a rectangle to how it looked earlier in this cycle
+        socket.on('moderation:rollback-region', (payload) => {
+            const result: ModerationResult = { action: 'rollback-region', affected: 0 };
+            const bounds = validateViewportBounds(payload?.bounds);
+            const timestamp = payload?.timestamp;
+            if (!isModerator()) {
+                result.error = 'Not authorized';
+            } else if (!bounds) {
+                result.error = 'Invalid region';
+            } else if (typeof timestamp !== 'number' || timestamp < room.storage.getCanvasState().startTime || timestamp > Date.now()) {
+                result.error = 'Time must be within the current canvas cycle';
+            } else {
+                result.affected = applyModeration(room, room.storage.buildRegionRollback(bounds, timestamp));
+                console.log('[SocketServer] Moderator', socket.id, 'rolled back', result.affected, 'elements in', bounds,
+                    'to', new Date(timestamp).toISOString());
+            }
+            socket.emit('moderation:result', result);
+        });
+
+        // Host controls — each action reports back with host:result and tells the room with host:notice
+        const runHostAction = (action: HostAction, run: () => Omit<HostResult, 'action'> | void) => {
+            const result: HostResult = { action };
+            if (!isRoomHost(room, socket.id)) {
+                result.error = 'Only the host can do that';
+            } else {
+                Object.assign(result, run());
+                console.log('[SocketServer] Host', socket.id, 'in room', room.id, ':', action, result.error ?? '');
+            }
+            socket.emit('host:result', result);
+        };
+
+        socket.on('host:claim', (hostKey) => {
+            const result: HostResult = { action: 'claim' };
+            const hostKeyHash = room.storage.getHostKeyHash();
+            if (room.id === MAIN_ROOM) {
+                result.error = 'Only moderators can host the main canvas';
+            } else if (!hostClaimLimiter.consume(socket.id)) {
+                result.error = 'Too many attempts, try again in a minute';
+            } else if (hostKeyHash && room.host.hostId !== deviceId && !isHostKey(hostKey, hostKeyHash)) {
+                result.error = 'This canvas already has a host';
+            } else {
+                // The first claim makes the key that proves ownership from now on
+                if (!hostKeyHash) {
+                    const created = createHostKey();
+                    room.storage.setHostKeyHash(created.hash);
+                    result.hostKey = created.key;
+                }
+                room.host.hostId = deviceId;
+                broadcastHostState(room, { action: 'claim', message: 'This canvas now has a host.' });
+                console.log('[SocketServer] Device', deviceId, 'is now host of room', room.id);
+            }
+            socket.emit('host:result', result);
+        });
+
+        socket.on('host:freeze', (payload) => {
+            const frozen = payload === true;
+            const action = frozen ? 'freeze' : 'unfreeze';
+            runHostAction(action, () => {
+                room.host.frozen = frozen;
+                broadcastHostState(room, {
+                    action,
+                    message: room.host.frozen ? 'The host paused drawing.' : 'The host resumed drawing.',
+                });
+            });
+        });
+
+        socket.on('host:clear', () => {
+            runHostAction('clear', () => {
+                applyModeration(room, room.storage.buildClear());
+                broadcastHostNotice(room, { action: 'clear', message: 'The host cleared the board.' });
+            });
+        });
+
+        socket.on('host:restrict', (payload) => {
+            runHostAction('restrict', () => {
+                const restrictions = validateHostRestrictions(payload);
+                if (!restrictions) return { error: 'Invalid colors or tools' };
+                room.host.allowedColors = restrictions.allowedColors;
+                room.host.allowedTools = restrictions.allowedTools;
+                const limited = restrictions.allowedColors !== null || restrictions.allowedTools !== null;
+                broadcastHostState(room, {
+                    action: 'restrict',
+                    message: limited ? 'The host changed which colors and tools you can use.' : 'All colors and tools are available again.',
+                });
+            });
+        });
+
+        socket.on('host:grant-ink', (payload) => {
+            runHostAction('grant-ink', () => {
+                const amount = validateInkGrant(payload);
+                if (!amount) return { error: 'Invalid ink amount' };
+                const notice: HostNotice = {
+                    action: 'grant-ink',
+                    message: `The host gave everyone extra ink for ${HOST_INK_GRANT_MS / 60000} minutes.`,
+                };
+                grantRoomInk(room, amount, notice);
+                bus?.publish({ type: 'host:grant-ink', room: room.id, amount, notice });
+            });
+        });
+
+        socket.on('host:archive', () => {
+            if (!isRoomHost(room, socket.id)) {
+                socket.emit('host:result', { action: 'archive', error: 'Only the host can do that' });
+                return;
+            }
+            room.storage.archiveNow()
+                .then(result => {
+                    if (!result.success) {
+                        socket.emit('host:result', { action: 'archive', error: result.reason ?? 'Archive failed' });
+                        return;
+                    }
+                    socket.emit('host:result', { action: 'archive', archiveId: result.archiveId });
+                    broadcastHostNotice(room, { action: 'archive', message: 'The host saved the board to the gallery.' });
+                })
+                .catch(err => {
+                    console.error('[SocketServer] Host archive failed:', err);
+                    socket.emit('host:result', { action: 'archive', error: 'Archive failed' });
+                });
+        });
+
+        // Handle cursor movement — excess moves are dropped silently, they are cosmetic
+        socket.on('cursor:move', (payload) => {
+            if (!cursorMoveLimiters.socket.consume(socket.id) || !cursorMoveLimiters.ip.consume(clientIp)) {
+                return;
+            }
+
+            const validated = validateCursor(payload);
+            if (!validated) return;
+
+            // Cursors always belong to the sending device and carry its profile
+            const cursor: CursorData = { ...validated, userId: deviceId, userName: profile.name, color: profile.color };
+            socketCursors.set(socket.id, { cursor, roomId: room.id });
+            emitCursorUpdate(room.id, cursor, socket.id);
+            bus?.publish({ type: 'cursor:update', room: room.id, cursor });
+        });
+
+        // Name and color changes; a refused name keeps the current one
+        socket.on('profile:update', (payload) => {
+            if (!profileUpdateLimiter.consume(socket.id)) {
+                emitServerError(socket, {
+                    event: 'profile:update',
+                    code: 'rate_limited',
+                    message: 'Too many profile changes - try again in a minute'
+                });
+                return;
+            }
+
+            const requested: ProfileRequest = payload && typeof payload === 'object' ? payload : {};
+            const name = requested.name === undefined ? profile.name : sanitizeProfileName(requested.name);
+            if (!name) {
+                emitServerError(socket, {
+                    event: 'profile:update',
+                    code: 'invalid_payload',
+                    message: 'That name is not allowed - try another'
+                });
+                socket.emit('profile:set', profile);
+                return;
+            }
+            const color = isPresenceColor(requested.color) ? requested.color : profile.color;
+
+            profile = { name, color };
+            socket.emit('profile:set', profile);
+
+            // Relabel our cursor right away instead of on the next move
+            const current = socketCursors.get(socket.id);
+            if (current) {
+                const cursor: CursorData = { ...current.cursor, userName: name, color };
+                socketCursors.set(socket.id, { ...current, cursor });
+                emitCursorUpdate(room.id, cursor, socket.id);
+                bus?.publish({ type: 'cursor:update', room: room.id, cursor });
+            }
+        });
+
+        // Reactions are sent back to the sender too, so everyone sees the same thing
+        socket.on('reaction:add', (payload) => {
+            if (!reactionLimiters.socket.consume(socket.id) || !reactionLimiters.ip.consume(clientIp)) {
+                emitServerError(socket, {
+                    event: 'reaction:add',
+                    code: 'rate_limited',
+                    message: 'Too many reactions - slow down a little'
+                });
+                return;
+            }
+
+            const validated = validateReaction(payload);
+            if (!validated) return;
+
+            const reaction: Reaction = { ...validated, id: crypto.randomUUID(), userId: deviceId };
+            room.storage.countReaction(reaction.emoji);
+            room.lastActiveAt = Date.now();
+            emitReaction(room.id, reaction);
+            bus?.publish({ type: 'reaction:add', room: room.id, reaction });
+        });
+
+        socket.on('pin:add', (payload) => {
+            const result: PinResult = { action: 'add' };
+            const validated = validatePin(payload);
+            if (!validated) {
+                result.error = 'Notes must be one line of up to 80 characters';
+            } else if (!pinAddLimiters.socket.consume(socket.id) || !pinAddLimiters.ip.consume(clientIp)) {
+                result.error = 'Too many notes - wait a little before pinning another';
+            } else {
+                result.error = getPinLimitError(room.storage.getPins(), deviceId) ?? undefined;
+            }
+
+            if (validated && !result.error) {
+                const pin: Pin = { ...validated, id: crypto.randomUUID(), userId: deviceId, createdAt: Date.now() };
+                room.storage.addPin(pin);
+                room.lastActiveAt = Date.now();
+                io?.to(roomChannel(room.id)).emit('pin:add', pin);
+                bus?.publish({ type: 'pin:add', room: room.id, pin });
+                result.pinId = pin.id;
+            }
+            socket.emit('pin:result', result);
+        });
+
+        // Authors can take their notes down; hosts and moderators any note
+        socket.on('pin:remove', (payload) => {
+            const result: PinResult = { action: 'remove' };
+            const pin = typeof payload === 'string' ? room.storage.getPin(payload) : undefined;
+            if (!pin) {
+                result.error = 'That note is already gone';
+            } else if (pin.userId !== deviceId && !isRoomHost(room, socket.id)) {
+                result.error = 'You can only remove your own notes';
+            } else {
+                room.storage.removePin(pin.id);
+                io?.to(roomChannel(room.id)).emit('pin:remove', pin.id);
+                bus?.publish({ type: 'pin:remove', room: room.id, pinId: pin.id });
+                result.pinId = pin.id;
+            }
+            socket.emit('pin:result', result);
+        });
+
+        // Follow another device's view. Clients only send theirs while followed
+        socket.on('follow:start', (userId) => {
+            if (!followChangeLimiter.consume(socket.id)) return;
+            if (typeof userId !== 'string' || !userId || userId.length > ELEMENT_LIMITS.maxIdLength || userId === deviceId) return;
+            socketFollows.set(socket.id, { roomId: room.id, userId });
+            publishPresence();
+            emitFollowerCounts(room.id);
+        });
+
+        socket.on('follow:stop', () => {
+            if (!socketFollows.delete(socket.id)) return;
+            publishPresence();
+            emitFollowerCounts(room.id);
+        });
+
+        socket.on('follow:view', (payload) => {
+            if (!followViewLimiter.consume(socket.id)) return;
+            const validated = validateFollowView(payload);
+            if (!validated) return;
+
+            const localFollowers = getLocalFollowerCount(room.id, deviceId);
+            const remoteFollowers = getRemoteFollowerCount(room.id, deviceId);
+            const view: FollowViewData = { ...validated, userId: deviceId };
+            if (localFollowers > 0) emitFollowView(room.id, view);
+            if (remoteFollowers > 0) bus?.publish({ type: 'follow:view', room: room.id, view });
         });
 
         socket.on('disconnect', () => {
             console.log('[SocketServer] Client disconnected:', socket.id);
 
-            // Remove all cursor entries belonging to this socket
-            for (const [userId, data] of userCursors) {
-                if (data.socketId === socket.id) {
-                    userCursors.delete(userId);
-                    io?.emit('cursor:remove', userId);
-                }
+            // Remove this tab's cursor, unless another tab of the same device still shows it in the room
+            const lastCursor = socketCursors.get(socket.id);
+            socketCursors.delete(socket.id);
+            if (lastCursor && !hasDeviceCursor(lastCursor.roomId, deviceId)) {
+                io?.to(roomChannel(lastCursor.roomId)).emit('cursor:remove', deviceId);
+                bus?.publish({ type: 'cursor:remove', room: lastCursor.roomId, userId: deviceId });
             }
 
-            broadcastUsersCount();
+            inkLedger.prune();
+            sceneUpdateLimiters.socket.prune();
+            sceneUpdateLimiters.ip.prune();
+            cursorMoveLimiters.socket.prune();
+            cursorMoveLimiters.ip.prune();
+            reactionLimiters.socket.prune();
+            reactionLimiters.ip.prune();
+            pinAddLimiters.socket.prune();
+            pinAddLimiters.ip.prune();
+            viewportLimiter.prune();
+            profileUpdateLimiter.prune();
+            followViewLimiter.prune();
+            followChangeLimiter.prune();
+            hostClaimLimiter.prune();
+            socketFollows.delete(socket.id);
+            sentFollowerCounts.delete(socket.id);
+            lastServerErrorAt.delete(socket.id);
+            socketViewports.delete(socket.id);
+            moderatorSessions.delete(socket.id);
+            socketRooms.delete(socket.id);
+            socketDeviceIds.delete(socket.id);
+            if (getLocalRoomSize(room.id) === 0) announcedPaletteRules.delete(room.id);
+            room.lastActiveAt = Date.now();
+
+            broadcastUsersCount(room.id);
+            emitFollowerCounts(room.id);
         });
     });
 
     // Set up canvas reset scheduler
     setupResetScheduler();
+    setupPaletteRuleWatcher();
 
     console.log('[SocketServer] Handlers attached successfully');
 }
 
-function broadcastUsersCount() {
-    if (io) {
-        const count = io.engine.clientsCount;
-        io.emit('users:count', count);
-        console.log('[SocketServer] Broadcasting users count:', count);
+// Scene state for a client — scoped to its viewport when a socket id is given
+function getSceneInitData(room: CanvasRoom, socketId?: string): SceneInitData {
+    const canvasState = room.storage.getCanvasState();
+    return {
+        ...room.sceneLog.getPosition(),
+        elements: socketId ? getVisibleElements(room, socketId) : canvasState.elements,
+        startTime: canvasState.startTime,
+        nextResetAt: canvasState.nextResetAt,
+        prompt: canvasState.prompt,
+        paletteRule: canvasState.paletteRule,
+        strokeLifetimeMs: canvasState.strokeLifetimeMs,
+        pins: canvasState.pins,
+        artistCount: canvasState.artistCount
+    };
+}
+
+async function startCluster(clusterBus: ClusterBus, leaderElection: LeaderElection): Promise<void> {
+    clusterBus.subscribe(handleClusterMessage);
+    await clusterBus.start();
+    await leaderElection.start();
+    console.log('[SocketServer] Cluster bus:', clusterBus.name, '| Node:', clusterBus.nodeId,
+        '| Election:', leaderElection.name, '| Leader:', leaderElection.isLeader());
+
+    // Catch up on anything the last persisted snapshot missed, and announce ourselves
+    clusterBus.publish({ type: 'sync:request', room: MAIN_ROOM });
+    publishPresence();
+    setInterval(publishPresence, PRESENCE_HEARTBEAT_MS);
+}
+
+/**
+ * Run a relayed event against a room's local copy. The leader loads rooms it
+ * doesn't have, since it owns persistence; other nodes only keep the rooms
+ * their own clients are in, and ignore the rest.
+ */
+function withRoom(roomId: string, apply: (room: CanvasRoom) => void): void {
+    const room = roomRegistry.get(roomId);
+    if (room) {
+        room.lastActiveAt = Date.now();
+        apply(room);
+    } else if (election?.isLeader()) {
+        roomRegistry.open(roomId)
+            .then(apply)
+            .catch(err => console.error('[SocketServer] Failed to open room', roomId, 'for a cluster message:', err));
+    }
+}
+
+// Apply an event relayed from another node to local state and local clients
+function handleClusterMessage(message: ClusterMessage, fromNodeId: string): void {
+    switch (message.type) {
+        case 'scene:update':
+            withRoom(message.room, room => {
+                // Concurrent edits on two nodes: only relay what won reconciliation here
+                const previousBounds = capturePreviousBounds(room, message.elements);
+                const applied = room.storage.updateElements(message.elements);
+                if (applied.length > 0) {
+                    emitSceneUpdate(room.id, {
+                        userId: message.userId,
+                        elements: applied,
+                        seq: room.sceneLog.append(applied)
+                    }, previousBounds);
+                }
+            });
+            break;
+        case 'cursor:update':
+            emitCursorUpdate(message.room, message.cursor);
+            break;
+        case 'follow:view':
+            emitFollowView(message.room, message.view);
+            break;
+        case 'cursor:remove':
+            io?.to(roomChannel(message.room)).emit('cursor:remove', message.userId);
+            break;
+        case 'reaction:add':
+            // Counted everywhere, so the leader's archive has every reaction
+            withRoom(message.room, room => room.storage.countReaction(message.reaction.emoji));
+            emitReaction(message.room, message.reaction);
+            break;
+        case 'pin:add':
+            withRoom(message.room, room => {
+                room.storage.addPin(message.pin);
+                io?.to(roomChannel(room.id)).emit('pin:add', message.pin);
+            });
+            break;
+        case 'pin:remove':
+            withRoom(message.room, room => {
+                if (room.storage.removePin(message.pinId)) {
+                    io?.to(roomChannel(room.id)).emit('pin:remove', message.pinId);
+                }
+            });
+            break;
+        case 'artist':
+            withRoom(message.room, room => {
+                if (room.storage.markArtistAsDrawn(message.artistId)) {
+                    broadcastArtistsCount(room);
+                }
+            });
+            break;
+        case 'presence':
+            remotePresence.set(fromNodeId, { rooms: message.rooms, followers: message.followers ?? {}, at: Date.now() });
+            emitUsersCount();
+            emitFollowerCounts();
+            break;
+        case 'scene:reset': {
+            const room = roomRegistry.get(message.room);
+            if (room) {
+                room.storage.applyRemoteReset(message.canvasStartTime, message.prompt);
+                room.sceneLog.reset();
+                io?.to(roomChannel(room.id)).emit('scene:init', getSceneInitData(room));
+            }
+            break;
+        }
+        case 'host:state':
+            withRoom(message.room, room => {
+                room.host = message.state;
+                room.storage.setHostKeyHash(message.hostKeyHash);
+                emitHostState(room, message.notice);
+            });
+            break;
+        case 'host:notice':
+            io?.to(roomChannel(message.room)).emit('host:notice', message.notice);
+            break;
+        case 'host:grant-ink': {
+            const room = roomRegistry.get(message.room);
+            if (room) grantRoomInk(room, message.amount, message.notice);
+            break;
+        }
+        case 'sync:request':
+            // Every node reports its clients; only the leader ships the canvas
+            publishPresence();
+            if (election?.isLeader()) {
+                withRoom(message.room, room => {
+                    bus?.publish({
+                        type: 'sync:state',
+                        room: room.id,
+                        targetNodeId: fromNodeId,
+                        state: room.storage.getSnapshot(),
+                        host: room.host
+                    });
+                });
+            }
+            break;
+        case 'sync:state': {
+            const room = message.targetNodeId === bus?.nodeId ? roomRegistry.get(message.room) : undefined;
+            if (!room) break;
+            // The snapshot carries the host key, so merge it before announcing the host state
+            const changed = room.storage.mergeSnapshot(message.state);
+            room.host = message.host;
+            emitHostState(room, null);
+            if (changed) {
+                console.log('[SocketServer] Caught up room', room.id, 'from node', fromNodeId);
+                // Merged elements aren't in the log, so positions from before this are stale
+                room.sceneLog.reset();
+                getRoomSockets(room.id).forEach(target => {
+                    target.emit('scene:sync', {
+                        ...room.sceneLog.getPosition(),
+                        elements: encodeElements(target, getVisibleElements(room, target.id))
+                    });
+                });
+                broadcastArtistsCount(room);
+            }
+            break;
+        }
+    }
+}
+
+function publishPresence() {
+    if (!io || !bus) return;
+    const rooms: Record<string, number> = {};
+    for (const room of roomRegistry.list()) {
+        const size = getLocalRoomSize(room.id);
+        if (size > 0) rooms[room.id] = size;
+    }
+    const followers: Record<string, Record<string, number>> = {};
+    socketFollows.forEach(({ roomId, userId }) => {
+        const counts = followers[roomId] ?? (followers[roomId] = {});
+        counts[userId] = (counts[userId] ?? 0) + 1;
+    });
+    bus.publish({ type: 'presence', rooms, followers });
+}
+
+// Forget the presence of nodes that stopped reporting
+function pruneRemotePresence() {
+    const now = Date.now();
+    for (const [nodeId, presence] of remotePresence) {
+        if (now - presence.at > PRESENCE_TTL_MS) remotePresence.delete(nodeId);
+    }
+}
+
+// Clients in a room across the cluster: ours plus what the other nodes last reported
+function getClusterRoomSize(roomId: string): number {
+    let count = getLocalRoomSize(roomId);
+    remotePresence.forEach(presence => {
+        count += presence.rooms[roomId] ?? 0;
+    });
+    return count;
+}
+
+// Emit the cluster-wide user count of a room (or of every loaded room) to its local clients
+function emitUsersCount(roomId?: string) {
+    if (!io) return;
+    pruneRemotePresence();
+
+    const roomIds = roomId ? [roomId] : roomRegistry.list().map(room => room.id);
+    for (const id of roomIds) {
+        if (getLocalRoomSize(id) === 0) continue; // Nobody here to tell
+        const count = getClusterRoomSize(id);
+        io.to(roomChannel(id)).emit('users:count', count);
+        console.log('[SocketServer] Broadcasting users count for room', id, ':', count);
     }
 }
 
-function broadcastArtistsCount() {
+function getLocalFollowerCount(roomId: string, userId: string): number {
+    let count = 0;
+    socketFollows.forEach(follow => {
+        if (follow.roomId === roomId && follow.userId === userId) count++;
+    });
+    return count;
+}
+
+function getRemoteFollowerCount(roomId: string, userId: string): number {
+    let count = 0;
+    remotePresence.forEach(presence => {
+        count += presence.followers[roomId]?.[userId] ?? 0;
+    });
+    return count;
+}
+
+// Tell local sockets in a room (or every loaded room) how many people follow their device, if that changed
+function emitFollowerCounts(roomId?: string) {
+    const roomIds = roomId ? [roomId] : roomRegistry.list().map(room => room.id);
+    for (const id of roomIds) {
+        for (const target of getRoomSockets(id)) {
+            const deviceId = socketDeviceIds.get(target.id);
+            if (!deviceId) continue;
+            const count = getLocalFollowerCount(id, deviceId) + getRemoteFollowerCount(id, deviceId);
+            if (count === (sentFollowerCounts.get(target.id) ?? 0)) continue;
+            sentFollowerCounts.set(target.id, count);
+            target.emit('follow:count', count);
+        }
+    }
+}
+
+// Pass a followed device's view to the local sockets following it
+function emitFollowView(roomId: string, view: FollowViewData) {
+    socketFollows.forEach((follow, socketId) => {
+        if (follow.roomId === roomId && follow.userId === view.userId) {
+            io?.sockets.sockets.get(socketId)?.emit('follow:view', view);
+        }
+    });
+}
+
+// Local connection count changed — tell other nodes and local clients
+function broadcastUsersCount(roomId: string) {
+    publishPresence();
+    emitUsersCount(roomId);
+}
+
+function broadcastArtistsCount(room: CanvasRoom) {
     if (io) {
-        const count = strokeStorage.getUniqueArtistCount();
-        io.emit('artists:count', count);
-        console.log('[SocketServer] Broadcasting unique artists count:', count);
+        const count = room.storage.getUniqueArtistCount();
+        io.to(roomChannel(room.id)).emit('artists:count', count);
+        console.log('[SocketServer] Broadcasting unique artists count for room', room.id, ':', count);
     }
 }
 
-export async function resetCanvas(): Promise<any> {
+export async function resetCanvas(roomId: string = MAIN_ROOM): Promise<any> {
     // Always attempt to reset storage (archive + clear)
     // This allows API routes to trigger archival even if they don't have access to the 'io' instance
     // (which might happen due to module isolation in Next.js)
-    console.log('[SocketServer] resetCanvas triggered. IO available:', !!io);
+    console.log('[SocketServer] resetCanvas triggered for room', roomId, '| IO available:', !!io);
+
+    const room = roomRegistry.get(roomId);
+    if (!room) {
+        return { success: false, reason: `Room ${roomId} is not loaded` };
+    }
 
     let result;
     try {
-        result = await strokeStorage.reset();
+        result = await room.storage.reset();
     } catch (err) {
         console.error('[SocketServer] Error resetting storage:', err);
         return { success: false, reason: `Storage reset failed: ${err}` };
     }
 
+    room.sceneLog.reset();
+
+    // Other nodes clear their copy without archiving again
+    const { startTime, prompt } = room.storage.getCanvasState();
+    bus?.publish({ type: 'scene:reset', room: room.id, canvasStartTime: startTime, prompt });
+
     if (io) {
         // We reuse scene:init logic or add specific reset event
         // But for compatibility let's just send empty sync + init
-        const canvasState = strokeStorage.getCanvasState();
-        io.emit('scene:init', {
-            elements: canvasState.elements,
-            startTime: canvasState.startTime,
-            artistCount: canvasState.artistCount
-        });
+        io.to(roomChannel(room.id)).emit('scene:init', getSceneInitData(room));
         console.log('[SocketServer] Canvas reset broadcast to clients');
     } else {
         console.warn('[SocketServer] IO not available, skipping broadcast');
@@ -153,22 +1227,67 @@ export async function resetCanvas(): Promise<any> {
 
 // Check for canvas reset and broadcast state
 function setupResetScheduler(): void {
-    // Check for reset every minute
+    // Check for reset every second, so it lands when the clients' countdown
+    // (scene:init nextResetAt) hits zero — only on the leader, so a cluster archives once
+    const resetting = new Set<string>();
     setInterval(() => {
-        if (strokeStorage.shouldReset()) {
-            console.log('[SocketServer] Canvas reset triggered by scheduler');
-            resetCanvas().catch(err => console.error('[SocketServer] Error in scheduled reset:', err));
+        if (!election?.isLeader()) return;
+        for (const room of roomRegistry.list()) {
+            if (resetting.has(room.id) || !room.storage.shouldReset()) continue;
+
+            console.log('[SocketServer] Canvas reset triggered by scheduler for room', room.id);
+            resetting.add(room.id);
+            resetCanvas(room.id)
+                .catch(err => console.error('[SocketServer] Error in scheduled reset:', err))
+                .finally(() => { resetting.delete(room.id); });
         }
-    }, 60 * 1000); // Check every minute
+    }, 1000);
+
+    setInterval(() => {
+        if (election?.isLeader() && bus?.name === 'postgres') {
+            databaseService.pruneClusterMessages(CLUSTER_MESSAGE_TTL_MS);
+        }
+        // Every node drops faded strokes from its own copy; clients fade them out on their own
+        for (const room of roomRegistry.list()) {
+            const collected = room.storage.collectFaded();
+            if (collected > 0) console.log('[SocketServer] Collected', collected, 'faded elements in room', room.id);
+        }
+        // A room stays loaded while anyone in the cluster is in it, not just clients of this node
+        pruneRemotePresence();
+        roomRegistry.unloadIdle(roomId => getClusterRoomSize(roomId) > 0 || resetting.has(roomId), ROOM_IDLE_MS)
+            .catch(err => console.error('[SocketServer] Error unloading idle rooms:', err));
+    }, 60 * 1000); // Every minute
 
     // We don't perform periodic broadcast for Excalidraw as it relies on event sourcing
     // But we could strictly sync clock
 }
 
+/**
+ * Tell clients when a scheduled palette rule starts or ends mid-cycle. Every
+ * node checks its own rooms: the schedule is the same everywhere, so nothing
+ * needs relaying. New cycles send their rule in scene:init.
+ */
+function setupPaletteRuleWatcher(): void {
+    setInterval(() => {
+        for (const room of roomRegistry.list()) {
+            if (getLocalRoomSize(room.id) === 0) continue;
+            const rule = room.storage.getPaletteRule();
+            const key = JSON.stringify(rule);
+            const previous = announcedPaletteRules.get(room.id);
+            announcedPaletteRules.set(room.id, key);
+            // The first check only records what clients already got in scene:init
+            if (previous === undefined || previous === key) continue;
+
+            console.log('[SocketServer] Palette rule for room', room.id, 'is now', rule?.name ?? (rule ? 'unnamed' : 'none'));
+            io?.to(roomChannel(room.id)).emit('palette:rule', rule);
+        }
+    }, 1000);
+}
+
 export function getSocketServer(): SocketIOServer | null {
     return io;
 }
 
-export function getCanvasInfo() {
-    return strokeStorage.getCanvasInfo();
+export function getCanvasInfo(roomId: string = MAIN_ROOM) {
+    return roomRegistry.get(roomId)?.storage.getCanvasInfo() ?? null;
 }
@@ -0,0 +1,141 @@
+import { Bounds, ExcalidrawElement } from '../types';
+
+/**
+ * Uniform grid over element bounding boxes, so the server can answer
+ * "which elements are in this viewport" without scanning the whole canvas.
+ */
+
+// Scene-space bounding box of an element (point-based elements use their points)
+export function getElementBounds(element: ExcalidrawElement): Bounds {
+    if ((element.type === 'freedraw' || element.type === 'line' || element.type === 'arrow') &&
+        Array.isArray(element.points) && element.points.length > 0) {
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (const [px, py] of element.points) {
+            if (px < minX) minX = px;
+            if (py < minY) minY = py;
+            if (px > maxX) maxX = px;
+            if (py > maxY) maxY = py;
+        }
+        return { minX: element.x + minX, minY: element.y + minY, maxX: element.x + maxX, maxY: element.y + maxY };
+    }
+
+    // Width/height can be negative while a shape is dragged up or left
+    const x2 = element.x + (element.width || 0);
+    const y2 = element.y + (element.height || 0);
+    return {
+        minX: Math.min(element.x, x2),
+        minY: Math.min(element.y, y2),
+        maxX: Math.max(element.x, x2),
+        maxY: Math.max(element.y, y2),
+    };
+}
+
+export function boundsIntersect(a: Bounds, b: Bounds): boolean {
+    return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
+
+export function boundsContainPoint(bounds: Bounds, x: number, y: number): boolean {
+    return x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY;
+}
+
+export class SpatialIndex {
+    private cells: Map<string, Set<string>> = new Map();
+    private elementBounds: Map<string, Bounds> = new Map();
+    private elementCells: Map<string, string[]> = new Map();
+    // Elements spanning too many cells are kept out of the grid and always checked directly
+    private oversized: Set<string> = new Set();
+
+    constructor(
+        private readonly cellSize = 1000,
+        private readonly maxCellsPerElement = 256
+    ) {}
+
+    private cellRange(bounds: Bounds) {
+        return {
+            minCX: Math.floor(bounds.minX / this.cellSize),
+            minCY: Math.floor(bounds.minY / this.cellSize),
+            maxCX: Math.floor(bounds.maxX / this.cellSize),
+            maxCY: Math.floor(bounds.maxY / this.cellSize),
+        };
+    }
+
+    upsert(element: ExcalidrawElement): void {
+        this.remove(element.id);
+
+        const bounds = getElementBounds(element);
+        this.elementBounds.set(element.id, bounds);
+
+        const { minCX, minCY, maxCX, maxCY } = this.cellRange(bounds);
+        if ((maxCX - minCX + 1) * (maxCY - minCY + 1) > this.maxCellsPerElement) {
+            this.oversized.add(element.id);
+            return;
+        }
+
+        const keys: string[] = [];
+        for (let cx = minCX; cx <= maxCX; cx++) {
+            for (let cy = minCY; cy <= maxCY; cy++) {
+                const key = `${cx}:${cy}`;
+                let cell = this.cells.get(key);
+                if (!cell) {
+                    cell = new Set();
+                    this.cells.set(key, cell);
+                }
+                cell.add(element.id);
+                keys.push(key);
+            }
+        }
+        this.elementCells.set(element.id, keys);
+    }
+
+    remove(id: string): void {
+        this.elementBounds.delete(id);
+        this.oversized.delete(id);
+        const keys = this.elementCells.get(id);
+        if (!keys) return;
+        keys.forEach(key => {
+            const cell = this.cells.get(key);
+            cell?.delete(id);
+            if (cell && cell.size === 0) this.cells.delete(key);
+        });
+        this.elementCells.delete(id);
+    }
+
+    getBounds(id: string): Bounds | undefined {
+        return this.elementBounds.get(id);
+    }
+
+    // Ids of elements whose bounding box intersects `bounds`
+    query(bounds: Bounds): string[] {
+        const { minCX, minCY, maxCX, maxCY } = this.cellRange(bounds);
+        const result = new Set<string>();
+
+        if ((maxCX - minCX + 1) * (maxCY - minCY + 1) > this.cells.size) {
+            // Very zoomed out: cheaper to check every element than every cell in range
+            for (const [id, elementBounds] of this.elementBounds) {
+                if (boundsIntersect(bounds, elementBounds)) result.add(id);
+            }
+            return Array.from(result);
+        }
+
+        for (let cx = minCX; cx <= maxCX; cx++) {
+            for (let cy = minCY; cy <= maxCY; cy++) {
+                this.cells.get(`${cx}:${cy}`)?.forEach(id => {
+                    if (!result.has(id) && boundsIntersect(bounds, this.elementBounds.get(id)!)) {
+                        result.add(id);
+                    }
+                });
+            }
+        }
+        this.oversized.forEach(id => {
+            if (boundsIntersect(bounds, this.elementBounds.get(id)!)) result.add(id);
+        });
+        return Array.from(result);
+    }
+
+    clear(): void {
+        this.cells.clear();
+        this.elementBounds.clear();
+        this.elementCells.clear();
+        this.oversized.clear();
+    }
+}
@@ -1,18 +1,56 @@
-import { ExcalidrawElement } from '../types';
+import { Bounds, ExcalidrawElement, PaletteRule, Pin, ReactionCounts, ReactionEmoji } from '../types';
 import fs from 'fs';
 import path from 'path';
 import { databaseService } from './DatabaseService';
+import { CanvasPersistence, CanvasSnapshot, createCanvasPersistence } from './CanvasPersistence';
+import { SpatialIndex, boundsIntersect, getElementBounds } from './SpatialIndex';
+import { TimelapseRecorder } from './TimelapseRecorder';
+import { ArchiveThumbnail, renderArchiveThumbnail } from './archiveRenderer';
+import { ResetSchedule, describeResetSchedule, getLocalDate, getLocalMinuteOfDay, getNextResetTime, getRoomResetSchedule } from './resetSchedule';
+import { promptQueue } from './PromptQueue';
+import { fadeElements, getStrokeTimes, isFaded, parseStrokeLifetime, stampElements } from './strokeDecay';
+import { paletteSchedule } from './PaletteSchedule';
+import { addReaction, mergeReactionCounts } from './reactions';
+import { MAIN_ROOM } from './roomUtils';
 
-// In-memory element storage
-class StrokeStorage {
+// In-memory element storage of one room, backed by a persistence layer so it survives restarts
+export class StrokeStorage {
     private elements: Map<string, ExcalidrawElement> = new Map();
     private canvasStartTime: number = Date.now();
     private uniqueArtists: Set<string> = new Set();
-    private readonly resetIntervalMs = 24 * 60 * 60 * 1000; // 24 hours
+    // Notes pinned this cycle, and how often each emoji was used (see reactions)
+    private pins: Map<string, Pin> = new Map();
+    private reactionCounts: ReactionCounts = {};
+    // Hash of the room's host key; outlives cycles (see hostControls)
+    private hostKeyHash: string | null = null;
+    // Bounding boxes of all elements, for viewport-scoped streaming
+    private readonly spatialIndex = new SpatialIndex();
+    // Change history of this cycle, archived for replay
+    private readonly timelapse = new TimelapseRecorder(this.canvasStartTime);
+    // This room's own schedule, or the default one (see resetSchedule)
+    private readonly resetSchedule: ResetSchedule;
+    // Next reset of the current cycle, recomputed when the start time changes
+    private nextReset: { startTime: number; at: number } | null = null;
+    // How long strokes take to fade out, null when they don't (see strokeDecay)
+    private readonly strokeLifetimeMs = parseStrokeLifetime();
+    // Theme of the current cycle, picked when it starts (see PromptQueue)
+    private prompt: string | null;
     private readonly archivesDir = path.join(process.cwd(), 'public', 'archives');
+    private readonly persistence: CanvasPersistence;
+    private readonly flushIntervalMs = 5000;
+    private flushTimer: NodeJS.Timeout | null = null;
+    // Persistence writes run one after another, so a slow compaction never interleaves with an append
+    private writeQueue: Promise<void> = Promise.resolve();
+    private writesQueued = 0;
+    // In a cluster only the leader writes snapshots (see LeaderElection)
+    private isPersistenceOwner: () => boolean = () => true;
 
-    constructor() {
-        console.log('[StrokeStorage] Initialized at:', new Date(this.canvasStartTime).toISOString());
+    constructor(readonly roomId: string = MAIN_ROOM) {
+        this.resetSchedule = getRoomResetSchedule(roomId);
+        this.prompt = this.pickPrompt(this.canvasStartTime);
+        this.persistence = createCanvasPersistence(roomId);
+        console.log('[StrokeStorage] Room', roomId, 'initialized at:', new Date(this.canvasStartTime).toISOString(),
+            '| Resets', describeResetSchedule(this.resetSchedule), '| Prompt:', this.prompt ?? 'none');
         if (!fs.existsSync(this.archivesDir)) {
             try {
                 fs.mkdirSync(this.archivesDir, { recursive: true });
@@ -22,21 +60,232 @@ class StrokeStorage {
         }
     }
 
-    // Update elements (upsert)
-    updateElements(elements: readonly ExcalidrawElement[]): void {
-        elements.forEach(element => {
+    /**
+     * Restore the live canvas saved before the last shutdown and start
+     * periodic flushing. Call once at server boot, before accepting sockets.
+     */
+    async restore(): Promise<void> {
+        try {
+            const snapshot = await this.persistence.load();
+            if (snapshot) {
+                this.mergeSnapshot(snapshot);
+                console.log('[StrokeStorage] Restored canvas from', this.persistence.name, '-', this.elements.size, 'elements,',
+                    this.uniqueArtists.size, 'artists, started at', new Date(this.canvasStartTime).toISOString());
+            } else {
+                console.log('[StrokeStorage] No saved canvas in', this.persistence.name, '- starting fresh');
+            }
+        } catch (err) {
+            console.error('[StrokeStorage] Failed to restore canvas, starting fresh:', err);
+        }
+
+        if (!this.flushTimer) {
+            this.flushTimer = setInterval(() => {
+                // Still writing: skip this tick rather than queue up behind a slow write
+                if (this.writesQueued > 0) return;
+                this.flush().catch(err => console.error('[StrokeStorage] Periodic flush failed:', err));
+            }, this.flushIntervalMs);
+        }
+    }
+
+    // Write pending changes to the persistence layer (also called on shutdown)
+    async flush(): Promise<void> {
+        if (!this.isPersistenceOwner()) return;
+        await this.queueWrite(() => this.persistence.flush(() => this.getSnapshot()));
+    }
+
+    // Run a persistence write after the ones already queued, whether they worked or not
+    private queueWrite(write: () => Promise<void>): Promise<void> {
+        this.writesQueued++;
+        const run = this.writeQueue.then(write).finally(() => {
+            this.writesQueued--;
+        });
+        this.writeQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    // Save and stop flushing, before the room is unloaded
+    async close(): Promise<void> {
+        if (this.flushTimer) {
+            clearInterval(this.flushTimer);
+            this.flushTimer = null;
+        }
+        await this.flush();
+    }
+
+    setPersistenceOwner(isOwner: () => boolean): void {
+        this.isPersistenceOwner = isOwner;
+    }
+
+    /**
+     * Merge a snapshot into the current state: adopts its start time, keeps
+     * whichever copy of each element wins reconciliation, unions artists.
+     * Used on restore and when catching up from another cluster node.
+     * @returns true if anything changed
+     */
+    mergeSnapshot(snapshot: CanvasSnapshot): boolean {
+        let changed = this.canvasStartTime !== snapshot.canvasStartTime || this.prompt !== snapshot.prompt;
+        if (this.canvasStartTime !== snapshot.canvasStartTime) {
+            this.canvasStartTime = snapshot.canvasStartTime;
+            this.timelapse.reset(snapshot.canvasStartTime);
+        }
+        this.prompt = snapshot.prompt;
+
+        // Not live changes — backfill their history instead of recording them as happening now
+        const applied = this.applyElements(snapshot.elements);
+        if (applied.length > 0) {
+            this.timelapse.seed(applied);
+            changed = true;
+        }
+
+        snapshot.uniqueArtists.forEach(artistId => {
+            if (this.markArtistAsDrawn(artistId)) changed = true;
+        });
+
+        // Pins removed elsewhere since the snapshot was taken come back; hosts can remove them again
+        snapshot.pins.forEach(pin => {
+            if (this.pins.has(pin.id)) return;
+            this.pins.set(pin.id, pin);
+            changed = true;
+        });
+        const counts = mergeReactionCounts(this.reactionCounts, snapshot.reactionCounts);
+        if (JSON.stringify(counts) !== JSON.stringify(this.reactionCounts)) {
+            this.reactionCounts = counts;
+            changed = true;
+        }
+        if (snapshot.hostKeyHash && snapshot.hostKeyHash !== this.hostKeyHash) {
+            this.hostKeyHash = snapshot.hostKeyHash;
+            changed = true;
+        }
+        return changed;
+    }
+
+    getSnapshot(): CanvasSnapshot {
+        return {
+            elements: this.getAllElements(),
+            canvasStartTime: this.canvasStartTime,
+            prompt: this.prompt,
+            uniqueArtists: Array.from(this.uniqueArtists),
+            pins: this.getPins(),
+            reactionCounts: this.reactionCounts,
+            hostKeyHash: this.hostKeyHash,
+        };
+    }
+
+    /**
+     * Whether an incoming element is older than the stored copy and must be dropped.
+     * Same rule as Excalidraw's reconcile: higher version wins; on a version tie
+     * the lower versionNonce wins, so every node settles on the same element.
+     */
+    isStale(element: ExcalidrawElement): boolean {
+        const existing = this.elements.get(element.id);
+        if (!existing) return false;
+        return existing.version > element.version ||
+            (existing.version === element.version && existing.versionNonce <= element.versionNonce);
+    }
+
+    // Upsert elements that are newer than the stored copy; returns the ones applied
+    updateElements(elements: readonly ExcalidrawElement[]): ExcalidrawElement[] {
+        const applied = this.applyElements(elements);
+        this.timelapse.record(applied);
+        return applied;
+    }
+
+    // Stamp elements a client just drew with the time, so they fade from now
+    stamp(elements: readonly ExcalidrawElement[], now: number = Date.now()): ExcalidrawElement[] {
+        return stampElements(elements, now, this.strokeLifetimeMs);
+    }
+
+    // Drop strokes that have faded out completely; returns how many
+    collectFaded(now: number = Date.now()): number {
+        let count = 0;
+        this.elements.forEach((element, id) => {
+            if (!isFaded(getStrokeTimes(element), now)) return;
+            this.elements.delete(id);
+            this.spatialIndex.remove(id);
+            count++;
+        });
+        if (count > 0) {
+            this.persistence.recordRemoval();
+        }
+        return count;
+    }
+
+    private applyElements(elements: readonly ExcalidrawElement[]): ExcalidrawElement[] {
+        // Faded strokes can come back from a saved log or a slow node; they stay gone
+        const now = Date.now();
+        const applied = elements.filter(element => !this.isStale(element) && !isFaded(getStrokeTimes(element), now));
+        applied.forEach(element => {
             this.elements.set(element.id, element);
+            this.spatialIndex.upsert(element);
+        });
+        if (applied.length > 0) {
+            this.persistence.recordElements(applied);
+        }
+        return applied;
+    }
+
+    /**
+     * Moderation: tombstones for every element touching `bounds`. Not applied
+     * here — pass them to updateElements and broadcast like any other update.
+     */
+    buildRegionDeletion(bounds: Bounds): ExcalidrawElement[] {
+        return this.getElementsInBounds(bounds)
+            .filter(el => !el.isDeleted)
+            .map(el => this.supersede(el, { ...el, isDeleted: true }));
+    }
+
+    // Host "clear the board": tombstones for every element, applied like buildRegionDeletion
+    buildClear(): ExcalidrawElement[] {
+        return this.getAllElements()
+            .filter(el => !el.isDeleted)
+            .map(el => this.supersede(el, { ...el, isDeleted: true }));
+    }
+
+    /**
+     * Moderation: changes that put every element touching `bounds` (now or at
+     * `time`) back the way it was at `time` — later elements are deleted, later
+     * edits and deletions undone. Not applied here, like buildRegionDeletion.
+     */
+    buildRegionRollback(bounds: Bounds, time: number): ExcalidrawElement[] {
+        const past = this.timelapse.getSceneAt(time);
+        const ids = new Set(this.getElementsInBounds(bounds).map(el => el.id));
+        past.forEach((el, id) => {
+            if (!el.isDeleted && boundsIntersect(bounds, getElementBounds(el))) ids.add(id);
+        });
+
+        const changes: ExcalidrawElement[] = [];
+        ids.forEach(id => {
+            const current = this.elements.get(id);
+            if (!current) return;
+            const before = past.get(id);
+            if (!before || before.isDeleted) {
+                if (!current.isDeleted) changes.push(this.supersede(current, { ...current, isDeleted: true }));
+            } else if (before.version !== current.version || before.versionNonce !== current.versionNonce) {
+                changes.push(this.supersede(current, before));
+            }
         });
+        return changes;
     }
 
-    // Mark a session as having drawn at least one stroke
+    // A copy of `next` that wins reconciliation against the stored `current`
+    private supersede(current: ExcalidrawElement, next: ExcalidrawElement): ExcalidrawElement {
+        return {
+            ...next,
+            version: current.version + 1,
+            versionNonce: Math.floor(Math.random() * 2 ** 31),
+            updated: Date.now(),
+        };
+    }
+
+    // Mark a device as having drawn at least one stroke
     // Returns true if this is a NEW unique artist (first stroke in this cycle)
-    markSessionAsDrawn(sessionId: string): boolean {
-        if (this.uniqueArtists.has(sessionId)) {
+    markArtistAsDrawn(deviceId: string): boolean {
+        if (this.uniqueArtists.has(deviceId)) {
             return false;
         }
-        this.uniqueArtists.add(sessionId);
-        console.log('[StrokeStorage] New unique artist:', sessionId, '| Total unique artists:', this.uniqueArtists.size);
+        this.uniqueArtists.add(deviceId);
+        this.persistence.recordArtist(deviceId);
+        console.log('[StrokeStorage] New unique artist:', deviceId, '| Total unique artists:', this.uniqueArtists.size);
         return true;
     }
 
@@ -45,24 +294,105 @@ class StrokeStorage {
         return this.uniqueArtists.size;
     }
 
+    countReaction(emoji: ReactionEmoji): void {
+        this.reactionCounts = addReaction(this.reactionCounts, emoji);
+        this.persistence.recordReactions();
+    }
+
+    addPin(pin: Pin): void {
+        this.pins.set(pin.id, pin);
+        this.persistence.recordReactions();
+    }
+
+    // Returns the removed pin, if there was one
+    removePin(id: string): Pin | undefined {
+        const pin = this.pins.get(id);
+        if (pin) {
+            this.pins.delete(id);
+            this.persistence.recordReactions();
+        }
+        return pin;
+    }
+
+    getHostKeyHash(): string | null {
+        return this.hostKeyHash;
+    }
+
+    setHostKeyHash(hash: string | null): void {
+        if (hash === this.hostKeyHash) return;
+        this.hostKeyHash = hash;
+        this.persistence.recordHostKey();
+    }
+
+    getPin(id: string): Pin | undefined {
+        return this.pins.get(id);
+    }
+
+    getPins(): Pin[] {
+        return Array.from(this.pins.values());
+    }
+
     // Get all elements
     getAllElements(): ExcalidrawElement[] {
         return Array.from(this.elements.values());
     }
 
+    // Get a single element by id
+    getElement(id: string): ExcalidrawElement | undefined {
+        return this.elements.get(id);
+    }
+
+    // Elements whose bounding box intersects the given scene-space area
+    getElementsInBounds(bounds: Bounds): ExcalidrawElement[] {
+        return this.spatialIndex.query(bounds)
+            .map(id => this.elements.get(id))
+            .filter((el): el is ExcalidrawElement => el !== undefined);
+    }
+
+    // Indexed bounding box of the stored copy of an element
+    getElementBounds(id: string): Bounds | undefined {
+        return this.spatialIndex.getBounds(id);
+    }
+
     // Get element count without creating a full array copy
     getElementCount(): number {
         return this.elements.size;
     }
 
+    // Prompt for a cycle starting at `startTime`, by its date in the reset time zone
+    private pickPrompt(startTime: number): string | null {
+        return promptQueue.pickPrompt(getLocalDate(startTime, this.resetSchedule.timeZone));
+    }
+
+    // Palette limits in force right now, in this cycle (see PaletteSchedule)
+    getPaletteRule(now: number = Date.now()): PaletteRule | null {
+        const { timeZone } = this.resetSchedule;
+        return paletteSchedule.getActiveRule({
+            cycleDate: getLocalDate(this.canvasStartTime, timeZone),
+            minuteOfDay: getLocalMinuteOfDay(now, timeZone),
+            minutesLeft: (this.getNextResetTime() - now) / (60 * 1000),
+        });
+    }
+
+    // When the current cycle ends, per the reset schedule
+    getNextResetTime(): number {
+        if (this.nextReset?.startTime !== this.canvasStartTime) {
+            this.nextReset = {
+                startTime: this.canvasStartTime,
+                at: getNextResetTime(this.canvasStartTime, this.resetSchedule),
+            };
+        }
+        return this.nextReset.at;
+    }
+
     // Check if canvas should reset
     shouldReset(): boolean {
-        return Date.now() - this.canvasStartTime >= this.resetIntervalMs;
+        return Date.now() >= this.getNextResetTime();
     }
 
     // Get time until reset
     getTimeUntilReset(): number {
-        return Math.max(0, this.resetIntervalMs - (Date.now() - this.canvasStartTime));
+        return Math.max(0, this.getNextResetTime() - Date.now());
     }
 
     // Archive current canvas
@@ -72,17 +402,24 @@ class StrokeStorage {
         }
 
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const filename = `canvas-${timestamp}.json`;
+        // Main room archives keep the bare timestamp ids they always had
+        const id = this.roomId === MAIN_ROOM ? timestamp : `${this.roomId}-${timestamp}`;
+        const filename = `canvas-${id}.json`;
         const filePath = path.join(this.archivesDir, filename);
 
         const archiveData = {
-            id: timestamp,
+            id,
+            room: this.roomId,
             date: new Date().toISOString(),
             start_time: this.canvasStartTime,
             end_time: Date.now(),
             stroke_count: this.elements.size,
             artist_count: this.uniqueArtists.size,
-            strokes: this.getAllElements() as any
+            prompt: this.prompt,
+            reaction_counts: this.reactionCounts,
+            pin_count: this.pins.size,
+            strokes: this.getAllElements() as any,
+            timelapse: this.timelapse.getTimelapse()
         };
 
         // 1. Save to local filesystem (backup/dev)
@@ -93,6 +430,18 @@ class StrokeStorage {
             console.error('[StrokeStorage] Failed to archive canvas to FS:', err);
         }
 
+        // Render the thumbnail now, while the elements are at hand
+        let thumbnail: ArchiveThumbnail | null = null;
+        try {
+            // Drawn as the viewer shows it, with fading strokes at their opacity at the end
+            thumbnail = await renderArchiveThumbnail(fadeElements(archiveData.strokes, archiveData.end_time));
+            const basePath = filePath.replace(/\.json$/, '');
+            fs.writeFileSync(`${basePath}.svg`, thumbnail.svg);
+            if (thumbnail.png) fs.writeFileSync(`${basePath}.png`, thumbnail.png);
+        } catch (err) {
+            console.error('[StrokeStorage] Failed to render archive thumbnail:', err);
+        }
+
         // 2. Save to Database (Persistent)
         if (databaseService.isAvailable()) {
             try {
@@ -104,11 +453,19 @@ class StrokeStorage {
                     end_time: archiveData.end_time,
                     stroke_count: archiveData.stroke_count,
                     artist_count: archiveData.artist_count,
-                    strokes: archiveData.strokes
+                    room: archiveData.room,
+                    prompt: archiveData.prompt,
+                    reaction_counts: archiveData.reaction_counts,
+                    pin_count: archiveData.pin_count,
+                    strokes: archiveData.strokes,
+                    timelapse: archiveData.timelapse
                 });
 
                 if (saved) {
                     console.log('[StrokeStorage] ✅ Archived canvas to Database:', archiveData.id);
+                    if (thumbnail) {
+                        await databaseService.saveArchiveThumbnail(archiveData.id, thumbnail.svg, thumbnail.png);
+                    }
                     return { success: true, archiveId: archiveData.id };
                 } else {
                     console.warn('[StrokeStorage] ⚠️ Failed to save archive to Database (saveArchive returned false)');
@@ -125,9 +482,14 @@ class StrokeStorage {
         }
     }
 
+    // Archive the current canvas without clearing it (admin "archive now")
+    async archiveNow(): Promise<{ success: boolean; reason?: string; archiveId?: string }> {
+        return this.archiveStrokes();
+    }
+
     // Reset the canvas
     async reset(): Promise<{ success: boolean; result?: any }> {
-        console.log('[StrokeStorage] Resetting canvas...');
+        console.log('[StrokeStorage] Resetting canvas of room', this.roomId);
         let archiveResult;
 
         try {
@@ -141,18 +503,51 @@ class StrokeStorage {
         const count = this.elements.size;
         const artistCount = this.uniqueArtists.size;
         this.elements.clear();
+        this.spatialIndex.clear();
         this.uniqueArtists.clear();
+        this.pins.clear();
+        this.reactionCounts = {};
         this.canvasStartTime = Date.now();
-        console.log('[StrokeStorage] Canvas reset complete. Cleared', count, 'elements,', artistCount, 'unique artists');
+        this.timelapse.reset(this.canvasStartTime);
+        this.prompt = this.pickPrompt(this.canvasStartTime);
+        try {
+            await this.queueWrite(() => this.persistence.recordReset(this.getSnapshot()));
+        } catch (err) {
+            console.error('[StrokeStorage] Failed to persist reset:', err);
+        }
+        console.log('[StrokeStorage] Canvas reset complete. Cleared', count, 'elements,', artistCount, 'unique artists',
+            '| New prompt:', this.prompt ?? 'none');
 
         return { success: true, result: archiveResult };
     }
 
+    /**
+     * Start a new cycle because another cluster node reset the canvas.
+     * That node already archived it, so this only clears local state.
+     */
+    applyRemoteReset(canvasStartTime: number, prompt: string | null): void {
+        const count = this.elements.size;
+        this.elements.clear();
+        this.spatialIndex.clear();
+        this.uniqueArtists.clear();
+        this.pins.clear();
+        this.reactionCounts = {};
+        this.canvasStartTime = canvasStartTime;
+        this.timelapse.reset(canvasStartTime);
+        this.prompt = prompt;
+        console.log('[StrokeStorage] Canvas reset by another node. Cleared', count, 'elements');
+    }
+
     // Get initial canvas state data
     getCanvasState() {
         return {
             elements: this.getAllElements(),
             startTime: this.canvasStartTime,
+            nextResetAt: this.getNextResetTime(),
+            prompt: this.prompt,
+            paletteRule: this.getPaletteRule(),
+            strokeLifetimeMs: this.strokeLifetimeMs,
+            pins: this.getPins(),
             artistCount: this.uniqueArtists.size
         };
     }
@@ -165,6 +560,7 @@ class StrokeStorage {
             elementCount: this.elements.size,
             artistCount: this.uniqueArtists.size,
             timeUntilReset: this.getTimeUntilReset(),
+            prompt: this.prompt,
         };
     }
 }
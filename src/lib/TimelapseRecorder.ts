@@ -0,0 +1,95 @@
+import { ExcalidrawElement, TimelapseData, TimelapseFrame } from '../types';
+import { applyFramesUntil, framesFromElements, mergeFrames } from './timelapseUtils';
+
+/**
+ * Records the canvas's change history for the current cycle, so the archive
+ * can be replayed as a timelapse.
+ *
+ * Excalidraw sends a new copy of a stroke on every pointer move, so updates
+ * are coalesced into fixed-length frames (latest version of each element per
+ * frame). When the log grows past maxFrames, adjacent frames are merged
+ * pairwise — replay gets coarser over a busy day, but memory stays bounded.
+ */
+export class TimelapseRecorder {
+    private startTime: number;
+    private frames: TimelapseFrame[] = [];
+    private current: { t: number; elements: Map<string, ExcalidrawElement> } | null = null;
+
+    constructor(
+        startTime: number,
+        private readonly frameIntervalMs = 1000,
+        private readonly maxFrames = 4000
+    ) {
+        this.startTime = startTime;
+    }
+
+    // Record an accepted batch at the current time
+    record(elements: readonly ExcalidrawElement[], now: number = Date.now()): void {
+        if (elements.length === 0) return;
+
+        const offset = Math.max(0, now - this.startTime);
+        const t = Math.floor(offset / this.frameIntervalMs) * this.frameIntervalMs;
+        if (!this.current || this.current.t !== t) {
+            this.closeFrame();
+            this.current = { t, elements: new Map() };
+        }
+        const frame = this.current;
+        elements.forEach(el => frame.elements.set(el.id, el));
+    }
+
+    /**
+     * Backfill history for elements that were restored rather than recorded
+     * (server restart, catching up from another node), using their `updated` time.
+     */
+    seed(elements: readonly ExcalidrawElement[]): void {
+        if (elements.length === 0) return;
+        this.closeFrame();
+        const seeded = framesFromElements(elements, this.startTime, Date.now(), this.frameIntervalMs);
+        this.frames = [...this.frames, ...seeded].sort((a, b) => a.t - b.t);
+        this.compact();
+    }
+
+    getTimelapse(endTime: number = Date.now()): TimelapseData {
+        this.closeFrame();
+        return {
+            startTime: this.startTime,
+            endTime,
+            frames: this.frames,
+        };
+    }
+
+    /**
+     * Rebuild the scene as of an absolute time, for rolling elements back.
+     * After compaction this is accurate to the merged frame length.
+     */
+    getSceneAt(time: number): Map<string, ExcalidrawElement> {
+        this.closeFrame();
+        const scene = new Map<string, ExcalidrawElement>();
+        applyFramesUntil(scene, this.frames, 0, time - this.startTime);
+        return scene;
+    }
+
+    reset(startTime: number): void {
+        this.startTime = startTime;
+        this.frames = [];
+        this.current = null;
+    }
+
+    private closeFrame(): void {
+        if (!this.current) return;
+        this.frames.push({ t: this.current.t, elements: Array.from(this.current.elements.values()) });
+        this.current = null;
+        this.compact();
+    }
+
+    private compact(): void {
+        if (this.frames.length <= this.maxFrames) return;
+        const merged: TimelapseFrame[] = [];
+        for (let i = 0; i < this.frames.length; i += 2) {
+            const next = this.frames[i + 1];
+            merged.push(next ? mergeFrames(this.frames[i], next) : this.frames[i]);
+        }
+        this.frames = merged;
+        console.log('[TimelapseRecorder] Compacted timelapse to', merged.length, 'frames');
+    }
+}
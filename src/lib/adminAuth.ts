@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { RATE_LIMITS, RateLimiter } from './RateLimiter';
+import { readCookieHeader } from './cookieUtils';
+
+/**
+ * Authentication for the admin API, the /test dashboard and moderator sockets.
+ *
+ * Admins authenticate with ADMIN_TOKEN, either per request as
+ * `Authorization: Bearer <token>` (scripts, cron) or once through
+ * POST /api/admin/session, which sets a signed session cookie (dashboard).
+ * Sessions are stateless — rotating ADMIN_TOKEN revokes all of them.
+ * Without ADMIN_TOKEN the admin API is disabled.
+ */
+
+export const ADMIN_COOKIE = 'drawny_admin';
+export const ADMIN_SESSION_MAX_AGE = 12 * 60 * 60; // seconds
+const MIN_TOKEN_LENGTH = 16;
+
+export const adminLoginLimiter = new RateLimiter(RATE_LIMITS.adminLogin.ip);
+let warnedShortToken = false;
+
+function getAdminToken(): string | null {
+    const token = process.env.ADMIN_TOKEN;
+    if (!token) return null;
+    if (token.length < MIN_TOKEN_LENGTH) {
+        if (warnedShortToken) return null;
+        warnedShortToken = true;
+        console.warn(`[AdminAuth] ⚠️ ADMIN_TOKEN is shorter than ${MIN_TOKEN_LENGTH} characters - admin API disabled`);
+        return null;
+    }
+    return token;
+}
+
+export function isAdminConfigured(): boolean {
+    return getAdminToken() !== null;
+}
+
+// Constant-time comparison that doesn't leak the length either
+function safeEqual(a: string, b: string): boolean {
+    const hashA = crypto.createHash('sha256').update(a).digest();
+    const hashB = crypto.createHash('sha256').update(b).digest();
+    return crypto.timingSafeEqual(hashA, hashB);
+}
+
+function signSession(expiresAt: number, token: string): string {
+    return crypto.createHmac('sha256', token).update(`admin-session:${expiresAt}`).digest('base64url');
+}
+
+export function verifyAdminToken(candidate: unknown): boolean {
+    const token = getAdminToken();
+    return !!token && typeof candidate === 'string' && safeEqual(candidate, token);
+}
+
+// Cookie value: `<expiresAt>.<signature>`
+export function createAdminSession(): string {
+    const token = getAdminToken();
+    if (!token) throw new Error('ADMIN_TOKEN is not configured');
+    const expiresAt = Date.now() + ADMIN_SESSION_MAX_AGE * 1000;
+    return `${expiresAt}.${signSession(expiresAt, token)}`;
+}
+
+export function verifyAdminSession(value: string | undefined): boolean {
+    const token = getAdminToken();
+    if (!token || !value) return false;
+    const [expiresRaw, signature] = value.split('.');
+    const expiresAt = Number(expiresRaw);
+    if (!Number.isFinite(expiresAt) || expiresAt < Date.now() || !signature) return false;
+    return safeEqual(signature, signSession(expiresAt, token));
+}
+
+// Session cookie from a raw Cookie header (socket handshakes); undefined when missing or malformed
+export function getAdminSessionFromCookieHeader(header: string | undefined): string | undefined {
+    return readCookieHeader(header, ADMIN_COOKIE);
+}
+
+function isAdminRequest(request: NextRequest): boolean {
+    const authorization = request.headers.get('authorization');
+    if (authorization?.startsWith('Bearer ')) {
+        return verifyAdminToken(authorization.slice('Bearer '.length));
+    }
+    return verifyAdminSession(request.cookies.get(ADMIN_COOKIE)?.value);
+}
+
+/**
+ * Guard for admin route handlers: returns the error response to send, or
+ * null when the request is authenticated.
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+    if (!isAdminConfigured()) {
+        return NextResponse.json({ error: 'Admin API is disabled (ADMIN_TOKEN not set)' }, { status: 503 });
+    }
+    if (!isAdminRequest(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return null;
+}
+
+// Behind Render's proxy the real client address is in x-forwarded-for
+export function getRequestIp(request: NextRequest): string {
+    return request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+}
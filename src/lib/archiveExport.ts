@@ -0,0 +1,112 @@
+import { ExcalidrawElement } from '../types';
+import { rasterizeSvg, renderElementsToSvg } from './archiveRenderer';
+import { ArchiveData } from './DatabaseService';
+import { RATE_LIMITS, RateLimiter } from './RateLimiter';
+
+/**
+ * Archive downloads in standard formats, so past canvases can be reopened in
+ * excalidraw.com or printed.
+ */
+
+export const EXPORT_FORMATS = ['excalidraw', 'svg', 'png', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const DEFAULT_EXPORT_SCALE = 2;
+export const MIN_EXPORT_SCALE = 0.1;
+export const MAX_EXPORT_SCALE = 4;
+
+// Rendered PNGs kept in memory, oldest dropped first once they add up to this
+const PNG_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+
+export const archiveExportLimiter = new RateLimiter(RATE_LIMITS.archiveExport.ip);
+
+// Archives never change once saved, so a rendered PNG stays valid until the archive is deleted
+const pngCache = new Map<string, Buffer>();
+const pngRenders = new Map<string, Promise<Buffer | null>>();
+let pngCacheBytes = 0;
+
+function getPngCacheKey(id: string, scale: number): string {
+    return `${id}@${scale}`;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+    return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// Visible elements of an archive (strokes are stored as Excalidraw elements)
+export function getArchiveElements(archive: ArchiveData): ExcalidrawElement[] {
+    const strokes = (Array.isArray(archive.strokes) ? archive.strokes : []) as unknown as ExcalidrawElement[];
+    return strokes.filter(el => !el.isDeleted);
+}
+
+/**
+ * Serialize elements as a `.excalidraw` scene file (the format Excalidraw's
+ * own "Save to disk" writes and "Open" reads).
+ */
+export function buildExcalidrawFile(elements: readonly ExcalidrawElement[]): string {
+    return JSON.stringify({
+        type: 'excalidraw',
+        version: 2,
+        source: 'https://drawny.com',
+        elements,
+        appState: {
+            viewBackgroundColor: '#ffffff',
+            gridSize: null,
+        },
+        files: {},
+    }, null, 2);
+}
+
+// e.g. drawny-2025-01-31.excalidraw, falling back to the archive id
+export function getExportFilename(archive: ArchiveData, format: ExportFormat): string {
+    const date = new Date(archive.date);
+    const stem = Number.isNaN(date.getTime()) ? archive.id : date.toISOString().slice(0, 10);
+    return `drawny-${stem}.${format}`;
+}
+
+export function hasCachedArchivePng(id: string, scale: number): boolean {
+    return pngCache.has(getPngCacheKey(id, scale));
+}
+
+/**
+ * PNG export of an archive at `scale`, rendered once per (id, scale) and then
+ * served from memory. Requests for a render already in progress share it.
+ * Returns null when PNG rendering isn't available.
+ */
+export async function renderArchivePng(id: string, elements: readonly ExcalidrawElement[], scale: number): Promise<Buffer | null> {
+    const key = getPngCacheKey(id, scale);
+    const cached = pngCache.get(key);
+    if (cached) {
+        // Re-insert so the most recently used entry is evicted last
+        pngCache.delete(key);
+        pngCache.set(key, cached);
+        return cached;
+    }
+
+    let render = pngRenders.get(key);
+    if (!render) {
+        render = rasterizeSvg(renderElementsToSvg(elements, { scale })).finally(() => pngRenders.delete(key));
+        pngRenders.set(key, render);
+    }
+    const png = await render;
+    if (png && !pngCache.has(key) && png.length <= PNG_CACHE_MAX_BYTES) {
+        pngCache.set(key, png);
+        pngCacheBytes += png.length;
+        for (const [oldKey, old] of pngCache) {
+            if (pngCacheBytes <= PNG_CACHE_MAX_BYTES) break;
+            pngCache.delete(oldKey);
+            pngCacheBytes -= old.length;
+        }
+    }
+    return png;
+}
+
+// Drop cached renders of a deleted archive
+export function forgetArchiveExports(id: string): void {
+    for (const [key, png] of pngCache) {
+        if (key.startsWith(`${id}@`)) {
+            pngCache.delete(key);
+            pngCacheBytes -= png.length;
+        }
+    }
+}
@@ -0,0 +1,219 @@
+import { ExcalidrawElement } from '../types';
+import { getElementBounds } from './SpatialIndex';
+
+/**
+ * Headless renderer for archived canvases: turns Excalidraw elements into a
+ * standalone SVG (and a PNG when sharp is installed) for gallery thumbnails
+ * and OG images.
+ *
+ * Shapes are drawn clean, without Excalidraw's hand-drawn roughness, and
+ * freedraw strokes as smoothed center lines rather than pressure outlines.
+ * That's close enough at thumbnail size and needs no browser or canvas.
+ */
+
+export interface ArchiveThumbnail {
+    svg: string;
+    png: Buffer | null;
+}
+
+export interface RenderOptions {
+    width?: number;
+    height?: number;
+    padding?: number; // Scene units around the content
+    background?: string;
+    scale?: number; // Output pixels per scene unit; when set, width/height follow the content instead
+}
+
+// OG image size; gallery cards crop it with object-fit
+const DEFAULT_OPTIONS: Required<Omit<RenderOptions, 'scale'>> = {
+    width: 1200,
+    height: 630,
+    padding: 40,
+    background: '#ffffff',
+};
+
+// Largest side of a scaled export — a busy day's canvas can span tens of thousands of units
+export const MAX_EXPORT_DIMENSION = 8192;
+
+// Excalidraw's freedraw outline is roughly this much wider than strokeWidth
+const FREEDRAW_WIDTH_SCALE = 2.5;
+
+// Only plain colors reach the SVG — element fields come from untrusted clients
+const SAFE_COLOR = /^(#[0-9a-fA-F]{3,8}|[a-zA-Z]{1,20})$/;
+
+function color(value: unknown, fallback: string): string {
+    return typeof value === 'string' && SAFE_COLOR.test(value) ? value : fallback;
+}
+
+function num(value: number): string {
+    return Number.isFinite(value) ? String(Math.round(value * 100) / 100) : '0';
+}
+
+function dashArray(element: ExcalidrawElement): string | null {
+    const width = element.strokeWidth || 1;
+    if (element.strokeStyle === 'dashed') return `${num(8 + width)} ${num(8 + width * 1.5)}`;
+    if (element.strokeStyle === 'dotted') return `${num(1.5)} ${num(6 + width * 1.5)}`;
+    return null;
+}
+
+// Smooth path through points (quadratic curves between segment midpoints), offset by (x, y)
+function smoothPath(points: readonly (readonly [number, number])[], x: number, y: number): string {
+    if (points.length === 1) {
+        const [px, py] = points[0];
+        return `M${num(x + px)} ${num(y + py)}l0.01 0`; // Zero-length segment so round caps draw a dot
+    }
+    let d = `M${num(x + points[0][0])} ${num(y + points[0][1])}`;
+    for (let i = 1; i < points.length - 1; i++) {
+        const [cx, cy] = points[i];
+        const [nx, ny] = points[i + 1];
+        d += `Q${num(x + cx)} ${num(y + cy)} ${num(x + (cx + nx) / 2)} ${num(y + (cy + ny) / 2)}`;
+    }
+    const [lx, ly] = points[points.length - 1];
+    return d + `L${num(x + lx)} ${num(y + ly)}`;
+}
+
+function polylinePath(points: readonly (readonly [number, number])[], x: number, y: number): string {
+    return points.map(([px, py], i) => `${i === 0 ? 'M' : 'L'}${num(x + px)} ${num(y + py)}`).join('');
+}
+
+// Arrowhead at `tip`, pointing away from `from`
+function arrowhead(kind: string, tip: readonly [number, number], from: readonly [number, number], size: number, stroke: string): string {
+    const angle = Math.atan2(tip[1] - from[1], tip[0] - from[0]);
+    const spread = Math.PI / 7;
+    const left: [number, number] = [tip[0] - size * Math.cos(angle - spread), tip[1] - size * Math.sin(angle - spread)];
+    const right: [number, number] = [tip[0] - size * Math.cos(angle + spread), tip[1] - size * Math.sin(angle + spread)];
+    const [a, b, c] = [left, tip, right].map(([px, py]) => `${num(px)} ${num(py)}`);
+    if (kind === 'triangle') {
+        return `<path d="M${a}L${b}L${c}Z" fill="${stroke}"/>`;
+    }
+    return `<path d="M${a}L${b}L${c}" fill="none"/>`;
+}
+
+function renderElement(element: ExcalidrawElement): string {
+    const stroke = color(element.strokeColor, '#1e1e1e');
+    const fill = element.backgroundColor && element.backgroundColor !== 'transparent'
+        ? color(element.backgroundColor, 'none')
+        : 'none';
+    const strokeWidth = element.strokeWidth || 1;
+    const { x, y, width, height } = element;
+
+    const attrs = [`stroke="${stroke}"`, `stroke-width="${num(strokeWidth)}"`, 'stroke-linecap="round"', 'stroke-linejoin="round"'];
+    const dash = dashArray(element);
+    if (dash) attrs.push(`stroke-dasharray="${dash}"`);
+    if (typeof element.opacity === 'number' && element.opacity < 100) attrs.push(`opacity="${num(element.opacity / 100)}"`);
+    if (element.angle) {
+        const degrees = (element.angle * 180) / Math.PI;
+        attrs.push(`transform="rotate(${num(degrees)} ${num(x + width / 2)} ${num(y + height / 2)})"`);
+    }
+
+    let body = '';
+    switch (element.type) {
+        case 'freedraw': {
+            if (element.points.length === 0) return '';
+            attrs[1] = `stroke-width="${num(strokeWidth * FREEDRAW_WIDTH_SCALE)}"`;
+            body = `<path d="${smoothPath(element.points, x, y)}" fill="none"/>`;
+            break;
+        }
+        case 'line':
+        case 'arrow': {
+            const points = element.points;
+            if (points.length === 0) return '';
+            body = `<path d="${polylinePath(points, x, y)}" fill="${element.type === 'line' ? fill : 'none'}"/>`;
+            if (element.type === 'arrow' && points.length > 1) {
+                const size = 12 + strokeWidth * 3;
+                const abs = (i: number): [number, number] => [x + points[i][0], y + points[i][1]];
+                if (element.endArrowhead) body += arrowhead(element.endArrowhead, abs(points.length - 1), abs(points.length - 2), size, stroke);
+                if (element.startArrowhead) body += arrowhead(element.startArrowhead, abs(0), abs(1), size, stroke);
+            }
+            break;
+        }
+        case 'rectangle': {
+            const radius = element.roundness ? Math.min(32, Math.min(Math.abs(width), Math.abs(height)) * 0.25) : 0;
+            body = `<rect x="${num(Math.min(x, x + width))}" y="${num(Math.min(y, y + height))}" width="${num(Math.abs(width))}" height="${num(Math.abs(height))}"${radius ? ` rx="${num(radius)}"` : ''} fill="${fill}"/>`;
+            break;
+        }
+        case 'ellipse':
+            body = `<ellipse cx="${num(x + width / 2)}" cy="${num(y + height / 2)}" rx="${num(Math.abs(width) / 2)}" ry="${num(Math.abs(height) / 2)}" fill="${fill}"/>`;
+            break;
+        case 'diamond': {
+            const cx = x + width / 2;
+            const cy = y + height / 2;
+            body = `<path d="M${num(cx)} ${num(y)}L${num(x + width)} ${num(cy)}L${num(cx)} ${num(y + height)}L${num(x)} ${num(cy)}Z" fill="${fill}"/>`;
+            break;
+        }
+        default:
+            return ''; // Not something drawny's toolbar produces
+    }
+
+    return `<g ${attrs.join(' ')}>${body}</g>`;
+}
+
+/**
+ * Render elements to a standalone SVG, fitted and centered in the output size,
+ * or at `scale` pixels per scene unit (capped at MAX_EXPORT_DIMENSION).
+ */
+export function renderElementsToSvg(elements: readonly ExcalidrawElement[], options: RenderOptions = {}): string {
+    const { padding, background, scale } = { ...DEFAULT_OPTIONS, ...options };
+    let { width, height } = { ...DEFAULT_OPTIONS, ...options };
+    const visible = elements.filter(el => !el.isDeleted);
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    visible.forEach(el => {
+        const bounds = getElementBounds(el);
+        const margin = (el.strokeWidth || 1) * FREEDRAW_WIDTH_SCALE;
+        minX = Math.min(minX, bounds.minX - margin);
+        minY = Math.min(minY, bounds.minY - margin);
+        maxX = Math.max(maxX, bounds.maxX + margin);
+        maxY = Math.max(maxY, bounds.maxY + margin);
+    });
+    if (visible.length === 0) {
+        minX = 0; minY = 0; maxX = width; maxY = height;
+    }
+
+    let boxX = minX - padding;
+    let boxY = minY - padding;
+    let boxWidth = maxX - minX + padding * 2;
+    let boxHeight = maxY - minY + padding * 2;
+    if (scale) {
+        const effectiveScale = Math.min(scale, MAX_EXPORT_DIMENSION / Math.max(boxWidth, boxHeight));
+        width = Math.max(1, Math.round(boxWidth * effectiveScale));
+        height = Math.max(1, Math.round(boxHeight * effectiveScale));
+    }
+
+    // Grow the content box to the output's aspect ratio so the background covers it all
+    const aspect = width / height;
+    if (boxWidth / boxHeight < aspect) {
+        const grown = boxHeight * aspect;
+        boxX -= (grown - boxWidth) / 2;
+        boxWidth = grown;
+    } else {
+        const grown = boxWidth / aspect;
+        boxY -= (grown - boxHeight) / 2;
+        boxHeight = grown;
+    }
+
+    const viewBox = [boxX, boxY, boxWidth, boxHeight].map(num).join(' ');
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewBox}">` +
+        `<rect x="${num(boxX)}" y="${num(boxY)}" width="${num(boxWidth)}" height="${num(boxHeight)}" fill="${color(background, '#ffffff')}"/>` +
+        visible.map(renderElement).join('') +
+        '</svg>';
+}
+
+/**
+ * Rasterize an SVG to PNG. sharp is an optional dependency; without it
+ * thumbnails are served as SVG only.
+ */
+export async function rasterizeSvg(svg: string): Promise<Buffer | null> {
+    try {
+        const sharp = (await import('sharp')).default;
+        return await sharp(Buffer.from(svg)).png({ compressionLevel: 9 }).toBuffer();
+    } catch (err) {
+        console.warn('[ArchiveRenderer] PNG rendering unavailable, using SVG only:', err instanceof Error ? err.message : err);
+        return null;
+    }
+}
+
+export async function renderArchiveThumbnail(elements: readonly ExcalidrawElement[]): Promise<ArchiveThumbnail> {
+    const svg = renderElementsToSvg(elements);
+    return { svg, png: await rasterizeSvg(svg) };
+}
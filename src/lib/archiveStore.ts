@@ -0,0 +1,320 @@
+import fs from 'fs';
+import path from 'path';
+import { ExcalidrawElement } from '../types';
+import {
+    ArchiveCursor,
+    ArchiveData,
+    ArchiveListQuery,
+    ArchiveListResult,
+    ArchiveSortField,
+    ArchiveSummary,
+    databaseService,
+} from './DatabaseService';
+import { forgetArchiveExports } from './archiveExport';
+import { ArchiveThumbnail, renderArchiveThumbnail } from './archiveRenderer';
+import { fadeElements } from './strokeDecay';
+import { parseReactionCounts } from './reactions';
+import { MAIN_ROOM, isValidRoomId } from './roomUtils';
+
+/**
+ * Read access to archived canvases: the database when available, otherwise
+ * (or when the archive isn't there) the JSON files in public/archives.
+ */
+
+const ARCHIVES_DIR = path.join(process.cwd(), 'public', 'archives');
+
+// Archive ids come from URLs — reject anything that could escape the archives dir
+export function isValidArchiveId(id: string | undefined): id is string {
+    return !!id && !id.includes('..') && !id.includes('/') && !id.includes('\\');
+}
+
+export async function loadArchive(id: string): Promise<ArchiveData | null> {
+    if (!isValidArchiveId(id)) return null;
+
+    if (databaseService.isAvailable()) {
+        console.log('[ArchiveStore] Fetching archive from database:', id);
+        const data = await databaseService.getArchive(id);
+        if (data) {
+            // BIGINT columns come back from pg as strings
+            return { ...data, start_time: Number(data.start_time), end_time: Number(data.end_time) };
+        }
+        console.log('[ArchiveStore] Archive not found in database, trying filesystem');
+    }
+
+    const filePath = path.join(ARCHIVES_DIR, `${id}.json`);
+    try {
+        const content = await fs.promises.readFile(filePath, 'utf-8');
+        const data = JSON.parse(content);
+        return {
+            id,
+            date: data.date,
+            start_time: Number(data.start_time),
+            end_time: Number(data.end_time),
+            stroke_count: data.stroke_count ?? data.strokeCount ?? 0,
+            artist_count: data.artist_count ?? 0,
+            room: data.room ?? MAIN_ROOM,
+            prompt: data.prompt ?? null,
+            reaction_counts: data.reaction_counts ? parseReactionCounts(data.reaction_counts) : null,
+            pin_count: data.pin_count ?? 0,
+            strokes: data.strokes,
+            timelapse: data.timelapse ?? null,
+        };
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error('[ArchiveStore] Failed to read archive:', id, err);
+        }
+        return null;
+    }
+}
+
+export const ARCHIVE_PAGE_SIZE = 24;
+export const MAX_ARCHIVE_PAGE_SIZE = 100;
+const SORT_FIELDS: readonly ArchiveSortField[] = ['date', 'stroke_count', 'artist_count'];
+
+// Cursors are opaque to clients: base64url of [sortValue, id]
+export function encodeArchiveCursor(cursor: ArchiveCursor): string {
+    return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+// Dates as the cursor carries them: Postgres' text form or ISO 8601
+const CURSOR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?Z?$/;
+// Counts are Postgres integers
+const MAX_CURSOR_COUNT = 2 ** 31 - 1;
+
+/**
+ * Read a cursor back, or null if it's malformed or its value doesn't fit the
+ * sort: a date for `date`, a whole count otherwise. The database casts the
+ * value to the sort column's type, so a mismatch must not get that far.
+ */
+export function decodeArchiveCursor(raw: string, sort: ArchiveSortField): ArchiveCursor | null {
+    try {
+        const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+        if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+        const [value, id] = parsed;
+        if (typeof id !== 'string') return null;
+        if (sort === 'date') {
+            if (typeof value !== 'string' || !CURSOR_DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) return null;
+        } else if (!Number.isInteger(value) || value < 0 || value > MAX_CURSOR_COUNT) {
+            return null;
+        }
+        return { value, id };
+    } catch {
+        return null;
+    }
+}
+
+// YYYY-MM-DD (UTC midnight) or a full ISO timestamp
+function parseDateParam(raw: string | null): string | undefined | null {
+    if (raw === null || raw === '') return undefined;
+    const time = Date.parse(raw);
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * Read a listing query from URL params:
+ * `room`, `sort`, `order`, `from` (inclusive), `to` (exclusive), `cursor`, `limit`.
+ */
+export function parseArchiveListQuery(params: URLSearchParams): { query: ArchiveListQuery | null; reason?: string } {
+    const room = (params.get('room') || MAIN_ROOM).toLowerCase();
+    if (!isValidRoomId(room)) {
+        return { query: null, reason: 'room must be lowercase letters, digits and dashes' };
+    }
+
+    const sort = (params.get('sort') || 'date') as ArchiveSortField;
+    if (!SORT_FIELDS.includes(sort)) {
+        return { query: null, reason: `sort must be one of ${SORT_FIELDS.join(', ')}` };
+    }
+
+    const order = params.get('order') || 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+        return { query: null, reason: 'order must be asc or desc' };
+    }
+
+    const from = parseDateParam(params.get('from'));
+    const to = parseDateParam(params.get('to'));
+    if (from === null || to === null) {
+        return { query: null, reason: 'from and to must be dates (YYYY-MM-DD or ISO 8601)' };
+    }
+
+    const limitParam = params.get('limit');
+    const limit = limitParam === null ? ARCHIVE_PAGE_SIZE : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ARCHIVE_PAGE_SIZE) {
+        return { query: null, reason: `limit must be an integer from 1 to ${MAX_ARCHIVE_PAGE_SIZE}` };
+    }
+
+    const cursorParam = params.get('cursor');
+    const cursor = cursorParam ? decodeArchiveCursor(cursorParam, sort) : undefined;
+    if (cursor === null) {
+        return { query: null, reason: 'invalid cursor' };
+    }
+
+    return { query: { room, sort, order, from, to, cursor, limit } };
+}
+
+// Summaries of the JSON archives, re-parsed only when a file changes
+const fsSummaryCache = new Map<string, { mtimeMs: number; summary: ArchiveSummary | null }>();
+
+async function readFsSummaries(): Promise<ArchiveSummary[]> {
+    let files: string[];
+    try {
+        files = (await fs.promises.readdir(ARCHIVES_DIR)).filter(f => f.endsWith('.json'));
+    } catch {
+        return [];
+    }
+
+    const present = new Set(files);
+    for (const file of fsSummaryCache.keys()) {
+        if (!present.has(file)) fsSummaryCache.delete(file);
+    }
+
+    const summaries = await Promise.all(files.map(async (file): Promise<ArchiveSummary | null> => {
+        const filePath = path.join(ARCHIVES_DIR, file);
+        try {
+            const { mtimeMs } = await fs.promises.stat(filePath);
+            const cached = fsSummaryCache.get(file);
+            if (cached && cached.mtimeMs === mtimeMs) return cached.summary;
+
+            const data = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+            const time = Date.parse(data.date);
+            const summary = Number.isNaN(time) ? null : {
+                id: file.replace(/\.json$/, ''),
+                date: new Date(time).toISOString(),
+                stroke_count: data.stroke_count ?? data.strokeCount ?? 0,
+                artist_count: data.artist_count ?? 0,
+                room: data.room ?? MAIN_ROOM,
+                prompt: data.prompt ?? null,
+                reaction_counts: data.reaction_counts ? parseReactionCounts(data.reaction_counts) : null,
+            };
+            fsSummaryCache.set(file, { mtimeMs, summary });
+            return summary;
+        } catch (err) {
+            console.error('[ArchiveStore] Error parsing archive:', file, err);
+            return null;
+        }
+    }));
+
+    return summaries.filter((s): s is ArchiveSummary => s !== null);
+}
+
+function sortKey(summary: ArchiveSummary, sort: ArchiveSortField): ArchiveCursor {
+    return { value: sort === 'date' ? summary.date : summary[sort], id: summary.id };
+}
+
+function compareSortKeys(a: ArchiveCursor, b: ArchiveCursor): number {
+    const byValue = typeof a.value === 'number' && typeof b.value === 'number'
+        ? a.value - b.value
+        : Date.parse(String(a.value)) - Date.parse(String(b.value));
+    return byValue || a.id.localeCompare(b.id);
+}
+
+async function listFsArchives(query: ArchiveListQuery): Promise<ArchiveListResult> {
+    const direction = query.order === 'asc' ? 1 : -1;
+    const from = query.from ? Date.parse(query.from) : -Infinity;
+    const to = query.to ? Date.parse(query.to) : Infinity;
+    const cursor = query.cursor;
+
+    const matching = (await readFsSummaries())
+        .filter(s => {
+            const time = Date.parse(s.date);
+            return s.room === query.room && time >= from && time < to &&
+                (!cursor || compareSortKeys(sortKey(s, query.sort), cursor) * direction > 0);
+        })
+        .sort((a, b) => compareSortKeys(sortKey(a, query.sort), sortKey(b, query.sort)) * direction);
+
+    const archives = matching.slice(0, query.limit);
+    const last = archives[archives.length - 1];
+    return {
+        archives,
+        nextCursor: matching.length > query.limit && last ? sortKey(last, query.sort) : null,
+    };
+}
+
+/**
+ * A page of archive summaries, from the database when available, otherwise
+ * from the JSON files. Cursors are only valid for the source that issued them.
+ */
+export async function listArchives(query: ArchiveListQuery): Promise<{ archives: ArchiveSummary[]; nextCursor: string | null }> {
+    const result = databaseService.isAvailable()
+        ? await databaseService.listArchives(query)
+        : await listFsArchives(query);
+    return {
+        archives: result.archives,
+        nextCursor: result.nextCursor ? encodeArchiveCursor(result.nextCursor) : null,
+    };
+}
+
+async function readStoredThumbnail(id: string): Promise<ArchiveThumbnail | null> {
+    if (databaseService.isAvailable()) {
+        const stored = await databaseService.getArchiveThumbnail(id);
+        if (stored) return stored;
+    }
+
+    const basePath = path.join(ARCHIVES_DIR, id);
+    try {
+        const svg = await fs.promises.readFile(`${basePath}.svg`, 'utf-8');
+        const png = await fs.promises.readFile(`${basePath}.png`).catch(() => null);
+        return { svg, png };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Thumbnail for an archive. Archives from before thumbnails were rendered at
+ * reset time get one rendered on first request, which is then stored.
+ */
+export async function loadArchiveThumbnail(id: string): Promise<ArchiveThumbnail | null> {
+    if (!isValidArchiveId(id)) return null;
+
+    const stored = await readStoredThumbnail(id);
+    if (stored) return stored;
+
+    const archive = await loadArchive(id);
+    if (!archive) return null;
+
+    const elements = (Array.isArray(archive.strokes) ? archive.strokes : []) as unknown as ExcalidrawElement[];
+    const thumbnail = await renderArchiveThumbnail(fadeElements(elements, archive.end_time));
+    console.log('[ArchiveStore] Rendered missing thumbnail for archive:', id);
+
+    const savedToDb = databaseService.isAvailable() &&
+        await databaseService.saveArchiveThumbnail(id, thumbnail.svg, thumbnail.png);
+    if (!savedToDb) {
+        const basePath = path.join(ARCHIVES_DIR, id);
+        try {
+            await fs.promises.writeFile(`${basePath}.svg`, thumbnail.svg);
+            if (thumbnail.png) await fs.promises.writeFile(`${basePath}.png`, thumbnail.png);
+        } catch (err) {
+            console.error('[ArchiveStore] Failed to store thumbnail:', id, err);
+        }
+    }
+    return thumbnail;
+}
+
+/**
+ * Remove an archive from the database and the filesystem (JSON plus rendered
+ * thumbnails). Returns whether it existed in either.
+ */
+export async function deleteArchive(id: string): Promise<boolean> {
+    if (!isValidArchiveId(id)) return false;
+
+    let deleted = databaseService.isAvailable() && await databaseService.deleteArchive(id);
+
+    // The local backup of a database archive is written as canvas-<id>.json
+    const names = id.startsWith('canvas-') ? [id] : [id, `canvas-${id}`];
+    for (const name of names) {
+        for (const ext of ['json', 'svg', 'png']) {
+            try {
+                await fs.promises.unlink(path.join(ARCHIVES_DIR, `${name}.${ext}`));
+                if (ext === 'json') deleted = true;
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    console.error('[ArchiveStore] Failed to delete archive file:', `${name}.${ext}`, err);
+                }
+            }
+        }
+    }
+
+    forgetArchiveExports(id);
+    if (deleted) console.log('[ArchiveStore] Deleted archive:', id);
+    return deleted;
+}
@@ -44,3 +44,22 @@ export function getJsonCookie<T>(name: string): T | null {
     return null;
   }
 }
+
+/**
+ * Read one cookie from a raw Cookie header (server side: handshakes, API
+ * requests). A value that isn't valid percent-encoding counts as missing,
+ * since the header comes straight from the client.
+ */
+export function readCookieHeader(header: string | undefined, name: string): string | undefined {
+  if (!header) return undefined;
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join('='));
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
@@ -7,6 +7,9 @@
  * Production domain: drawny.com
  */
 
+import type { Bounds } from '@/types';
+import { MAIN_ROOM, getRoomFromPath } from './roomUtils';
+
 // ─── Constants ───────────────────────────────────────────────────────────────
 
 const PRODUCTION_DOMAIN = 'drawny.com';
@@ -91,6 +94,39 @@ export function parseViewport(hash: string): ViewportCoordinates | null {
   }
 }
 
+/**
+ * Scene-space area visible for a viewport on a screen of the given size.
+ * Excalidraw maps screen to scene as `sceneX = screenX / zoom - scrollX`.
+ */
+export function getViewportBounds(viewport: ViewportCoordinates, width: number, height: number): Bounds {
+  return {
+    minX: -viewport.scrollX,
+    minY: -viewport.scrollY,
+    maxX: -viewport.scrollX + width / viewport.zoom,
+    maxY: -viewport.scrollY + height / viewport.zoom,
+  };
+}
+
+/**
+ * Scene point at the center of a viewport on a screen of the given size.
+ * Follow mode shares views this way so they line up across screen sizes.
+ */
+export function getViewportCenter(viewport: ViewportCoordinates, width: number, height: number): { x: number; y: number } {
+  return {
+    x: width / 2 / viewport.zoom - viewport.scrollX,
+    y: height / 2 / viewport.zoom - viewport.scrollY,
+  };
+}
+
+/** Viewport that puts a scene point at the center of the screen at a zoom */
+export function getViewportAround(x: number, y: number, zoom: number, width: number, height: number): ViewportCoordinates {
+  return {
+    scrollX: width / 2 / zoom - x,
+    scrollY: height / 2 / zoom - y,
+    zoom,
+  };
+}
+
 // ─── URL Building ────────────────────────────────────────────────────────────
 
 /**
@@ -159,6 +195,7 @@ export function formatCoordinates(viewport: ViewportCoordinates): string {
  * This URL has server-rendered OG meta tags for social media previews.
  * 
  * Format: https://drawny.com/s/[snapshotId]?x=100&y=-200&z=1.50
+ * (plus &room=[room] when sharing a named canvas)
  * 
  * @param snapshotId - The uploaded snapshot ID
  * @param viewport - Current viewport coordinates
@@ -167,10 +204,17 @@ export function formatCoordinates(viewport: ViewportCoordinates): string {
 export function buildDynamicShareUrl(snapshotId: string, viewport?: ViewportCoordinates | null): string {
   const origin = getShareOrigin();
 
-  let queryParams = '';
+  const params = new URLSearchParams();
   if (viewport) {
-    queryParams = `?x=${Math.round(viewport.scrollX)}&y=${Math.round(viewport.scrollY)}&z=${viewport.zoom.toFixed(2)}`;
+    params.set('x', String(Math.round(viewport.scrollX)));
+    params.set('y', String(Math.round(viewport.scrollY)));
+    params.set('z', viewport.zoom.toFixed(2));
+  }
+  const room = typeof window !== 'undefined' ? getRoomFromPath(window.location.pathname) : MAIN_ROOM;
+  if (room !== MAIN_ROOM) {
+    params.set('room', room);
   }
 
-  return `${origin}/s/${snapshotId}${queryParams}`;
+  const query = params.toString();
+  return `${origin}/s/${snapshotId}${query ? `?${query}` : ''}`;
 }
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+import { readCookieHeader } from './cookieUtils';
+
+/**
+ * Anonymous, stable identity for a browser — used instead of the socket id
+ * wherever "the same person" matters (unique artists, cursors, ink).
+ *
+ * The id is issued on the Socket.io handshake response as a signed,
+ * HTTP-only cookie (`<id>.<signature>`), so refreshing or reconnecting keeps
+ * it, and clients can't pick or forge one. Signed with DEVICE_ID_SECRET;
+ * without it a per-process secret is used and ids reset on restart.
+ */
+
+export const DEVICE_COOKIE = 'drawny_device';
+const DEVICE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // seconds
+
+let secret: string | null = null;
+
+function getSecret(): string {
+    if (secret) return secret;
+    secret = process.env.DEVICE_ID_SECRET || null;
+    if (!secret) {
+        console.warn('[DeviceIdentity] ⚠️ DEVICE_ID_SECRET not set - device ids will not survive a restart');
+        secret = crypto.randomBytes(32).toString('hex');
+    }
+    return secret;
+}
+
+function sign(id: string): string {
+    return crypto.createHmac('sha256', getSecret()).update(`device:${id}`).digest('base64url');
+}
+
+function createDeviceCookie(): { id: string; value: string } {
+    const id = crypto.randomUUID();
+    return { id, value: `${id}.${sign(id)}` };
+}
+
+// Device id from a cookie value, or null if missing or tampered with
+export function verifyDeviceCookie(value: string | undefined): string | null {
+    if (!value) return null;
+    const [id, signature] = value.split('.');
+    if (!id || !signature) return null;
+    const expected = Buffer.from(sign(id));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+    return id;
+}
+
+// Ids issued on a handshake response, for the connection that follows on the same request
+const issuedIds = new WeakMap<IncomingMessage, string>();
+
+/**
+ * Engine.IO `initial_headers` hook: make sure the handshake response carries
+ * a valid device cookie, issuing a new id when the request has none.
+ */
+export function issueDeviceCookie(headers: Record<string, string | string[]>, request: IncomingMessage): void {
+    if (verifyDeviceCookie(readCookieHeader(request.headers.cookie, DEVICE_COOKIE))) return;
+
+    const { id, value } = createDeviceCookie();
+    issuedIds.set(request, id);
+    const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+    const cookie = `${DEVICE_COOKIE}=${value}; Max-Age=${DEVICE_COOKIE_MAX_AGE}; Path=/; HttpOnly; SameSite=Lax${secure}`;
+    const existing = headers['set-cookie'];
+    headers['set-cookie'] = existing ? [...(Array.isArray(existing) ? existing : [existing]), cookie] : cookie;
+}
+
+/**
+ * Device id of a socket's handshake request. Falls back to the given id
+ * (the socket id) when no cookie could be issued, e.g. cookies disabled.
+ */
+export function getDeviceId(request: IncomingMessage, fallback: string): string {
+    return verifyDeviceCookie(readCookieHeader(request.headers.cookie, DEVICE_COOKIE))
+        ?? issuedIds.get(request)
+        ?? fallback;
+}
@@ -0,0 +1,285 @@
+import { Bounds, CursorPosition, ExcalidrawElement, FollowView, PinRequest, REACTION_EMOJIS, ReactionEmoji, ReactionRequest } from '../types';
+
+/**
+ * Schema checks for untrusted socket payloads.
+ *
+ * The client only ever produces drawing elements through Excalidraw, so anything
+ * outside that shape (unknown types, huge point arrays, absurd coordinates)
+ * came from a modified client and is dropped before it reaches StrokeStorage.
+ * Accepted elements are copied field by field, so unknown fields never get
+ * stored or broadcast.
+ */
+
+export const ELEMENT_LIMITS = {
+    maxElementsPerUpdate: 200,
+    maxPointsPerElement: 5000,
+    maxCoordinate: 1_000_000,
+    maxIdLength: 64,
+    maxStringLength: 64,
+    maxStrokeWidth: 64,
+    maxPinLength: 80,
+    maxZoom: 30, // Excalidraw's own zoom limit
+    maxGroupIds: 16,
+    maxBoundElements: 32,
+    maxLinkLength: 512,
+} as const;
+
+// Element types the drawny toolbar can produce
+const ALLOWED_ELEMENT_TYPES = new Set(['freedraw', 'line', 'arrow', 'rectangle', 'diamond', 'ellipse']);
+
+export interface ValidationResult<T> {
+    valid: T[];
+    invalidCount: number;
+    reason?: string; // First problem found, suitable for showing to the sender
+}
+
+function isFiniteInRange(value: unknown, limit: number): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+}
+
+function isShortString(value: unknown, maxLength: number): value is string {
+    return typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+}
+
+function isPoint(value: unknown): value is [number, number] {
+    return Array.isArray(value) && value.length === 2
+        && isFiniteInRange(value[0], ELEMENT_LIMITS.maxCoordinate) && isFiniteInRange(value[1], ELEMENT_LIMITS.maxCoordinate);
+}
+
+function isIdList(value: unknown, maxLength: number): value is string[] {
+    return Array.isArray(value) && value.length <= maxLength
+        && value.every(id => isShortString(id, ELEMENT_LIMITS.maxIdLength));
+}
+
+// Links open in other people's browsers, so only plain web addresses
+function isSafeLink(value: unknown): value is string {
+    if (typeof value !== 'string' || value.length > ELEMENT_LIMITS.maxLinkLength) return false;
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+function isBinding(value: unknown): boolean {
+    if (value === null || value === undefined) return true;
+    if (typeof value !== 'object') return false;
+    const binding = value as Record<string, unknown>;
+    return isShortString(binding.elementId, ELEMENT_LIMITS.maxIdLength)
+        && isFiniteInRange(binding.focus, ELEMENT_LIMITS.maxCoordinate)
+        && isFiniteInRange(binding.gap, ELEMENT_LIMITS.maxCoordinate)
+        && (binding.fixedPoint === undefined || binding.fixedPoint === null || isPoint(binding.fixedPoint));
+}
+
+function isOptionalShortString(value: unknown): boolean {
+    return value === undefined || value === null || isShortString(value, ELEMENT_LIMITS.maxStringLength);
+}
+
+/**
+ * Check one element. Returns a reason string if invalid, null if OK.
+ */
+function checkElement(raw: unknown): string | null {
+    if (!raw || typeof raw !== 'object') return 'element is not an object';
+    const el = raw as Record<string, unknown>;
+
+    if (!isShortString(el.id, ELEMENT_LIMITS.maxIdLength)) return 'element id must be a short string';
+    if (typeof el.type !== 'string' || !ALLOWED_ELEMENT_TYPES.has(el.type)) return `element type "${String(el.type)}" is not allowed`;
+    if (!Number.isInteger(el.version) || (el.version as number) < 0) return 'element version must be a non-negative integer';
+    if (typeof el.versionNonce !== 'number') return 'element versionNonce must be a number';
+    if (el.isDeleted !== undefined && typeof el.isDeleted !== 'boolean') return 'element isDeleted must be a boolean';
+
+    const max = ELEMENT_LIMITS.maxCoordinate;
+    if (!isFiniteInRange(el.x, max) || !isFiniteInRange(el.y, max)) return 'element position is out of range';
+    if (!isFiniteInRange(el.width, max) || !isFiniteInRange(el.height, max)) return 'element size is out of range';
+
+    // Host limits, palette rules and rendering all read the color as a string
+    if (!isShortString(el.strokeColor, ELEMENT_LIMITS.maxStringLength)) return 'element strokeColor must be a short string';
+    if (el.strokeWidth !== undefined && (!isFiniteInRange(el.strokeWidth, ELEMENT_LIMITS.maxStrokeWidth) || (el.strokeWidth as number) < 0)) {
+        return 'element strokeWidth is out of range';
+    }
+
+    if (el.type === 'freedraw' || el.type === 'line' || el.type === 'arrow') {
+        if (!Array.isArray(el.points)) return 'element points must be an array';
+        if (el.points.length > ELEMENT_LIMITS.maxPointsPerElement) return 'element has too many points';
+        if (!el.points.every(isPoint)) return 'element points must be [x, y] pairs in range';
+        if (el.lastCommittedPoint !== undefined && el.lastCommittedPoint !== null && !isPoint(el.lastCommittedPoint)) {
+            return 'element lastCommittedPoint is invalid';
+        }
+    }
+    if (el.pressures !== undefined && (!Array.isArray(el.pressures) || el.pressures.length > ELEMENT_LIMITS.maxPointsPerElement
+        || !el.pressures.every(pressure => isFiniteInRange(pressure, 1)))) {
+        return 'element pressures are invalid';
+    }
+    if (!isBinding(el.startBinding) || !isBinding(el.endBinding)) return 'element binding is invalid';
+
+    if (el.groupIds !== undefined && !isIdList(el.groupIds, ELEMENT_LIMITS.maxGroupIds)) return 'element groupIds must be a short list of ids';
+    if (el.boundElements !== undefined && el.boundElements !== null && !(Array.isArray(el.boundElements)
+        && el.boundElements.length <= ELEMENT_LIMITS.maxBoundElements
+        && el.boundElements.every(bound => bound && typeof bound === 'object'
+            && isShortString(bound.id, ELEMENT_LIMITS.maxIdLength) && isShortString(bound.type, ELEMENT_LIMITS.maxStringLength)))) {
+        return 'element boundElements must be a short list of ids';
+    }
+    if (el.link !== undefined && el.link !== null && !isSafeLink(el.link)) return 'element link must be an http(s) URL';
+    if (el.frameId !== undefined && el.frameId !== null && !isShortString(el.frameId, ELEMENT_LIMITS.maxIdLength)) return 'element frameId is invalid';
+
+    for (const field of ['backgroundColor', 'fillStyle', 'strokeStyle', 'index', 'startArrowhead', 'endArrowhead'] as const) {
+        if (!isOptionalShortString(el[field])) return `element ${field} is invalid`;
+    }
+    for (const field of ['angle', 'roughness', 'seed', 'updated'] as const) {
+        if (el[field] !== undefined && !(typeof el[field] === 'number' && Number.isFinite(el[field]))) return `element ${field} must be a number`;
+    }
+    if (el.opacity !== undefined && (!isFiniteInRange(el.opacity, 100) || (el.opacity as number) < 0)) return 'element opacity is out of range';
+    for (const field of ['locked', 'simulatePressure', 'elbowed'] as const) {
+        if (el[field] !== undefined && typeof el[field] !== 'boolean') return `element ${field} must be a boolean`;
+    }
+    if (el.roundness !== undefined && el.roundness !== null) {
+        const roundness = el.roundness as Record<string, unknown>;
+        if (typeof roundness !== 'object' || !Number.isInteger(roundness.type)
+            || (roundness.value !== undefined && !isFiniteInRange(roundness.value, max))) {
+            return 'element roundness is invalid';
+        }
+    }
+
+    return null;
+}
+
+// Fields an Excalidraw drawing element can have; customData is left out, the server stamps its own (see strokeDecay)
+const ELEMENT_FIELDS = [
+    'id', 'type', 'x', 'y', 'width', 'height', 'angle', 'strokeColor', 'backgroundColor', 'fillStyle',
+    'strokeWidth', 'strokeStyle', 'roundness', 'roughness', 'opacity', 'seed', 'version', 'versionNonce',
+    'index', 'isDeleted', 'groupIds', 'frameId', 'boundElements', 'updated', 'link', 'locked',
+    'points', 'pressures', 'simulatePressure', 'lastCommittedPoint',
+    'startBinding', 'endBinding', 'startArrowhead', 'endArrowhead', 'elbowed',
+] as const;
+
+// Copy of a checked element with only the known fields, nested values rebuilt to their checked shape
+function copyElement(raw: Record<string, unknown>): ExcalidrawElement {
+    const el: Record<string, unknown> = {};
+    for (const field of ELEMENT_FIELDS) {
+        if (raw[field] !== undefined) el[field] = raw[field];
+    }
+    // Fresh [x, y] tuples, so nothing else the sender packed into a point is kept
+    if (Array.isArray(el.points)) {
+        el.points = (el.points as [number, number][]).map(([x, y]) => [x, y]);
+    }
+    if (el.lastCommittedPoint) {
+        const [x, y] = el.lastCommittedPoint as [number, number];
+        el.lastCommittedPoint = [x, y];
+    }
+    if (Array.isArray(el.boundElements)) {
+        el.boundElements = (el.boundElements as Record<string, unknown>[]).map(({ id, type }) => ({ id, type }));
+    }
+    if (el.roundness) {
+        const { type, value } = el.roundness as Record<string, unknown>;
+        el.roundness = value === undefined ? { type } : { type, value };
+    }
+    for (const field of ['startBinding', 'endBinding'] as const) {
+        if (!el[field]) continue;
+        const { elementId, focus, gap, fixedPoint } = el[field] as Record<string, unknown>;
+        const binding: Record<string, unknown> = { elementId, focus, gap };
+        if (Array.isArray(fixedPoint)) binding.fixedPoint = [fixedPoint[0], fixedPoint[1]];
+        else if (fixedPoint === null) binding.fixedPoint = null;
+        el[field] = binding;
+    }
+    return el as unknown as ExcalidrawElement;
+}
+
+/**
+ * Validate a scene:update payload.
+ * A malformed or oversized payload is rejected entirely; otherwise invalid
+ * elements are dropped and the rest are returned.
+ */
+export function validateSceneUpdate(payload: unknown): ValidationResult<ExcalidrawElement> {
+    if (!Array.isArray(payload)) {
+        return { valid: [], invalidCount: 0, reason: 'scene update must be an array of elements' };
+    }
+    if (payload.length > ELEMENT_LIMITS.maxElementsPerUpdate) {
+        return {
+            valid: [],
+            invalidCount: payload.length,
+            reason: `scene update has ${payload.length} elements (max ${ELEMENT_LIMITS.maxElementsPerUpdate})`,
+        };
+    }
+
+    const valid: ExcalidrawElement[] = [];
+    let invalidCount = 0;
+    let reason: string | undefined;
+
+    for (const raw of payload) {
+        const problem = checkElement(raw);
+        if (problem) {
+            invalidCount++;
+            reason = reason ?? problem;
+        } else {
+            valid.push(copyElement(raw as Record<string, unknown>));
+        }
+    }
+
+    return { valid, invalidCount, reason };
+}
+
+/**
+ * Validate a cursor:move payload. Returns a sanitized copy or null.
+ */
+// Only the position is taken; name and color come from the sender's profile
+export function validateCursor(payload: unknown): CursorPosition | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const cursor = payload as Record<string, unknown>;
+
+    if (!isFiniteInRange(cursor.x, ELEMENT_LIMITS.maxCoordinate) || !isFiniteInRange(cursor.y, ELEMENT_LIMITS.maxCoordinate)) return null;
+
+    return { x: cursor.x, y: cursor.y };
+}
+
+export function validateReaction(payload: unknown): ReactionRequest | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const reaction = payload as Record<string, unknown>;
+
+    if (!REACTION_EMOJIS.includes(reaction.emoji as ReactionEmoji)) return null;
+    if (!isFiniteInRange(reaction.x, ELEMENT_LIMITS.maxCoordinate) || !isFiniteInRange(reaction.y, ELEMENT_LIMITS.maxCoordinate)) return null;
+
+    return { emoji: reaction.emoji as ReactionEmoji, x: reaction.x, y: reaction.y };
+}
+
+/**
+ * Validate a pin:add payload. The text is trimmed and whitespace collapsed
+ * to single spaces, so a note is always one short line.
+ */
+export function validatePin(payload: unknown): PinRequest | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const pin = payload as Record<string, unknown>;
+
+    if (typeof pin.text !== 'string') return null;
+    const text = pin.text.replace(/[\s\u0000-\u001f\u007f]+/g, ' ').trim();
+    if (!text || text.length > ELEMENT_LIMITS.maxPinLength) return null;
+    if (!isFiniteInRange(pin.x, ELEMENT_LIMITS.maxCoordinate) || !isFiniteInRange(pin.y, ELEMENT_LIMITS.maxCoordinate)) return null;
+
+    return { text, x: pin.x, y: pin.y };
+}
+
+/**
+ * Validate a viewport:update payload (or the viewport in the handshake). Returns a copy or null.
+ * Bounds may reach past maxCoordinate when zoomed far out, so allow a wider range.
+ */
+export function validateViewportBounds(payload: unknown): Bounds | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const bounds = payload as Record<string, unknown>;
+    const max = ELEMENT_LIMITS.maxCoordinate * 10;
+
+    if (!isFiniteInRange(bounds.minX, max) || !isFiniteInRange(bounds.minY, max)) return null;
+    if (!isFiniteInRange(bounds.maxX, max) || !isFiniteInRange(bounds.maxY, max)) return null;
+    if (bounds.minX > bounds.maxX || bounds.minY > bounds.maxY) return null;
+
+    return { minX: bounds.minX, minY: bounds.minY, maxX: bounds.maxX, maxY: bounds.maxY };
+}
+
+export function validateFollowView(payload: unknown): FollowView | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const view = payload as Record<string, unknown>;
+
+    if (!isFiniteInRange(view.x, ELEMENT_LIMITS.maxCoordinate) || !isFiniteInRange(view.y, ELEMENT_LIMITS.maxCoordinate)) return null;
+    if (!isFiniteInRange(view.zoom, ELEMENT_LIMITS.maxZoom) || view.zoom <= 0) return null;
+
+    return { x: view.x, y: view.y, zoom: view.zoom };
+}
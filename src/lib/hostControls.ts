@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { CanvasHostState, COLORS, ExcalidrawElement, HostRestrictions, RESTRICTABLE_TOOLS, RestrictableTool } from '../types';
+import { INK_CONFIG } from './InkManager';
+import { normalizeColor } from './paletteRules';
+
+/**
+ * Host controls for classroom and workshop canvases. The first device to
+ * claim a named room becomes its host and can pause drawing, clear the board,
+ * limit the palette and tools, grant extra ink and archive on demand.
+ * Moderators can do the same in any room, including main.
+ *
+ * That first claim also makes the room's host key. Only its hash is kept,
+ * saved with the canvas, and from then on claiming needs the key: that is
+ * how the host gets the room back after a restart or unload, or on another
+ * device. Until someone claims a room anyone can, so a teacher should claim
+ * it before sharing the link.
+ *
+ * The rest of the host state lives with the loaded room and is relayed
+ * between nodes; limits and pauses end when the room is unloaded.
+ */
+
+export interface HostState extends HostRestrictions {
+    hostId: string | null; // Device id of the host
+    frozen: boolean;
+}
+
+// How long ink granted by a host lasts
+export const HOST_INK_GRANT_MS = 10 * 60 * 1000;
+
+export function createHostState(): HostState {
+    return { hostId: null, frozen: false, allowedColors: null, allowedTools: null };
+}
+
+// What participants see — never the host's device id. A room with a host key stays hosted while its host is away
+export function getPublicHostState(state: HostState, hasHostKey: boolean): CanvasHostState {
+    return {
+        hosted: state.hostId !== null || hasHostKey,
+        frozen: state.frozen,
+        allowedColors: state.allowedColors,
+        allowedTools: state.allowedTools,
+    };
+}
+
+export function hashHostKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// A new host key, and the hash to store
+export function createHostKey(): { key: string; hash: string } {
+    const key = crypto.randomBytes(18).toString('base64url');
+    return { key, hash: hashHostKey(key) };
+}
+
+export function isHostKey(key: unknown, hash: string): boolean {
+    if (typeof key !== 'string' || key.length === 0 || key.length > 64) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = Buffer.from(hashHostKey(key), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function isRestrictableTool(tool: unknown): tool is RestrictableTool {
+    return RESTRICTABLE_TOOLS.includes(tool as RestrictableTool);
+}
+
+/**
+ * Validate a host:restrict payload. Colors must come from the palette and at
+ * least one must stay allowed; tools may all be turned off (leaving the hand).
+ */
+export function validateHostRestrictions(payload: unknown): HostRestrictions | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const { allowedColors, allowedTools } = payload as Record<string, unknown>;
+
+    if (allowedColors !== null) {
+        if (!Array.isArray(allowedColors) || allowedColors.length === 0) return null;
+        if (!allowedColors.every(color => (COLORS as readonly unknown[]).includes(color))) return null;
+    }
+    if (allowedTools !== null) {
+        if (!Array.isArray(allowedTools) || !allowedTools.every(isRestrictableTool)) return null;
+    }
+
+    return {
+        allowedColors: allowedColors === null ? null : Array.from(new Set(allowedColors as string[])),
+        allowedTools: allowedTools === null ? null : Array.from(new Set(allowedTools as RestrictableTool[])),
+    };
+}
+
+/**
+ * Whether a participant's change needs a color or tool the host turned off.
+ * New (or restored) strokes need the brush, deleting one needs the eraser;
+ * only a color the sender changed counts, as with the palette schedule.
+ */
+export function breaksHostRestrictions(restrictions: HostRestrictions, el: ExcalidrawElement, previous?: ExcalidrawElement): boolean {
+    const { allowedColors, allowedTools } = restrictions;
+
+    if (el.isDeleted) {
+        const erasing = previous !== undefined && !previous.isDeleted;
+        return erasing && allowedTools !== null && !allowedTools.includes('eraser');
+    }
+    const drawing = !previous || previous.isDeleted;
+    if (drawing && allowedTools && !allowedTools.includes('brush')) return true;
+    if (allowedColors === null) return false;
+    // A stroke without a readable color can't be checked against the list
+    const color = normalizeColor(el.strokeColor);
+    if (color === null) return true;
+    return el.strokeColor !== previous?.strokeColor && !allowedColors.includes(color);
+}
+
+// Extra ink per grant: a whole number up to one full tank
+export function validateInkGrant(amount: unknown): number | null {
+    return Number.isInteger(amount) && (amount as number) > 0 && (amount as number) <= INK_CONFIG.maxInk
+        ? amount as number
+        : null;
+}
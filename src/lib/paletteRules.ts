@@ -0,0 +1,45 @@
+import { BRUSH_SIZES, ExcalidrawElement, PaletteRule } from '../types';
+
+/**
+ * Checks shared by the server (enforcing the scheduled palette) and the
+ * toolbar (offering only what it allows). The schedule itself is read on
+ * the server by PaletteSchedule.
+ */
+
+// Stroke colors as the allow-lists store them; null when the value isn't a color string
+export function normalizeColor(value: unknown): string | null {
+    return typeof value === 'string' ? value.toLowerCase() : null;
+}
+
+/**
+ * Whether a stroke uses a color or width the rule doesn't allow. Only what
+ * the sender changed counts: erasing or moving a stroke drawn before the
+ * rule started is fine. A stroke without a readable color always breaks a
+ * color rule.
+ */
+export function breaksPaletteRule(rule: PaletteRule, el: ExcalidrawElement, previous?: ExcalidrawElement): boolean {
+    if (el.isDeleted) return false;
+
+    if (rule.allowedColors) {
+        const color = normalizeColor(el.strokeColor);
+        if (color === null) return true;
+        if (el.strokeColor !== previous?.strokeColor && !rule.allowedColors.includes(color)) return true;
+    }
+    if (rule.allowedSizes && el.strokeWidth !== previous?.strokeWidth
+        && !rule.allowedSizes.some(size => BRUSH_SIZES[size] === el.strokeWidth)) {
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Combine two allow-lists (null: anything). When two non-empty lists have
+ * nothing in common the second one wins, since that's the one the server
+ * enforces.
+ */
+export function intersectAllowed<T>(first: readonly T[] | null, second: readonly T[] | null): readonly T[] | null {
+    if (!first) return second;
+    if (!second) return first;
+    const both = first.filter(item => second.includes(item));
+    return both.length > 0 || first.length === 0 ? both : second;
+}
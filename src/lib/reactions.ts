@@ -0,0 +1,62 @@
+import { Pin, REACTION_EMOJIS, ReactionCounts, ReactionEmoji } from '../types';
+
+/**
+ * Emoji reactions and pinned notes, shared by the server (limits, counts)
+ * and the canvas and gallery (display). Reactions are never stored, only
+ * counted per cycle; pins stay on the canvas until the reset.
+ */
+
+// How long a reaction floats on screen
+export const REACTION_DISPLAY_MS = 4000;
+
+export const PIN_LIMITS = {
+    maxPerRoom: 100,
+    maxPerDevice: 3, // Live pins at once; removing one frees a slot
+} as const;
+
+// Why a device can't pin another note right now, or null if it can
+export function getPinLimitError(pins: readonly Pin[], userId: string): string | null {
+    if (pins.length >= PIN_LIMITS.maxPerRoom) return 'This canvas is full of pins';
+    if (pins.filter(pin => pin.userId === userId).length >= PIN_LIMITS.maxPerDevice) {
+        return `You can pin up to ${PIN_LIMITS.maxPerDevice} notes at a time`;
+    }
+    return null;
+}
+
+export function addReaction(counts: ReactionCounts, emoji: ReactionEmoji): ReactionCounts {
+    return { ...counts, [emoji]: (counts[emoji] ?? 0) + 1 };
+}
+
+/**
+ * Combine two nodes' counts of the same cycle. Every node counts every
+ * reaction, so the higher count is the one that saw more of them.
+ */
+export function mergeReactionCounts(first: ReactionCounts, second: ReactionCounts): ReactionCounts {
+    const merged: ReactionCounts = { ...first };
+    REACTION_EMOJIS.forEach(emoji => {
+        const count = Math.max(first[emoji] ?? 0, second[emoji] ?? 0);
+        if (count > 0) merged[emoji] = count;
+    });
+    return merged;
+}
+
+// Counts from storage, keeping only known emoji with positive whole counts
+export function parseReactionCounts(raw: unknown): ReactionCounts {
+    const counts: ReactionCounts = {};
+    if (!raw || typeof raw !== 'object') return counts;
+    REACTION_EMOJIS.forEach(emoji => {
+        const count = (raw as Record<string, unknown>)[emoji];
+        if (Number.isInteger(count) && (count as number) > 0) counts[emoji] = count as number;
+    });
+    return counts;
+}
+
+// Emoji that were used, most used first, for the gallery
+export function getTopReactions(counts: ReactionCounts | null | undefined, limit: number = REACTION_EMOJIS.length): { emoji: ReactionEmoji; count: number }[] {
+    if (!counts) return [];
+    return REACTION_EMOJIS
+        .map(emoji => ({ emoji, count: counts[emoji] ?? 0 }))
+        .filter(entry => entry.count > 0)
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit);
+}
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * When the canvas resets: every N hours, aligned to a wall-clock anchor in a
+ * time zone — e.g. every 12h at 06:00 Europe/Berlin resets at 06:00 and
+ * 18:00 local time, DST included.
+ *
+ * Intervals that don't divide a day (say 16h) can't land on the same clock
+ * times every day, so they count whole intervals from the anchor instant
+ * instead: every 16h from 2025-03-01 08:00 resets at 08:00, then 00:00 and
+ * 16:00 the next day, and so on.
+ *
+ * Configured with RESET_INTERVAL_HOURS (1 to 168, default 24), RESET_ANCHOR
+ * (HH:MM or YYYY-MM-DD HH:MM, default 00:00; the date only matters for
+ * intervals that don't divide 24) and RESET_TIMEZONE (IANA name, default
+ * UTC). Named rooms can set their own in rooms.json (getRoomResetSchedule).
+ * The next reset is derived from the cycle's start time, which is persisted,
+ * so a restart keeps the same deadline.
+ */
+
+export interface ResetSchedule {
+    intervalHours: number;
+    anchorDate: string; // YYYY-MM-DD
+    anchorHour: number;
+    anchorMinute: number;
+    timeZone: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Shortest cycle allowed, so a canvas started just before a slot (manual reset, first boot) isn't wiped minutes later
+const MIN_CYCLE_MS = HOUR_MS;
+
+// A week: the longest cycle that still feels like the same canvas
+const MAX_INTERVAL_HOURS = 168;
+
+export const DEFAULT_RESET_SCHEDULE: ResetSchedule = {
+    intervalHours: 24,
+    anchorDate: '2024-01-01',
+    anchorHour: 0,
+    anchorMinute: 0,
+    timeZone: 'UTC',
+};
+
+function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Schedule fields as written in the environment or rooms.json
+interface ResetScheduleSettings {
+    interval?: unknown;
+    anchor?: unknown;
+    timezone?: unknown;
+}
+
+/**
+ * Apply settings on top of a base schedule. Invalid values keep the base
+ * value for that field, with a warning, rather than stopping the server.
+ */
+function applyScheduleSettings(base: ResetSchedule, settings: ResetScheduleSettings, source: string): ResetSchedule {
+    const schedule = { ...base };
+    const { interval, anchor, timezone } = settings;
+
+    if (interval !== undefined && interval !== '') {
+        const hours = Number(interval);
+        if (Number.isInteger(hours) && hours > 0 && hours <= MAX_INTERVAL_HOURS) {
+            schedule.intervalHours = hours;
+        } else {
+            console.warn('[ResetSchedule] ⚠️', source, 'interval must be a whole number of hours from 1 to', MAX_INTERVAL_HOURS, '- using', schedule.intervalHours);
+        }
+    }
+
+    if (anchor !== undefined && anchor !== '') {
+        const match = typeof anchor === 'string' ? /^(?:(\d{4}-\d{2}-\d{2})[ T])?(\d{1,2}):(\d{2})$/.exec(anchor.trim()) : null;
+        const date = match?.[1];
+        const hour = match ? Number(match[2]) : NaN;
+        const minute = match ? Number(match[3]) : NaN;
+        if (hour < 24 && minute < 60 && (!date || !Number.isNaN(Date.parse(date)))) {
+            if (date) schedule.anchorDate = date;
+            schedule.anchorHour = hour;
+            schedule.anchorMinute = minute;
+        } else {
+            console.warn('[ResetSchedule] ⚠️', source, 'anchor must be HH:MM or YYYY-MM-DD HH:MM - keeping', describeResetSchedule(schedule));
+        }
+    }
+
+    if (timezone !== undefined && timezone !== '') {
+        if (typeof timezone === 'string' && isValidTimeZone(timezone)) {
+            schedule.timeZone = timezone;
+        } else {
+            console.warn('[ResetSchedule] ⚠️', source, 'has an unknown time zone', timezone, '- using', schedule.timeZone);
+        }
+    }
+
+    return schedule;
+}
+
+// Read the schedule from the environment (RESET_INTERVAL_HOURS, RESET_ANCHOR, RESET_TIMEZONE)
+export function parseResetSchedule(env: NodeJS.ProcessEnv = process.env): ResetSchedule {
+    return applyScheduleSettings(DEFAULT_RESET_SCHEDULE, {
+        interval: env.RESET_INTERVAL_HOURS,
+        anchor: env.RESET_ANCHOR,
+        timezone: env.RESET_TIMEZONE,
+    }, 'RESET_*');
+}
+
+/**
+ * The schedule of one room: the environment's, with whatever the room's
+ * entry in ROOMS_FILE (defaulting to rooms.json in the project root)
+ * changes, e.g.
+ *
+ *   { "physics-101": { "interval": 16, "anchor": "2025-03-01 08:00", "timezone": "Europe/Berlin" } }
+ *
+ * Read when the room loads, so edits apply the next time it does.
+ */
+export function getRoomResetSchedule(roomId: string, env: NodeJS.ProcessEnv = process.env): ResetSchedule {
+    const schedule = parseResetSchedule(env);
+    const filePath = env.ROOMS_FILE || path.join(process.cwd(), 'rooms.json');
+    let rooms: unknown;
+    try {
+        rooms = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error('[ResetSchedule] Failed to read', filePath, err);
+        }
+        return schedule;
+    }
+    const entry = rooms && typeof rooms === 'object' && Object.prototype.hasOwnProperty.call(rooms, roomId)
+        ? (rooms as Record<string, unknown>)[roomId]
+        : undefined;
+    if (!entry || typeof entry !== 'object') return schedule;
+    return applyScheduleSettings(schedule, entry as ResetScheduleSettings, `${filePath} room "${roomId}"`);
+}
+
+// Offset of a time zone from UTC at an instant, in ms (positive east of UTC)
+function getTimeZoneOffset(time: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    }).formatToParts(time);
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return asUtc - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a wall-clock time in a time zone (month is 0-based;
+ * overflowing fields roll over). A time skipped by a spring-forward gap
+ * resolves to the first instant after the gap, e.g. 02:30 in Europe/Berlin
+ * on 2026-03-29 is 03:00 CEST (01:00Z), not 01:30 or 03:30.
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+    const wallClock = Date.UTC(year, month, day, hour, minute);
+    const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+    // Re-check once: the offset may differ on the other side of a DST change
+    const time = wallClock - getTimeZoneOffset(guess, timeZone);
+    const toLocal = (instant: number) => instant + getTimeZoneOffset(instant, timeZone);
+    if (toLocal(time) === wallClock) return time;
+
+    // In a gap the two candidates straddle the change: find the first second whose local time reaches the wall clock
+    let before = Math.min(guess, time);
+    let after = Math.max(guess, time);
+    while (after - before > 1000) {
+        const middle = before + Math.floor((after - before) / 2000) * 1000;
+        if (toLocal(middle) >= wallClock) after = middle;
+        else before = middle;
+    }
+    return after;
+}
+
+// Scheduled reset instants on the local calendar day containing `time`, and the days either side
+function getResetSlotsAround(time: number, schedule: ResetSchedule): number[] {
+    const local = new Date(time + getTimeZoneOffset(time, schedule.timeZone));
+    const slots: number[] = [];
+    for (let dayOffset = -1; dayOffset <= 1; dayOffset++) {
+        for (let hour = 0; hour < 24; hour += schedule.intervalHours) {
+            slots.push(zonedTimeToUtc(
+                local.getUTCFullYear(),
+                local.getUTCMonth(),
+                local.getUTCDate() + dayOffset,
+                schedule.anchorHour + hour,
+                schedule.anchorMinute,
+                schedule.timeZone
+            ));
+        }
+    }
+    return slots.sort((a, b) => a - b);
+}
+
+// First reset at or after `earliest` for intervals that don't divide a day: the anchor plus whole intervals
+function getIntervalSlotAfter(earliest: number, schedule: ResetSchedule): number {
+    const [year, month, day] = schedule.anchorDate.split('-').map(Number);
+    const anchor = zonedTimeToUtc(year, month - 1, day, schedule.anchorHour, schedule.anchorMinute, schedule.timeZone);
+    const interval = schedule.intervalHours * HOUR_MS;
+    return anchor + Math.ceil((earliest - anchor) / interval) * interval;
+}
+
+/**
+ * The reset that ends a cycle started at `startTime`: the first scheduled
+ * slot at least MIN_CYCLE_MS (or half an interval, if shorter) later.
+ */
+export function getNextResetTime(startTime: number, schedule: ResetSchedule): number {
+    const earliest = startTime + Math.min(MIN_CYCLE_MS, (schedule.intervalHours * HOUR_MS) / 2);
+    if (24 % schedule.intervalHours !== 0) return getIntervalSlotAfter(earliest, schedule);
+    const next = getResetSlotsAround(earliest, schedule).find(slot => slot >= earliest);
+    // Slots come every interval, so one is always within a day of `earliest`
+    return next ?? earliest + DAY_MS;
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in a time zone
+export function getLocalDate(time: number, timeZone: string): string {
+    return new Date(time + getTimeZoneOffset(time, timeZone)).toISOString().slice(0, 10);
+}
+
+// Minutes since local midnight of an instant in a time zone
+export function getLocalMinuteOfDay(time: number, timeZone: string): number {
+    const local = new Date(time + getTimeZoneOffset(time, timeZone));
+    return local.getUTCHours() * 60 + local.getUTCMinutes();
+}
+
+export function describeResetSchedule(schedule: ResetSchedule): string {
+    const time = `${String(schedule.anchorHour).padStart(2, '0')}:${String(schedule.anchorMinute).padStart(2, '0')}`;
+    const anchor = 24 % schedule.intervalHours === 0 ? time : `${schedule.anchorDate} ${time}`;
+    return `every ${schedule.intervalHours}h from ${anchor} ${schedule.timeZone}`;
+}
@@ -0,0 +1,40 @@
+/**
+ * Named canvases ("rooms"). The public canvas at / is the `main` room; any
+ * other room lives at /c/[room] with its own elements, artists, reset cycle
+ * and archives. Room ids come from URLs, so they are kept to a safe slug.
+ */
+
+export const MAIN_ROOM = 'main';
+
+const ROOM_ID_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,30}[a-z0-9])?$/;
+
+export function isValidRoomId(room: unknown): room is string {
+  return typeof room === 'string' && ROOM_ID_PATTERN.test(room);
+}
+
+// Room ids are case-insensitive in URLs
+export function normalizeRoomId(room: string): string {
+  try {
+    return decodeURIComponent(room).trim().toLowerCase();
+  } catch {
+    return room.trim().toLowerCase(); // Malformed escapes fail validation later
+  }
+}
+
+// Path of a room's live canvas
+export function getRoomPath(room: string): string {
+  return room === MAIN_ROOM ? '/' : `/c/${room}`;
+}
+
+// Path of a room's gallery
+export function getRoomGalleryPath(room: string): string {
+  return room === MAIN_ROOM ? '/gallery' : `/gallery?room=${room}`;
+}
+
+// Room of a canvas page path (/ or /c/[room])
+export function getRoomFromPath(pathname: string): string {
+  const match = /^\/c\/([^/]+)\/?$/.exec(pathname);
+  if (!match) return MAIN_ROOM;
+  const room = normalizeRoomId(match[1]);
+  return isValidRoomId(room) ? room : MAIN_ROOM;
+}
@@ -0,0 +1,283 @@
+import type { ExcalidrawElement, PackedElements, WireCodec, WireElements } from '../types';
+
+/**
+ * Compact binary encoding for element lists sent over Socket.io.
+ *
+ * Layout of a packed-v1 buffer:
+ *   [uint32 LE header length][header JSON][point data]
+ *
+ * The header holds each element with `points` removed and fields that equal
+ * the Excalidraw defaults stripped (`$d` is a bitmask of which ones). Point
+ * arrays go into the data section, either as zigzag varint deltas of
+ * coordinates quantized to 1/100 px, or as raw float64 when quantizing would
+ * change a value. Decoding is exact, so calculateElementLength and rendering
+ * see the same numbers the sender had.
+ *
+ * Plain JSON arrays are always accepted too, which is the fallback when a
+ * peer doesn't support the packed codec.
+ */
+
+export const PACKED_CODEC = 'packed-v1';
+
+// Codecs this build understands, in order of preference
+export const SUPPORTED_CODECS: readonly WireCodec[] = [PACKED_CODEC, 'json'];
+
+// Largest packed scene:update the server will decode, below Socket.io's 1 MB message limit
+export const MAX_PACKED_UPDATE_BYTES = 512 * 1024;
+
+const POINT_SCALE = 100;
+const POINT_MODE_QUANTIZED = 0;
+const POINT_MODE_FLOAT64 = 1;
+
+// Field values Excalidraw assigns by default; at most 31 so the mask fits in an int
+const DEFAULT_FIELDS: readonly [string, unknown][] = [
+    ['angle', 0],
+    ['strokeColor', '#1e1e1e'],
+    ['backgroundColor', 'transparent'],
+    ['fillStyle', 'solid'],
+    ['strokeWidth', 2],
+    ['strokeStyle', 'solid'],
+    ['roughness', 1],
+    ['opacity', 100],
+    ['groupIds', []],
+    ['frameId', null],
+    ['roundness', null],
+    ['boundElements', null],
+    ['link', null],
+    ['locked', false],
+    ['isDeleted', false],
+    ['pressures', []],
+    ['simulatePressure', true],
+    ['lastCommittedPoint', null],
+    ['startBinding', null],
+    ['endBinding', null],
+    ['startArrowhead', null],
+    ['endArrowhead', null],
+    ['elbowed', false],
+];
+
+function isDefaultValue(value: unknown, defaultValue: unknown): boolean {
+    if (Array.isArray(defaultValue)) {
+        return Array.isArray(value) && value.length === 0;
+    }
+    return value === defaultValue;
+}
+
+function quantize(value: number): number {
+    return Math.round(value * POINT_SCALE);
+}
+
+// Growable byte buffer for the point section
+class ByteWriter {
+    private bytes = new Uint8Array(1024);
+    private view = new DataView(this.bytes.buffer);
+    length = 0;
+
+    private ensure(extra: number): void {
+        if (this.length + extra <= this.bytes.length) return;
+        let size = this.bytes.length * 2;
+        while (size < this.length + extra) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(this.bytes.subarray(0, this.length));
+        this.bytes = next;
+        this.view = new DataView(next.buffer);
+    }
+
+    // Zigzag varint; arithmetic instead of bit ops so values past 2^31 stay exact
+    writeSignedVarint(value: number): void {
+        let zigzag = value >= 0 ? value * 2 : -value * 2 - 1;
+        this.ensure(8);
+        while (zigzag >= 0x80) {
+            this.bytes[this.length++] = (zigzag % 0x80) + 0x80;
+            zigzag = Math.floor(zigzag / 0x80);
+        }
+        this.bytes[this.length++] = zigzag;
+    }
+
+    writeFloat64(value: number): void {
+        this.ensure(8);
+        this.view.setFloat64(this.length, value, true);
+        this.length += 8;
+    }
+
+    toBytes(): Uint8Array {
+        return this.bytes.subarray(0, this.length);
+    }
+}
+
+class ByteReader {
+    private offset = 0;
+    private readonly view: DataView;
+
+    constructor(private readonly bytes: Uint8Array, start: number) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        this.offset = start;
+    }
+
+    readSignedVarint(): number {
+        let result = 0;
+        let multiplier = 1;
+        for (;;) {
+            if (this.offset >= this.bytes.length) throw new Error('Packed scene data is truncated');
+            const byte = this.bytes[this.offset++];
+            result += (byte & 0x7f) * multiplier;
+            if (byte < 0x80) break;
+            multiplier *= 0x80;
+            if (multiplier > 2 ** 49) throw new Error('Packed scene data has an invalid varint');
+        }
+        return result % 2 === 0 ? result / 2 : -(result + 1) / 2;
+    }
+
+    readFloat64(): number {
+        if (this.offset + 8 > this.bytes.length) throw new Error('Packed scene data is truncated');
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return value;
+    }
+}
+
+type PackedHeaderElement = Record<string, unknown> & { $d?: number; $p?: [number, number] };
+
+/**
+ * Encode elements into a packed-v1 buffer.
+ */
+export function packElements(elements: readonly ExcalidrawElement[]): Uint8Array {
+    const writer = new ByteWriter();
+    const header: PackedHeaderElement[] = elements.map(element => {
+        const { points, ...rest } = element as ExcalidrawElement & { points?: readonly (readonly [number, number])[] };
+        const entry: PackedHeaderElement = { ...rest };
+
+        let mask = 0;
+        DEFAULT_FIELDS.forEach(([key, defaultValue], bit) => {
+            if (key in entry && isDefaultValue(entry[key], defaultValue)) {
+                delete entry[key];
+                mask |= 1 << bit;
+            }
+        });
+        if (mask !== 0) entry.$d = mask;
+
+        if (Array.isArray(points)) {
+            const exact = points.every(([x, y]) => quantize(x) / POINT_SCALE === x && quantize(y) / POINT_SCALE === y);
+            if (exact) {
+                let prevX = 0;
+                let prevY = 0;
+                points.forEach(([x, y]) => {
+                    const qx = quantize(x);
+                    const qy = quantize(y);
+                    writer.writeSignedVarint(qx - prevX);
+                    writer.writeSignedVarint(qy - prevY);
+                    prevX = qx;
+                    prevY = qy;
+                });
+            } else {
+                points.forEach(([x, y]) => {
+                    writer.writeFloat64(x);
+                    writer.writeFloat64(y);
+                });
+            }
+            entry.$p = [exact ? POINT_MODE_QUANTIZED : POINT_MODE_FLOAT64, points.length];
+        }
+        return entry;
+    });
+
+    const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+    const pointBytes = writer.toBytes();
+    const output = new Uint8Array(4 + headerBytes.length + pointBytes.length);
+    new DataView(output.buffer).setUint32(0, headerBytes.length, true);
+    output.set(headerBytes, 4);
+    output.set(pointBytes, 4 + headerBytes.length);
+    return output;
+}
+
+/**
+ * Decode a packed-v1 buffer. Throws if the data is malformed.
+ */
+export function unpackElements(data: ArrayBuffer | Uint8Array): ExcalidrawElement[] {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (bytes.length < 4) throw new Error('Packed scene data is truncated');
+
+    const headerLength = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0, true);
+    if (4 + headerLength > bytes.length) throw new Error('Packed scene data is truncated');
+
+    const header = JSON.parse(new TextDecoder().decode(bytes.subarray(4, 4 + headerLength)));
+    if (!Array.isArray(header)) throw new Error('Packed scene header is not an array');
+
+    const reader = new ByteReader(bytes, 4 + headerLength);
+    return header.map((raw: PackedHeaderElement) => {
+        if (!raw || typeof raw !== 'object') throw new Error('Packed scene element is not an object');
+        const { $d: mask = 0, $p: pointInfo, ...element } = raw;
+
+        DEFAULT_FIELDS.forEach(([key, defaultValue], bit) => {
+            if (mask & (1 << bit)) {
+                element[key] = Array.isArray(defaultValue) ? [] : defaultValue;
+            }
+        });
+
+        if (pointInfo) {
+            const [mode, count] = pointInfo;
+            if (!Number.isInteger(count) || count < 0 || count > bytes.length) throw new Error('Packed scene point count is invalid');
+            const points: [number, number][] = new Array(count);
+            if (mode === POINT_MODE_QUANTIZED) {
+                let x = 0;
+                let y = 0;
+                for (let i = 0; i < count; i++) {
+                    x += reader.readSignedVarint();
+                    y += reader.readSignedVarint();
+                    points[i] = [x / POINT_SCALE, y / POINT_SCALE];
+                }
+            } else if (mode === POINT_MODE_FLOAT64) {
+                for (let i = 0; i < count; i++) {
+                    points[i] = [reader.readFloat64(), reader.readFloat64()];
+                }
+            } else {
+                throw new Error(`Packed scene point mode ${mode} is unknown`);
+            }
+            element.points = points;
+        }
+        return element as unknown as ExcalidrawElement;
+    });
+}
+
+// Only real binary data counts: a plain object with a huge `length` must not reach new Uint8Array()
+export function isPackedElements(value: unknown): value is PackedElements {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    const { codec, data } = value as Record<string, unknown>;
+    return codec === PACKED_CODEC && (data instanceof Uint8Array || data instanceof ArrayBuffer);
+}
+
+// Element list from the wire, whichever codec the peer used
+export function decodeElements(wire: WireElements): ExcalidrawElement[] {
+    return isPackedElements(wire) ? unpackElements(wire.data) : [...wire];
+}
+
+// Negotiated codec per socket (client or server side); JSON until negotiated
+const socketCodecs = new WeakMap<object, WireCodec>();
+
+export function setWireCodec(socket: object, codec: WireCodec): void {
+    socketCodecs.set(socket, codec);
+}
+
+export function getWireCodec(socket: object): WireCodec {
+    return socketCodecs.get(socket) ?? 'json';
+}
+
+// Encode elements in whatever codec was negotiated with this socket
+export function encodeElements(socket: object, elements: readonly ExcalidrawElement[]): WireElements {
+    if (getWireCodec(socket) === PACKED_CODEC && elements.length > 0) {
+        return { codec: PACKED_CODEC, data: packElements(elements) };
+    }
+    return elements;
+}
+
+/**
+ * Pick the codec for a connection from the client's offered list (handshake auth).
+ * Clients that offer nothing get JSON.
+ */
+export function negotiateCodec(offered: unknown, allowPacked = true): WireCodec {
+    if (!Array.isArray(offered)) return 'json';
+    for (const codec of offered) {
+        if (codec === PACKED_CODEC && allowPacked) return PACKED_CODEC;
+        if (codec === 'json') return 'json';
+    }
+    return 'json';
+}
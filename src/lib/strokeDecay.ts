@@ -0,0 +1,93 @@
+import { ExcalidrawElement } from '../types';
+
+/**
+ * Fading strokes. When STROKE_FADE_HOURS is set, every stroke fades out over
+ * that long and is then dropped from the canvas, so a busy day stays
+ * readable and the server's memory stays bounded. Drawing or editing a
+ * stroke again makes it fresh.
+ *
+ * The server stamps each accepted element with when it was drawn and, with
+ * fading on, when it will be gone (`customData.drawnAt` / `fadesAt`). Every
+ * view derives opacity from those stamps at a given time: the live canvas
+ * uses now, the archive viewer the archive's end or replay position.
+ */
+
+export interface StrokeTimes {
+    drawnAt: number;
+    fadesAt: number | null; // null: never fades
+}
+
+// Strokes are drawn at full opacity; fading is the only thing that changes it
+const FULL_OPACITY = 100;
+// Opacity moves in steps so views only repaint when the change is visible
+const OPACITY_STEP = 5;
+
+/**
+ * Lifetime of a stroke from STROKE_FADE_HOURS, or null when strokes don't
+ * fade. Invalid values turn fading off with a warning.
+ */
+export function parseStrokeLifetime(env: NodeJS.ProcessEnv = process.env): number | null {
+    if (!env.STROKE_FADE_HOURS) return null;
+    const hours = Number(env.STROKE_FADE_HOURS);
+    if (!Number.isFinite(hours) || hours <= 0) {
+        console.warn('[StrokeDecay] ⚠️ STROKE_FADE_HOURS must be a positive number of hours - strokes will not fade');
+        return null;
+    }
+    return Math.round(hours * 60 * 60 * 1000);
+}
+
+// Server stamp of an element; anything a client made up is replaced on arrival
+export function getStrokeTimes(el: ExcalidrawElement): StrokeTimes | null {
+    const data = el.customData;
+    if (!data || typeof data.drawnAt !== 'number') return null;
+    return { drawnAt: data.drawnAt, fadesAt: typeof data.fadesAt === 'number' ? data.fadesAt : null };
+}
+
+/**
+ * Copies of freshly accepted elements stamped with `now`. A stroke that
+ * fades gets its opacity back, since a faded copy may have been edited.
+ */
+export function stampElements(elements: readonly ExcalidrawElement[], now: number, lifetimeMs: number | null): ExcalidrawElement[] {
+    return elements.map(el => ({
+        ...el,
+        ...(lifetimeMs !== null ? { opacity: FULL_OPACITY } : {}),
+        customData: { drawnAt: now, ...(lifetimeMs !== null ? { fadesAt: now + lifetimeMs } : {}) },
+    }));
+}
+
+export function isFaded(times: StrokeTimes | null, now: number): boolean {
+    return times?.fadesAt != null && now >= times.fadesAt;
+}
+
+// Opacity (0-100) a stroke stamped `times` has at `now`
+export function getFadeOpacity(times: StrokeTimes | null, now: number): number {
+    if (!times || times.fadesAt === null) return FULL_OPACITY;
+    const lifetime = times.fadesAt - times.drawnAt;
+    const left = lifetime > 0 ? (times.fadesAt - now) / lifetime : 0;
+    const opacity = Math.ceil((FULL_OPACITY * Math.min(1, left)) / OPACITY_STEP) * OPACITY_STEP;
+    return Math.max(0, opacity);
+}
+
+/**
+ * The elements as they look at `now`: faded ones dropped, the rest at their
+ * faded opacity. `timesOf` lets the live canvas use its own timing for
+ * strokes it drew itself, which the server never echoes back.
+ */
+export function fadeElements<T extends ExcalidrawElement>(
+    elements: readonly T[],
+    now: number,
+    timesOf: (el: T) => StrokeTimes | null = getStrokeTimes
+): T[] {
+    const visible: T[] = [];
+    elements.forEach(el => {
+        const times = timesOf(el);
+        if (!times || times.fadesAt === null) {
+            visible.push(el);
+            return;
+        }
+        if (isFaded(times, now)) return;
+        const opacity = getFadeOpacity(times, now);
+        visible.push(opacity === el.opacity ? el : { ...el, opacity });
+    });
+    return visible;
+}
@@ -0,0 +1,62 @@
+import type { ExcalidrawElement, TimelapseFrame } from '../types';
+
+/**
+ * Helpers for rebuilding a canvas from its timelapse frames.
+ * Shared by the server-side recorder and the archive viewer.
+ */
+
+/**
+ * Approximate frames from final elements alone, using Excalidraw's `updated`
+ * timestamp (time of each element's last change). Used for archives saved
+ * before timelapses were recorded, and for elements restored after a restart.
+ */
+export function framesFromElements(
+    elements: readonly ExcalidrawElement[],
+    startTime: number,
+    endTime: number,
+    frameIntervalMs = 1000
+): TimelapseFrame[] {
+    const byFrame = new Map<number, ExcalidrawElement[]>();
+    elements.forEach(el => {
+        const updated = typeof el.updated === 'number' ? el.updated : endTime;
+        const offset = Math.min(Math.max(updated, startTime), endTime) - startTime;
+        const t = Math.floor(offset / frameIntervalMs) * frameIntervalMs;
+        const frame = byFrame.get(t);
+        if (frame) {
+            frame.push(el);
+        } else {
+            byFrame.set(t, [el]);
+        }
+    });
+
+    return Array.from(byFrame.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([t, frameElements]) => ({ t, elements: frameElements }));
+}
+
+// Merge two adjacent frames into one at the later time, keeping the latest version of each element
+export function mergeFrames(earlier: TimelapseFrame, later: TimelapseFrame): TimelapseFrame {
+    const merged = new Map<string, ExcalidrawElement>();
+    earlier.elements.forEach(el => merged.set(el.id, el));
+    later.elements.forEach(el => merged.set(el.id, el));
+    return { t: later.t, elements: Array.from(merged.values()) };
+}
+
+/**
+ * Apply frames to a scene map, from index `fromIndex` up to (and including) time `t`.
+ * Returns the index of the first frame not applied, so playback can continue from it.
+ */
+export function applyFramesUntil(
+    scene: Map<string, ExcalidrawElement>,
+    frames: readonly TimelapseFrame[],
+    fromIndex: number,
+    t: number
+): number {
+    let index = fromIndex;
+    while (index < frames.length && frames[index].t <= t) {
+        frames[index].elements.forEach(el => scene.set(el.id, el));
+        index++;
+    }
+    return index;
+}
+
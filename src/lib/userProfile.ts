@@ -0,0 +1,119 @@
+import { ProfileRequest, UserProfile } from '../types';
+
+/**
+ * Display names and presence colors. The browser keeps the chosen profile in
+ * a cookie and sends it once in the handshake; the server cleans it up here
+ * and fills in a random name and color for anything missing or refused, so
+ * every cursor on the canvas has both.
+ */
+
+export const PROFILE_LIMITS = {
+    maxNameLength: 24,
+} as const;
+
+// Bright enough to read a white name label on, distinct from each other
+export const PRESENCE_COLORS = [
+    '#e03131', // Red
+    '#c2255c', // Pink
+    '#9c36b5', // Grape
+    '#6741d9', // Violet
+    '#3b5bdb', // Indigo
+    '#1971c2', // Blue
+    '#0c8599', // Cyan
+    '#099268', // Teal
+    '#2f9e44', // Green
+    '#66a80f', // Lime
+    '#f08c00', // Yellow
+    '#e8590c', // Orange
+] as const;
+
+const NAME_ADJECTIVES = ['Happy', 'Creative', 'Swift', 'Bold', 'Mighty', 'Jolly', 'Zany', 'Witty', 'Calm', 'Eager', 'Neon', 'Cosmic'];
+const NAME_NOUNS = ['Panda', 'Fox', 'Tiger', 'Artist', 'Doodler', 'Scribbler', 'Painter', 'Brush', 'Pencil', 'Marker', 'Badger', 'Falcon'];
+
+// Matched at the start of each word of the name, with look-alike digits read as letters
+const BLOCKED_WORDS = ['fuck', 'shit', 'cunt', 'bitch', 'asshole', 'bastard', 'whore', 'slut', 'nigger', 'nigga', 'faggot', 'retard', 'nazi', 'hitler', 'rapist'];
+
+// Ordinary words and names that happen to start with a blocked word
+const ALLOWED_WORDS = ['nazir', 'nazim', 'retardant', 'shitake'];
+
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+function pick<T>(items: readonly T[]): T {
+    return items[Math.floor(Math.random() * items.length)];
+}
+
+export function getRandomProfile(): UserProfile {
+    return { name: `${pick(NAME_ADJECTIVES)} ${pick(NAME_NOUNS)}`, color: pick(PRESENCE_COLORS) };
+}
+
+/**
+ * Whether a word of the name starts with a blocked word. Words are split on
+ * separators, digits and camelCase humps, so joined-up names still count
+ * while a blocked word inside a longer one doesn't; letters spelled out one
+ * at a time are read as a word:
+ *
+ *   "Scunthorpe Fan", "Nazir", "Cocktail Hour"  → allowed
+ *   "Sh1t Happens", "NAZIS", "f.u.c.k"          → blocked
+ *   "FuckYou", "HitlerFan88"                    → blocked
+ */
+function containsBlockedWord(name: string): boolean {
+    const tokens = name
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+        .toLowerCase()
+        .replace(/[013457@$!]/g, char => LOOKALIKES[char])
+        .split(/[^a-z]+/)
+        .filter(Boolean);
+
+    // Runs of single letters ("f u c k") join into one word
+    const words: string[] = [];
+    let spelled = '';
+    for (const token of tokens) {
+        if (token.length === 1) {
+            spelled += token;
+            continue;
+        }
+        if (spelled) words.push(spelled);
+        spelled = '';
+        words.push(token);
+    }
+    if (spelled) words.push(spelled);
+
+    return words.some(word => !ALLOWED_WORDS.includes(word) && BLOCKED_WORDS.some(blocked => word.startsWith(blocked)));
+}
+
+/**
+ * A display name as others will see it, or null if it can't be used. Tags,
+ * markup characters and control characters are dropped, whitespace collapsed;
+ * names that end up empty, too long or offensive are refused.
+ */
+export function sanitizeProfileName(raw: unknown): string | null {
+    if (typeof raw !== 'string') return null;
+    const name = raw
+        .replace(/<[^>]*>/g, '')
+        .replace(/[<>&"'`]/g, '')
+        .replace(/[\s\u0000-\u001f\u007f-\u009f\u200b-\u200f\u202a-\u202e\u2060-\u206f\ufeff]+/g, ' ')
+        .trim();
+    if (!name || [...name].length > PROFILE_LIMITS.maxNameLength) return null;
+    if (containsBlockedWord(name)) return null;
+    return name;
+}
+
+// Presence colors come from the fixed list so every name label stays readable
+export function isPresenceColor(value: unknown): value is string {
+    return typeof value === 'string' && (PRESENCE_COLORS as readonly string[]).includes(value);
+}
+
+/**
+ * The profile a connection starts with: whatever the browser saved, checked,
+ * with a random name or color for the parts that are missing or refused.
+ */
+export function resolveProfile(requested: unknown): UserProfile {
+    const fallback = getRandomProfile();
+    if (!requested || typeof requested !== 'object') return fallback;
+    const { name, color } = requested as ProfileRequest;
+    return {
+        name: sanitizeProfileName(name) ?? fallback.name,
+        color: isPresenceColor(color) ? color : fallback.color,
+    };
+}
@@ -5,39 +5,282 @@ export type { ExcalidrawElement };
 
 // Socket events for real-time communication
 export interface ServerToClientEvents {
-  'scene:update': (data: SceneUpdate) => void;
-  'scene:sync': (elements: readonly ExcalidrawElement[]) => void; // Full sync
-  'scene:init': (data: SceneInitData) => void;
+  'session:codec': (codec: WireCodec) => void; // Codec chosen for element lists, sent first on connect
+  'scene:update': (data: Wire<SceneUpdate>) => void;
+  'scene:sync': (data: Wire<SceneSyncData>) => void; // Full sync
+  'scene:init': (data: Wire<SceneInitData>) => void;
+  'scene:catchup': (data: Wire<SceneCatchupData>) => void; // Missed deltas after a reconnect
+  'scene:rejected': (data: SceneRejectedData) => void; // Sender's elements the server refused
+  'scene:region': (data: Wire<SceneRegionData>) => void; // Elements that scrolled into the viewport
   'cursor:update': (cursor: CursorData) => void;
   'cursor:remove': (userId: string) => void;
   'users:count': (count: number) => void;
   'artists:count': (count: number) => void;
+  'ink:state': (state: InkStateData) => void; // Authoritative ink level for this session
+  'server:error': (error: ServerErrorData) => void; // Why an update was dropped
+  'moderator:status': (isModerator: boolean) => void; // Sent on connect to signed-in admins
+  'moderation:result': (result: ModerationResult) => void; // Outcome of the moderator's last action
+  'host:state': (state: CanvasHostState) => void; // Room host settings, on connect and on every change
+  'host:status': (isHost: boolean) => void; // Whether this device hosts the room
+  'host:notice': (notice: HostNotice) => void; // A host action everyone in the room should hear about
+  'host:result': (result: HostResult) => void; // Outcome of the host's last action
+  'palette:rule': (rule: PaletteRule | null) => void; // The scheduled palette changed mid-cycle
+  'reaction:add': (reaction: Reaction) => void; // Someone reacted near this viewport
+  'pin:add': (pin: Pin) => void;
+  'pin:remove': (pinId: string) => void;
+  'pin:result': (result: PinResult) => void; // Outcome of the sender's last pin action
+  'profile:set': (profile: UserProfile) => void; // Name and color others see, on connect and after a change
+  'follow:count': (count: number) => void; // How many people follow this device's view; 0 stops the broadcast
+  'follow:view': (view: FollowViewData) => void; // Where the followed user is looking
 }
 
 export interface ClientToServerEvents {
-  'scene:update': (elements: readonly ExcalidrawElement[]) => void; // Delta or full update
+  'scene:update': (elements: WireElements) => void; // Delta or full update
   'scene:request-sync': () => void;
-  'cursor:move': (cursor: CursorData) => void;
+  'cursor:move': (cursor: CursorPosition) => void; // Name and color come from the profile
+  'profile:update': (profile: ProfileRequest) => void;
+  'follow:start': (userId: string) => void; // Follow another device's view (replaces any current follow)
+  'follow:stop': () => void;
+  'follow:view': (view: FollowView) => void; // Own view, sent only while followed
+  'reaction:add': (reaction: ReactionRequest) => void;
+  'pin:add': (pin: PinRequest) => void;
+  'pin:remove': (pinId: string) => void; // Own pins; hosts and moderators can remove any
+  'viewport:update': (bounds: Bounds) => void; // Visible scene area, drives what the server streams
+  'moderation:delete-region': (bounds: Bounds) => void; // Moderators only
+  'moderation:rollback-region': (request: ModerationRollbackRequest) => void; // Moderators only
+  'host:claim': (hostKey?: string) => void; // Become host of a named room; once claimed, only with its host key
+  'host:freeze': (frozen: boolean) => void; // Hosts only, like the rest of host:*
+  'host:clear': () => void;
+  'host:restrict': (restrictions: HostRestrictions) => void;
+  'host:grant-ink': (amount: number) => void; // Temporary extra ink for everyone in the room
+  'host:archive': () => void; // Save the board to the gallery without clearing it
 }
 
+// Element list codecs; see lib/sceneCodec.ts
+export type WireCodec = 'json' | 'packed-v1';
+
+export interface PackedElements {
+  codec: 'packed-v1';
+  data: ArrayBuffer | Uint8Array;
+}
+
+// Elements as sent over the socket: a plain array, or packed when negotiated
+export type WireElements = readonly ExcalidrawElement[] | PackedElements;
+
+// An event payload with its element list in wire form
+export type Wire<T extends { elements: readonly ExcalidrawElement[] }> = Omit<T, 'elements'> & { elements: WireElements };
+
 export interface SceneUpdate {
   userId: string;
   elements: readonly ExcalidrawElement[];
+  seq: number; // Server sequence number of this batch
 }
 
-export interface SceneInitData {
+// Position in the server's update stream; epoch changes when old seqs become meaningless
+export interface ScenePosition {
+  epoch: string;
+  seq: number;
+}
+
+export interface SceneInitData extends ScenePosition {
   elements: readonly ExcalidrawElement[];
   startTime: number;
+  nextResetAt: number; // When this canvas will be archived and cleared
+  prompt: string | null; // Today's theme, if one is configured
+  paletteRule: PaletteRule | null; // Scheduled palette/tool limits in force right now
+  strokeLifetimeMs: number | null; // Strokes fade out over this long; null when they don't
+  pins: Pin[]; // Every pin of the cycle, wherever it is
   artistCount: number;
 }
 
-// Cursor data for real-time presence
-export interface CursorData {
+export interface SceneSyncData extends ScenePosition {
+  elements: readonly ExcalidrawElement[];
+}
+
+export interface SceneCatchupData extends ScenePosition {
+  elements: readonly ExcalidrawElement[]; // Latest version of each element changed since lastSeq
+  pins: Pin[];
+  artistCount: number;
+}
+
+export type ElementRejectionReason = 'stale' | 'ink_depleted' | 'frozen' | 'palette' | 'host_limits';
+
+export interface SceneRejectedData {
+  rejections: { id: string; reason: ElementRejectionReason }[];
+  elements: readonly ExcalidrawElement[]; // Server's current copy of rejected elements it already has
+}
+
+export interface SceneRegionData {
+  elements: readonly ExcalidrawElement[];
+}
+
+// Restore every element touching `bounds` to how it was at `timestamp`
+export interface ModerationRollbackRequest {
+  bounds: Bounds;
+  timestamp: number; // Epoch ms, within the current cycle
+}
+
+export interface ModerationResult {
+  action: 'delete-region' | 'rollback-region';
+  affected: number; // Elements changed
+  error?: string;
+}
+
+// Toolbar tools a host can turn off (the hand tool always stays)
+export const RESTRICTABLE_TOOLS = ['brush', 'eraser'] as const;
+export type RestrictableTool = typeof RESTRICTABLE_TOOLS[number];
+
+// Palette and tools a host allows; null means no restriction
+export interface HostRestrictions {
+  allowedColors: string[] | null;
+  allowedTools: RestrictableTool[] | null;
+}
+
+// Host settings of a room as participants see them
+export interface CanvasHostState extends HostRestrictions {
+  hosted: boolean; // Someone has claimed the room
+  frozen: boolean; // Drawing is paused for everyone but the host
+}
+
+// Limits from the canvas schedule (see PaletteSchedule), for everyone including the host
+export interface PaletteRule extends HostRestrictions {
+  name: string | null; // Shown to artists, e.g. "Only blues until noon"
+  allowedSizes: BrushSize[] | null;
+}
+
+export type HostAction = 'claim' | 'freeze' | 'unfreeze' | 'clear' | 'restrict' | 'grant-ink' | 'archive';
+
+export interface HostNotice {
+  action: HostAction;
+  message: string;
+}
+
+export interface HostResult {
+  action: HostAction;
+  error?: string;
+  archiveId?: string; // Set by a successful archive
+  hostKey?: string; // Set by the claim that made the room's host key; keep it to host again
+}
+
+// Emoji anyone can drop on the canvas
+export const REACTION_EMOJIS = ['❤️', '🔥', '😂', '😮', '👏', '✨'] as const;
+export type ReactionEmoji = typeof REACTION_EMOJIS[number];
+
+// A reaction at a scene position; it floats there for a few seconds
+export interface ReactionRequest {
+  emoji: ReactionEmoji;
+  x: number;
+  y: number;
+}
+
+export interface Reaction extends ReactionRequest {
+  id: string;
   userId: string;
+}
+
+// A short note pinned at a scene position until the reset
+export interface PinRequest {
+  text: string;
+  x: number;
+  y: number;
+}
+
+export interface Pin extends PinRequest {
+  id: string;
+  userId: string;
+  createdAt: number;
+}
+
+export interface PinResult {
+  action: 'add' | 'remove';
+  pinId?: string; // The pin added or removed
+  error?: string;
+}
+
+// How often each emoji was used in a cycle, saved with its archive
+export type ReactionCounts = Partial<Record<ReactionEmoji, number>>;
+
+// Axis-aligned rectangle in scene coordinates
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Sent in the Socket.io handshake `auth` when reconnecting
+export interface SceneResumeAuth {
+  epoch: string;
+  lastSeq: number;
+}
+
+// Handshake `auth` payload: resume position (if any), the initial viewport and supported codecs
+export interface SocketHandshakeAuth extends Partial<SceneResumeAuth> {
+  room?: string; // Named canvas to join; the main canvas when omitted
+  viewport?: Bounds;
+  codecs?: readonly WireCodec[];
+  profile?: ProfileRequest; // Saved profile; the server picks a name and color for anything missing
+}
+
+// Server-side ink ledger snapshot for one session
+export interface InkStateData {
+  current: number;
+  max: number; // Includes any extra ink a host granted
+  bonusUntil?: number; // When granted ink expires (epoch ms)
+}
+
+// Reasons the server may drop a client event
+export type ServerErrorCode = 'rate_limited' | 'invalid_payload' | 'ink_depleted' | 'frozen' | 'palette' | 'host_limits';
+
+export interface ServerErrorData {
+  event: keyof ClientToServerEvents;
+  code: ServerErrorCode;
+  message: string;
+}
+
+// One step of an archive's timelapse: elements changed around time `t`
+export interface TimelapseFrame {
+  t: number; // Milliseconds since the canvas cycle started
+  elements: ExcalidrawElement[]; // Latest version of each element changed in this frame
+}
+
+// Time-ordered change log of a canvas cycle, saved with its archive for replay
+export interface TimelapseData {
+  startTime: number;
+  endTime: number;
+  frames: TimelapseFrame[];
+}
+
+// Cursor data for real-time presence
+export interface CursorPosition {
   x: number;
   y: number;
+}
+
+export interface CursorData extends CursorPosition {
+  userId: string;
+  color: string; // Presence color from the profile
+  userName: string;
+}
+
+// Display name and presence color, chosen once and kept in a cookie
+export interface UserProfile {
+  name: string;
   color: string;
-  userName?: string;
+}
+
+export type ProfileRequest = Partial<UserProfile>;
+
+// A view as followers see it: the scene point at the center of the screen,
+// so it carries over between screens of different sizes
+export interface FollowView {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface FollowViewData extends FollowView {
+  userId: string; // Device being followed
 }
 
 // Predefined color palette (aligned with Excalidraw defaults or custom)